@@ -0,0 +1,142 @@
+// api/_lib/admin.ts
+// Ylläpidon toiminnot: haku, käsin myöntäminen ja jatkaminen, peruutus, kuitin uudelleenlähetys
+// ja asiakasluettelon CSV-vienti. Jokainen muutos kirjataan lisenssin ylläpitohistoriaan.
+import type { Locale } from "./email-templates";
+import { recordAdminAction } from "./history";
+import {
+  createLicense,
+  findLicenseByEmail,
+  getLicense,
+  isLicenseValid,
+  issueLoginToken,
+  listLicenseKeys,
+  normalizeEmail,
+  saveLicense,
+  type LicenseRecord,
+} from "./licenses";
+import { sendNotice } from "./mail";
+import { receiptNotice } from "./stripe-events";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+export const SEARCH_LIMIT = 50;
+
+export type AdminLicense = LicenseRecord & { valid: boolean };
+
+export type AdminResult = { ok: true; license: AdminLicense } | { ok: false; reason: string };
+
+const view = (rec: LicenseRecord): AdminLicense => ({ ...rec, valid: isLicenseValid(rec) });
+
+export async function loadAllLicenses(): Promise<LicenseRecord[]> {
+  const recs = await Promise.all((await listLicenseKeys()).map(getLicense));
+  return recs.filter((r): r is LicenseRecord => r !== null);
+}
+
+/**
+ * Tarkka osuma avaimella tai sähköpostilla, muuten osittainen osuma kaikista lisensseistä.
+ * Tyhjä haku palauttaa uusimmat.
+ */
+export async function searchLicenses(query: string, limit = SEARCH_LIMIT): Promise<AdminLicense[]> {
+  const q = query.trim();
+  if (q) {
+    const exact = (await getLicense(q)) ?? (q.includes("@") ? await findLicenseByEmail(q) : null);
+    if (exact) return [view(exact)];
+  }
+  const email = normalizeEmail(q);
+  const key = q.toUpperCase();
+  return (await loadAllLicenses())
+    .filter((r) => !q || r.email.includes(email) || r.key.includes(key))
+    .sort((a, b) => b.createdAt - a.createdAt)
+    .slice(0, limit)
+    .map(view);
+}
+
+export type IssueInput = { email: string; days: number | null; seats: number; locale: Locale; sendReceipt: boolean };
+
+/** Käsin myönnetty lisenssi (esim. lasku- tai kokeiluasiakas), ilman Stripe-tilausta. */
+export async function issueLicense(input: IssueInput): Promise<AdminResult> {
+  const existing = await findLicenseByEmail(input.email);
+  if (existing && existing.status !== "revoked") return { ok: false, reason: "exists" };
+
+  const license = await createLicense({
+    email: input.email,
+    seats: input.seats,
+    locale: input.locale,
+    expiresAt: input.days === null ? null : Date.now() + input.days * DAY_MS,
+  });
+  await recordAdminAction(license.key, "issue", `${input.days ?? "∞"} pv, ${input.seats} laitetta`);
+  if (input.sendReceipt) return resendReceipt(license);
+  return { ok: true, license: view(license) };
+}
+
+/** Jatkaa voimassaoloa nykyhetkestä tai päättymisajasta (myöhäisempi) ja palauttaa lisenssin voimaan. */
+export async function extendLicense(rec: LicenseRecord, days: number): Promise<AdminResult> {
+  if (rec.expiresAt === null && rec.status === "active") return { ok: false, reason: "no-expiry" };
+  const from = Math.max(Date.now(), rec.expiresAt ?? 0);
+  const license = await saveLicense({
+    ...rec,
+    status: "active",
+    expiresAt: from + days * DAY_MS,
+    graceUntil: null,
+    revokedReason: null,
+  });
+  await recordAdminAction(rec.key, "extend", `${days} pv`);
+  return { ok: true, license: view(license) };
+}
+
+export async function revokeLicense(rec: LicenseRecord, reason: string): Promise<AdminResult> {
+  const license = await saveLicense({ ...rec, status: "revoked", revokedReason: reason || "admin" });
+  await recordAdminAction(rec.key, "revoke", license.revokedReason);
+  return { ok: true, license: view(license) };
+}
+
+/** Uusi kirjautumistunnus ja kuitti lisenssin osoitteeseen. Virhe heitetään. */
+export async function resendReceipt(rec: LicenseRecord): Promise<AdminResult> {
+  if (rec.status === "revoked") return { ok: false, reason: "revoked" };
+  const token = await issueLoginToken(rec.key);
+  await sendNotice(receiptNotice(rec, token));
+  await recordAdminAction(rec.key, "resend-receipt", rec.email);
+  return { ok: true, license: view(rec) };
+}
+
+/* --------------------------------  CSV  --------------------------------- */
+const CSV_COLUMNS = [
+  "key",
+  "email",
+  "status",
+  "valid",
+  "seats",
+  "expiresAt",
+  "revokedReason",
+  "customerId",
+  "subscriptionId",
+  "locale",
+  "createdAt",
+] as const;
+
+const iso = (ms: number | null) => (ms === null ? "" : new Date(ms).toISOString());
+
+/** Puolipiste erottimena ja lainausmerkit tarvittaessa; kaavaksi tulkittava alku (=, +, -, @) estetään. */
+function csvCell(value: string): string {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[";\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** Excel tunnistaa UTF-8:n BOM-merkistä. */
+export function customersCsv(recs: LicenseRecord[], now = Date.now()): string {
+  const rows = recs.map((r) =>
+    [
+      r.key,
+      r.email,
+      r.status,
+      isLicenseValid(r, now) ? "yes" : "no",
+      String(r.seats),
+      iso(r.expiresAt),
+      r.revokedReason ?? "",
+      r.customerId ?? "",
+      r.subscriptionId ?? "",
+      r.locale,
+      iso(r.createdAt),
+    ].map(csvCell).join(";")
+  );
+  return "\uFEFF" + [CSV_COLUMNS.join(";"), ...rows].join("\r\n") + "\r\n";
+}
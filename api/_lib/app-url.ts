@@ -0,0 +1,7 @@
+// api/_lib/app-url.ts
+// Sovelluksen julkinen osoite sähköpostilinkkeihin ja Stripen paluuosoitteisiin.
+// Ei lueta Host-otsakkeesta, jottei linkkiä voi ohjata vieraaseen osoitteeseen.
+export function appUrl(path = "/"): string {
+  const base = process.env.APP_URL || (process.env.VERCEL_URL ? `https://${process.env.VERCEL_URL}` : "http://localhost:5173");
+  return new URL(path, base).toString();
+}
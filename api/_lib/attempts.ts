@@ -0,0 +1,37 @@
+// api/_lib/attempts.ts
+// Julkisten rajapintojen epäonnistuneet yritykset ylläpidon tarkasteltavaksi:
+//
+//   abuse:attempts:log  → lista Attempt  (uusin ensin, enintään ATTEMPT_LIMIT)
+//
+// Kirjaus on lpush + ltrim, joten yritys ei lue eikä kirjoita koko lokia uudelleen.
+//
+// Avaimesta tai tunnuksesta tallennetaan vain alku, jottei loki itse vuoda tunnisteita.
+import { getKv } from "./kv";
+
+export type Attempt = {
+  at: number;
+  route: string;
+  ip: string;
+  /** Esim. "license", "token", "rate-limit", "origin", "body". */
+  reason: string;
+  subject: string | null;
+};
+
+export const ATTEMPT_LIMIT = 500;
+const ATTEMPTS_KEY = "abuse:attempts:log";
+
+export function maskSubject(subject: string): string {
+  return subject.length <= 4 ? "…" : `${subject.slice(0, 4)}…`;
+}
+
+/** Uusin ensin. */
+export async function listAttempts(): Promise<Attempt[]> {
+  return getKv().lrange<Attempt>(ATTEMPTS_KEY, 0, ATTEMPT_LIMIT - 1);
+}
+
+export async function recordAttempt(a: Omit<Attempt, "at" | "subject"> & { subject?: string | null }): Promise<void> {
+  const entry: Attempt = { ...a, at: Date.now(), subject: a.subject ? maskSubject(a.subject) : null };
+  const kv = getKv();
+  await kv.lpush(ATTEMPTS_KEY, entry);
+  await kv.ltrim(ATTEMPTS_KEY, 0, ATTEMPT_LIMIT - 1);
+}
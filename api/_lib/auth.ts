@@ -0,0 +1,20 @@
+// api/_lib/auth.ts
+// Ylläpidon rajapinnat: "Authorization: Bearer <ADMIN_API_KEY>". Erillinen asiakkaan lisenssistä.
+import { timingSafeEqual } from "node:crypto";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+export function isAdmin(req: VercelRequest): boolean {
+  const secret = process.env.ADMIN_API_KEY;
+  const header = req.headers.authorization || "";
+  if (!secret || !header.startsWith("Bearer ")) return false;
+  const given = Buffer.from(header.slice(7));
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/** Vastaa 401 ja palauttaa false, jos pyyntö ei ole ylläpidon. */
+export function requireAdmin(req: VercelRequest, res: VercelResponse): boolean {
+  if (isAdmin(req)) return true;
+  res.status(401).json({ ok: false, reason: "unauthorized" });
+  return false;
+}
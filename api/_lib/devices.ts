@@ -0,0 +1,89 @@
+// api/_lib/devices.ts
+// Laiteaktivoinnit: lisenssillä voi olla korkeintaan `seats` aktiivista laitetta.
+//
+//   license-devices:<KEY>  → Device[] (aktivointijärjestyksessä)
+//
+// Lista luetaan ja kirjoitetaan lisenssikohtaisen lukon sisällä (lock:license-devices:<KEY>), joten
+// rinnakkaiset aktivoinnit eivät ohita paikkarajaa.
+// Vapautuksia on rajattu lisenssikohtaisesti (ratelimit:device-release:<KEY>:<ikkuna>), jottei
+// yhtä paikkaa voi kierrättää rajattomasti laitteelta toiselle.
+import { getKv } from "./kv";
+import { normalizeLicenseKey, type LicenseRecord } from "./licenses";
+import { withLock } from "./lock";
+import { hitLimit, type Limit } from "./rate-limit";
+
+export type Device = {
+  id: string;
+  name: string;
+  activatedAt: number;
+  lastSeenAt: number;
+};
+
+export type Activation =
+  | { ok: true; device: Device; devices: Device[] }
+  | { ok: false; reason: "seats"; devices: Device[] };
+
+export type Release =
+  | { ok: true; devices: Device[] }
+  | { ok: false; reason: "release-limit"; retryAfter: number; devices: Device[] };
+
+export const RELEASE_WINDOW_S = 60 * 60 * 24 * 7; // 7 vrk
+/** Vapautuksia ikkunassa laitepaikkaa kohden. */
+export const RELEASES_PER_SEAT = 2;
+
+const releaseLimit = (lic: LicenseRecord): Limit => ({ max: Math.max(1, lic.seats) * RELEASES_PER_SEAT, windowS: RELEASE_WINDOW_S });
+
+const devicesKey = (license: string) => `license-devices:${normalizeLicenseKey(license)}`;
+
+const DEVICE_ID_RE = /^[A-Za-z0-9_-]{8,64}$/;
+export const MAX_DEVICE_NAME = 60;
+
+export function isDeviceId(x: unknown): x is string {
+  return typeof x === "string" && DEVICE_ID_RE.test(x);
+}
+
+export function cleanDeviceName(x: unknown): string {
+  const name = typeof x === "string" ? x.replace(/\s+/g, " ").trim().slice(0, MAX_DEVICE_NAME) : "";
+  return name || "Nimetön laite";
+}
+
+export async function listDevices(license: string): Promise<Device[]> {
+  return (await getKv().get<Device[]>(devicesKey(license))) ?? [];
+}
+
+async function saveDevices(license: string, devices: Device[]): Promise<void> {
+  if (devices.length) await getKv().set(devicesKey(license), devices);
+  else await getKv().del(devicesKey(license));
+}
+
+/**
+ * Aktivoi laitteen tai päivittää jo aktivoidun nimen ja viimeisen käytön. Jos paikkoja on vähennetty,
+ * vain `seats` ensin aktivoitua laitetta kelpaa; muut on vapautettava.
+ */
+export async function activateDevice(lic: LicenseRecord, id: string, name: string, now = Date.now()): Promise<Activation> {
+  return withLock(devicesKey(lic.key), async () => {
+    const devices = await listDevices(lic.key);
+    const i = devices.findIndex((d) => d.id === id);
+    if (i >= lic.seats || (i < 0 && devices.length >= lic.seats)) return { ok: false, reason: "seats", devices };
+
+    const device: Device = i >= 0 ? { ...devices[i], name, lastSeenAt: now } : { id, name, activatedAt: now, lastSeenAt: now };
+    const next = i >= 0 ? devices.map((d, j) => (j === i ? device : d)) : [...devices, device];
+    await saveDevices(lic.key, next);
+    return { ok: true, device, devices: next };
+  });
+}
+
+/** Vapauttaa laitteen paikan; tuntematon laite ei kuluta vapautuskiintiötä. */
+export async function releaseDevice(lic: LicenseRecord, id: string, now = Date.now()): Promise<Release> {
+  return withLock(devicesKey(lic.key), async () => {
+    const devices = await listDevices(lic.key);
+    if (!devices.some((d) => d.id === id)) return { ok: true, devices };
+
+    const limit = await hitLimit("device-release", normalizeLicenseKey(lic.key), releaseLimit(lic), now);
+    if (!limit.ok) return { ok: false, reason: "release-limit", retryAfter: limit.retryAfter, devices };
+
+    const next = devices.filter((d) => d.id !== id);
+    await saveDevices(lic.key, next);
+    return { ok: true, devices: next };
+  });
+}
@@ -0,0 +1,173 @@
+// api/_lib/email-templates.ts
+// Asiakasviestien pohjat suomeksi ja englanniksi. Pohja kuvaa sisällön lohkoina; HTML ja
+// tekstiversio tuotetaan samasta rakenteesta, ja kaikki muuttujat escapoidaan HTML:ssä.
+
+export type Locale = "fi" | "en";
+
+export type TemplateData = {
+  receipt: { license: string; token: string; appUrl: string };
+  renewal: { license: string; expiresAt: number | null; appUrl: string };
+  "payment-failed": { graceUntil: number; appUrl: string };
+  recovery: { loginUrl: string; ttlMinutes: number };
+  "expiry-reminder": { expiresAt: number; appUrl: string };
+};
+
+export type TemplateName = keyof TemplateData;
+
+export type RenderedEmail = { subject: string; html: string; text: string };
+
+type Block =
+  | { p: string }
+  | { fields: [label: string, value: string][] }
+  | { button: string; href: string }
+  | { small: string };
+
+type Content = { subject: string; heading: string; blocks: Block[] };
+
+const BRAND = "Tuntihintasi";
+
+export function escapeHtml(s: string): string {
+  return s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+}
+
+function fmtDate(ms: number, locale: Locale): string {
+  return new Date(ms).toLocaleDateString(locale === "fi" ? "fi-FI" : "en-GB", {
+    timeZone: "Europe/Helsinki",
+    day: "numeric",
+    month: locale === "fi" ? "numeric" : "long",
+    year: "numeric",
+  });
+}
+
+const TEMPLATES: { [T in TemplateName]: Record<Locale, (d: TemplateData[T]) => Content> } = {
+  receipt: {
+    fi: (d) => ({
+      subject: `${BRAND} – kuitti ja tunnuskoodi`,
+      heading: "Kiitos tilauksesta!",
+      blocks: [
+        { p: "Lisenssisi on nyt aktivoitu." },
+        { fields: [["Lisenssikoodi", d.license], ["Kirjautumistunnus", d.token]] },
+        { button: "Avaa sovellus", href: d.appUrl },
+        { small: "Kirjautumistunnus on kertakäyttöinen ja voimassa vuorokauden. Säilytä lisenssikoodi." },
+      ],
+    }),
+    en: (d) => ({
+      subject: `${BRAND} – receipt and access code`,
+      heading: "Thank you for your order!",
+      blocks: [
+        { p: "Your license is now active." },
+        { fields: [["License key", d.license], ["Login code", d.token]] },
+        { button: "Open the app", href: d.appUrl },
+        { small: "The login code can be used once within 24 hours. Keep your license key safe." },
+      ],
+    }),
+  },
+  renewal: {
+    fi: (d) => ({
+      subject: `${BRAND} – tilauksesi jatkuu`,
+      heading: "Kiitos, tilauksesi jatkuu!",
+      blocks: [
+        { p: "Lisenssisi voimassaoloa on jatkettu." },
+        { fields: [["Lisenssikoodi", d.license], ["Voimassa", d.expiresAt === null ? "toistaiseksi" : fmtDate(d.expiresAt, "fi")]] },
+        { button: "Avaa sovellus", href: d.appUrl },
+      ],
+    }),
+    en: (d) => ({
+      subject: `${BRAND} – your subscription has been renewed`,
+      heading: "Thank you, your subscription continues!",
+      blocks: [
+        { p: "Your license has been extended." },
+        { fields: [["License key", d.license], ["Valid until", d.expiresAt === null ? "further notice" : fmtDate(d.expiresAt, "en")]] },
+        { button: "Open the app", href: d.appUrl },
+      ],
+    }),
+  },
+  "payment-failed": {
+    fi: (d) => ({
+      subject: `${BRAND} – maksu epäonnistui`,
+      heading: "Tilauksesi maksu epäonnistui",
+      blocks: [
+        { p: `Voit käyttää sovellusta normaalisti ${fmtDate(d.graceUntil, "fi")} asti.` },
+        { p: "Päivitä maksutapa sovelluksen Oma tili -näkymästä (Hallinnoi laskutusta), ettei käyttö katkea." },
+        { button: "Avaa sovellus", href: d.appUrl },
+      ],
+    }),
+    en: (d) => ({
+      subject: `${BRAND} – payment failed`,
+      heading: "Your subscription payment failed",
+      blocks: [
+        { p: `You can keep using the app until ${fmtDate(d.graceUntil, "en")}.` },
+        { p: "Please update your payment method under My account → Manage billing to avoid interruption." },
+        { button: "Open the app", href: d.appUrl },
+      ],
+    }),
+  },
+  recovery: {
+    fi: (d) => ({
+      subject: `${BRAND} – kirjautumislinkki`,
+      heading: `Kirjaudu ${BRAND}-sovellukseen`,
+      blocks: [
+        { button: "Avaa sovellus", href: d.loginUrl },
+        { p: `Linkki on voimassa ${d.ttlMinutes} minuuttia ja toimii kerran.` },
+        { small: "Jos et pyytänyt linkkiä, voit jättää viestin huomiotta." },
+      ],
+    }),
+    en: (d) => ({
+      subject: `${BRAND} – sign-in link`,
+      heading: `Sign in to ${BRAND}`,
+      blocks: [
+        { button: "Open the app", href: d.loginUrl },
+        { p: `The link is valid for ${d.ttlMinutes} minutes and can be used once.` },
+        { small: "If you did not request this link, you can ignore this message." },
+      ],
+    }),
+  },
+  "expiry-reminder": {
+    fi: (d) => ({
+      subject: `${BRAND} – lisenssi päättyy ${fmtDate(d.expiresAt, "fi")}`,
+      heading: "Lisenssisi on päättymässä",
+      blocks: [
+        { p: `Tilauksesi on peruttu, ja lisenssi on voimassa ${fmtDate(d.expiresAt, "fi")} asti.` },
+        { p: "Voit jatkaa tilausta sovelluksen Oma tili -näkymästä (Hallinnoi laskutusta)." },
+        { button: "Avaa sovellus", href: d.appUrl },
+      ],
+    }),
+    en: (d) => ({
+      subject: `${BRAND} – license expires on ${fmtDate(d.expiresAt, "en")}`,
+      heading: "Your license is about to expire",
+      blocks: [
+        { p: `Your subscription has been cancelled and the license is valid until ${fmtDate(d.expiresAt, "en")}.` },
+        { p: "You can resume the subscription under My account → Manage billing." },
+        { button: "Open the app", href: d.appUrl },
+      ],
+    }),
+  },
+};
+
+function blockHtml(b: Block): string {
+  if ("p" in b) return `<p>${escapeHtml(b.p)}</p>`;
+  if ("small" in b) return `<p><small>${escapeHtml(b.small)}</small></p>`;
+  if ("button" in b) {
+    return `<p><a href="${escapeHtml(b.href)}" style="display:inline-block;padding:10px 16px;background:#000;color:#fff;border-radius:12px;text-decoration:none">${escapeHtml(b.button)}</a></p>`;
+  }
+  return `<p>${b.fields.map(([k, v]) => `<b>${escapeHtml(k)}:</b> ${escapeHtml(v)}`).join("<br/>")}</p>`;
+}
+
+function blockText(b: Block): string {
+  if ("p" in b) return b.p;
+  if ("small" in b) return b.small;
+  if ("button" in b) return `${b.button}: ${b.href}`;
+  return b.fields.map(([k, v]) => `${k}: ${v}`).join("\n");
+}
+
+export function renderEmail<T extends TemplateName>(name: T, data: TemplateData[T], locale: Locale = "fi"): RenderedEmail {
+  const c = TEMPLATES[name][locale](data);
+  const html = `<div style="font-family: Arial, sans-serif; line-height: 1.6;">
+<h2>${escapeHtml(c.heading)}</h2>
+${c.blocks.map(blockHtml).join("\n")}
+<hr/>
+<small>${escapeHtml(BRAND)}</small>
+</div>`;
+  const text = [c.heading, ...c.blocks.map(blockText), `— ${BRAND}`].join("\n\n");
+  return { subject: c.subject, html, text };
+}
@@ -0,0 +1,107 @@
+// api/_lib/email-transport.ts
+// Sähköpostin lähetystapa: tuotannossa Resend, kehityksessä konsoli tai tiedostot, testeissä muisti.
+// EMAIL_TRANSPORT = resend | console | file (EMAIL_OUTBOX_DIR); oletus resend. Ilman RESEND_API_KEY:tä
+// resend-lähetys epäonnistuu äänekkäästi, jottei viestejä merkitä lähetetyiksi huomaamatta.
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { Resend } from "resend";
+import { Logger } from "./log";
+
+export type OutgoingEmail = {
+  from: string;
+  to: string;
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+  /** Pohjan nimi lokeja ja tiedostonimiä varten. */
+  template: string;
+};
+
+export interface EmailTransport {
+  /** Palauttaa viesti-id:n; virhe heitetään. */
+  send(msg: OutgoingEmail): Promise<string | null>;
+}
+
+export function resendTransport(apiKey: string): EmailTransport {
+  const resend = new Resend(apiKey);
+  return {
+    async send(msg) {
+      const { data, error } = await resend.emails.send({
+        from: msg.from,
+        to: msg.to,
+        replyTo: msg.replyTo, // vain jos määritelty
+        subject: msg.subject,
+        html: msg.html,
+        text: msg.text,
+      });
+      // Resend palauttaa virheen myös success-statuksella
+      if (error) throw new Error(error.message || String(error));
+      return data?.id ?? null;
+    },
+  };
+}
+
+/** Kehityskäyttöön: kirjaa vain pohjan, peitetyn vastaanottajan ja otsikon. Viestin runko sisältää avaimia ja tunnuksia, joten sitä ei tulosteta. */
+export function consoleTransport(log = new Logger({ component: "email" })): EmailTransport {
+  let n = 0;
+  return {
+    async send(msg) {
+      const id = `console-${Date.now()}-${++n}`;
+      log.info("email not sent (console transport)", { id, template: msg.template, to: msg.to, subject: msg.subject });
+      return id;
+    },
+  };
+}
+
+/** Kirjoittaa jokaisen viestin hakemistoon .json-tiedostona (esikatselu ja testit). */
+export function fileTransport(dir: string): EmailTransport {
+  let n = 0;
+  return {
+    async send(msg) {
+      mkdirSync(dir, { recursive: true });
+      const id = `${Date.now()}-${++n}-${msg.template}`;
+      writeFileSync(join(dir, `${id}.json`), JSON.stringify(msg, null, 2));
+      return id;
+    },
+  };
+}
+
+export class MemoryTransport implements EmailTransport {
+  sent: OutgoingEmail[] = [];
+  /** Seuraava lähetys epäonnistuu tällä virheellä. */
+  failNext: string | null = null;
+
+  async send(msg: OutgoingEmail) {
+    if (this.failNext) {
+      const err = this.failNext;
+      this.failNext = null;
+      throw new Error(err);
+    }
+    this.sent.push(msg);
+    return `mem_${this.sent.length}`;
+  }
+}
+
+function fromEnv(): EmailTransport {
+  const kind = process.env.EMAIL_TRANSPORT || "resend";
+  if (kind === "console") return consoleTransport();
+  if (kind === "file") return fileTransport(process.env.EMAIL_OUTBOX_DIR || ".outbox");
+  if (kind !== "resend") throw new Error(`Tuntematon EMAIL_TRANSPORT: ${kind}`);
+  if (!process.env.RESEND_API_KEY) throw new Error("RESEND_API_KEY puuttuu; aseta avain tai EMAIL_TRANSPORT=console|file kehityksessä");
+  return resendTransport(process.env.RESEND_API_KEY);
+}
+
+let transport: EmailTransport | null = null;
+
+export function getTransport(): EmailTransport {
+  transport ??= fromEnv();
+  return transport;
+}
+
+/** Vaihtaa lähetystavan (testit); palauttaa edellisen. */
+export function setTransport(next: EmailTransport | null): EmailTransport | null {
+  const prev = transport;
+  transport = next;
+  return prev;
+}
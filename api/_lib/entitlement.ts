@@ -0,0 +1,87 @@
+// api/_lib/entitlement.ts
+// Allekirjoitettu käyttöoikeustunniste (JWT, EdDSA/Ed25519). Selain tarkistaa sen julkisella
+// avaimella ja toimii ilman verkkoa tunnisteen voimassaoloajan.
+import { createPrivateKey, sign, type KeyObject } from "node:crypto";
+import { activateDevice, type Device } from "./devices";
+import { isLicenseValid, type LicenseRecord } from "./licenses";
+
+export type EntitlementClaims = {
+  /** Lisenssiavain. */
+  sub: string;
+  /** Laitetunniste, jolle tunniste on annettu. */
+  dev: string;
+  plan: "single" | "team";
+  seats: number;
+  status: LicenseRecord["status"];
+  /** Lisenssin oma päättymisaika (s), null = ei vanhene. */
+  lexp: number | null;
+  iat: number;
+  exp: number;
+};
+
+/** Tunnisteen enimmäisikä; lisenssin päättyminen lyhentää sitä. */
+export const ENTITLEMENT_TTL_S = 60 * 60 * 24 * 7; // 7 vrk
+
+const b64url = (x: Buffer | string) => Buffer.from(x).toString("base64url");
+
+let cachedKey: KeyObject | null = null;
+
+/** ENTITLEMENT_PRIVATE_KEY: Ed25519-avain PKCS8 PEM -muodossa (rivinvaihdot voivat olla \n). */
+export function privateKey(): KeyObject | null {
+  const pem = process.env.ENTITLEMENT_PRIVATE_KEY;
+  if (!pem) return null;
+  cachedKey ??= createPrivateKey(pem.replace(/\\n/g, "\n"));
+  return cachedKey;
+}
+
+/** Voimassaolon loppu (ms): jakso, armonaika tai ei rajaa. */
+function validUntil(lic: LicenseRecord): number | null {
+  if (lic.status === "past_due" && lic.graceUntil !== null) return Math.max(lic.graceUntil, lic.expiresAt ?? 0);
+  return lic.expiresAt;
+}
+
+export function entitlementClaims(lic: LicenseRecord, deviceId: string, now = Date.now()): EntitlementClaims {
+  const iat = Math.floor(now / 1000);
+  const until = validUntil(lic);
+  const lexp = until === null ? null : Math.floor(until / 1000);
+  return {
+    sub: lic.key,
+    dev: deviceId,
+    plan: lic.seats > 1 ? "team" : "single",
+    seats: lic.seats,
+    status: lic.status,
+    lexp,
+    iat,
+    exp: Math.min(iat + ENTITLEMENT_TTL_S, lexp ?? Infinity),
+  };
+}
+
+export function signEntitlement(claims: EntitlementClaims, key: KeyObject): string {
+  const head = `${b64url(JSON.stringify({ alg: "EdDSA", typ: "JWT" }))}.${b64url(JSON.stringify(claims))}`;
+  return `${head}.${b64url(sign(null, Buffer.from(head), key))}`;
+}
+
+/** Tunniste lisenssille ja laitteelle; null, jos allekirjoitusavainta ei ole asetettu. */
+export function issueEntitlement(lic: LicenseRecord, deviceId: string): string | null {
+  const key = privateKey();
+  return key ? signEntitlement(entitlementClaims(lic, deviceId), key) : null;
+}
+
+export type EntitleResult =
+  | { ok: true; status: LicenseRecord["status"]; expiresAt: number | null; seats: number; devices: number; token: string | null }
+  | { ok: false; reason: string; seats?: number; devices?: Device[] };
+
+/** Lisenssin tarkistus, laitepaikan aktivointi ja tunniste (/api/verify, /api/exchange). */
+export async function entitleDevice(lic: LicenseRecord, deviceId: string, deviceName: string): Promise<EntitleResult> {
+  if (!isLicenseValid(lic)) return { ok: false, reason: lic.status };
+  const act = await activateDevice(lic, deviceId, deviceName);
+  if (!act.ok) return { ok: false, reason: "seats", seats: lic.seats, devices: act.devices };
+  return {
+    ok: true,
+    status: lic.status,
+    expiresAt: lic.expiresAt,
+    seats: lic.seats,
+    devices: act.devices.length,
+    token: issueEntitlement(lic, deviceId),
+  };
+}
@@ -0,0 +1,168 @@
+// api/_lib/guard.ts
+// Julkisten rajapintojen yhteinen kääre: CORS, metodi, tiukka syötteen tarkistus, pyyntörajat
+// IP:n ja avaimen mukaan sekä epäonnistuneiden yritysten kirjaus (/api/admin/attempts).
+//
+// Vastaukset: 403 origin, 405 method, 400 { reason } (virheellinen syöte), 429 rate-limit (+ Retry-After).
+import { createHash } from "node:crypto";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { appUrl } from "./app-url";
+import { recordAttempt } from "./attempts";
+import { logged, type Logger } from "./log";
+import { checkLimit, hitLimit, type Limit } from "./rate-limit";
+
+export type Parsed<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+export type Route<T> = {
+  /** Laskurien ja lokin nimi. */
+  name: string;
+  method: "GET" | "POST";
+  /** Sallitut kentät (GET: query, POST: JSON-body); muut hylätään. */
+  fields: readonly string[];
+  parse: (input: Record<string, unknown>) => Parsed<T>;
+  limits: { ip: Limit; subject?: Limit };
+  /** Avain, jonka mukaan subject-raja lasketaan (esim. lisenssiavain tai sähköposti). */
+  subject?: (input: T) => string;
+  /** POST-bodyn enimmäiskoko tavuina (oletus MAX_BODY_BYTES). */
+  maxBody?: number;
+};
+
+export type GuardContext<T> = {
+  input: T;
+  ip: string;
+  log: Logger;
+  /** Kirjaa epäonnistuneen yrityksen lokiin ja IP:n virhelaskuriin. */
+  fail: (reason: string, subject?: string) => Promise<void>;
+};
+
+type Handler<T> = (req: VercelRequest, res: VercelResponse, ctx: GuardContext<T>) => Promise<void>;
+
+/** Liian monta epäonnistunutta yritystä samasta IP:stä sulkee kaikki vartioidut rajapinnat ikkunan ajaksi. */
+export const FAILURE_LIMIT: Limit = { max: 20, windowS: 15 * 60 };
+export const MAX_BODY_BYTES = 4096;
+
+export const ok = <T>(value: T): Parsed<T> => ({ ok: true, value });
+export const invalid = (reason: string): Parsed<never> => ({ ok: false, reason });
+
+/** Merkkijono, jonka pituus on 1..max ja joka vastaa mallia. */
+export function isText(v: unknown, max: number, re?: RegExp): v is string {
+  return typeof v === "string" && v.length > 0 && v.length <= max && (!re || re.test(v));
+}
+
+export function clientIp(req: VercelRequest): string {
+  const fwd = req.headers["x-forwarded-for"];
+  const first = (Array.isArray(fwd) ? fwd[0] : fwd)?.split(",")[0]?.trim();
+  const real = req.headers["x-real-ip"];
+  return first || (Array.isArray(real) ? real[0] : real) || req.socket?.remoteAddress || "unknown";
+}
+
+/** Sovelluksen oma origin sekä CORS_ORIGINS (pilkuin eroteltu). */
+export function allowedOrigins(): string[] {
+  const extra = (process.env.CORS_ORIGINS || "").split(",").map((s) => s.trim()).filter(Boolean);
+  return [new URL(appUrl("/")).origin, ...extra];
+}
+
+/** Avain laskurin nimeen tiivisteenä, ettei KV:n avaimista näe lisenssejä. */
+const digest = (s: string) => createHash("sha256").update(s).digest("hex").slice(0, 32);
+
+async function readBody(req: VercelRequest, max: number): Promise<unknown> {
+  if (req.body !== undefined && req.body !== null && req.body !== "") {
+    if (typeof req.body !== "string") return req.body;
+    if (req.body.length > max) return null;
+    return JSON.parse(req.body);
+  }
+  // Runtime ei jäsentänyt bodya (esim. puuttuva Content-Type)
+  let raw = "";
+  await new Promise<void>((resolve) => {
+    req.on("data", (c) => (raw += c));
+    req.on("end", () => resolve());
+  });
+  if (raw.length > max) return null;
+  return JSON.parse(raw || "{}");
+}
+
+async function readInput(req: VercelRequest, method: "GET" | "POST", max: number): Promise<Record<string, unknown> | null> {
+  const data = method === "GET" ? { ...req.query } : await readBody(req, max).catch(() => null);
+  if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+  if (method === "POST" && JSON.stringify(data).length > max) return null;
+  return data as Record<string, unknown>;
+}
+
+function tooMany(res: VercelResponse, retryAfter: number, log: Logger, ip: string) {
+  log.warn("rate-limit", { ip, retryAfter });
+  res.setHeader("Retry-After", String(retryAfter));
+  res.status(429).json({ ok: false, reason: "rate-limit", retryAfter });
+}
+
+export function guarded<T>(route: Route<T>, handler: Handler<T>) {
+  return logged(route.name, async (req: VercelRequest, res: VercelResponse, log: Logger) => {
+    const ip = clientIp(req);
+    const fail = async (reason: string, subject?: string) => {
+      log.warn("attempt.failed", { ip, reason });
+      await recordAttempt({ route: route.name, ip, reason, subject });
+      await hitLimit("fail", ip, FAILURE_LIMIT);
+    };
+
+    // CORS: selain lähettää Originin; palvelinkutsut ilman sitä rajoitetaan vain laskureilla
+    const origin = req.headers.origin;
+    if (origin) {
+      if (!allowedOrigins().includes(origin)) {
+        log.warn("cors.rejected", { ip, origin });
+        await recordAttempt({ route: route.name, ip, reason: "origin", subject: null });
+        res.status(403).json({ ok: false, reason: "origin" });
+        return;
+      }
+      res.setHeader("Access-Control-Allow-Origin", origin);
+      res.setHeader("Vary", "Origin");
+    }
+    if (req.method === "OPTIONS") {
+      res.setHeader("Access-Control-Allow-Methods", `${route.method}, OPTIONS`);
+      res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+      res.setHeader("Access-Control-Max-Age", "600");
+      res.status(204).end();
+      return;
+    }
+    if (req.method !== route.method) {
+      res.setHeader("Allow", route.method);
+      res.status(405).json({ ok: false, reason: "method" });
+      return;
+    }
+
+    const failures = await checkLimit("fail", ip, FAILURE_LIMIT);
+    if (!failures.ok) return tooMany(res, failures.retryAfter, log, ip);
+    const perIp = await hitLimit(route.name, ip, route.limits.ip);
+    if (!perIp.ok) {
+      if (perIp.count === route.limits.ip.max + 1) await recordAttempt({ route: route.name, ip, reason: "rate-limit", subject: null });
+      return tooMany(res, perIp.retryAfter, log, ip);
+    }
+
+    const data = await readInput(req, route.method, route.maxBody ?? MAX_BODY_BYTES);
+    if (!data) {
+      await fail("body");
+      res.status(400).json({ ok: false, reason: "body" });
+      return;
+    }
+    const unknown = Object.keys(data).filter((k) => !route.fields.includes(k));
+    if (unknown.length) {
+      await fail("field");
+      res.status(400).json({ ok: false, reason: "field", fields: unknown });
+      return;
+    }
+    const parsed = route.parse(data);
+    if (!parsed.ok) {
+      await fail(parsed.reason);
+      res.status(400).json({ ok: false, reason: parsed.reason });
+      return;
+    }
+
+    if (route.limits.subject && route.subject) {
+      const subject = route.subject(parsed.value);
+      const perSubject = await hitLimit(`${route.name}:key`, digest(subject), route.limits.subject);
+      if (!perSubject.ok) {
+        if (perSubject.count === route.limits.subject.max + 1) await recordAttempt({ route: route.name, ip, reason: "rate-limit", subject });
+        return tooMany(res, perSubject.retryAfter, log, ip);
+      }
+    }
+
+    await handler(req, res, { input: parsed.value, ip, log, fail });
+  });
+}
@@ -0,0 +1,42 @@
+// api/_lib/history.ts
+// Lisenssikohtainen historia ylläpitoa varten:
+//
+//   license-events:<KEY>  → lista evt_id       (lisenssiin osuneet Stripe-tapahtumat, uusin ensin)
+//   license-audit:<KEY>   → lista AdminAction  (ylläpidon toimenpiteet, uusin ensin)
+//
+// Kirjaus on lpush + ltrim: rinnakkaiset tapahtumat eivät kirjoita toistensa rivejä yli.
+// Tapahtumien sisältö luetaan kirjanpidosta (ledger), joka säilyy 90 vrk.
+import { getKv } from "./kv";
+
+export type AdminActionKind = "issue" | "extend" | "revoke" | "resend-receipt";
+
+export type AdminAction = { at: number; action: AdminActionKind; detail: string | null };
+
+/** Listojen enimmäispituus; vanhimmat pudotetaan pois. */
+export const HISTORY_LIMIT = 200;
+
+const eventsKey = (key: string) => `license-events:${key}`;
+const auditKey = (key: string) => `license-audit:${key}`;
+
+async function push(listKey: string, item: unknown): Promise<void> {
+  const kv = getKv();
+  await kv.lpush(listKey, item);
+  await kv.ltrim(listKey, 0, HISTORY_LIMIT - 1);
+}
+
+export async function listLicenseEvents(key: string): Promise<string[]> {
+  return getKv().lrange<string>(eventsKey(key), 0, HISTORY_LIMIT - 1);
+}
+
+/** Kirjanpito ajaa lisenssivaiheen kerran tapahtumaa kohden, joten sama id ei kirjaudu kahdesti. */
+export async function recordLicenseEvent(key: string, eventId: string): Promise<void> {
+  await push(eventsKey(key), eventId);
+}
+
+export async function listAdminActions(key: string): Promise<AdminAction[]> {
+  return getKv().lrange<AdminAction>(auditKey(key), 0, HISTORY_LIMIT - 1);
+}
+
+export async function recordAdminAction(key: string, action: AdminActionKind, detail: string | null = null): Promise<void> {
+  await push(auditKey(key), { at: Date.now(), action, detail });
+}
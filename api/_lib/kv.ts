@@ -0,0 +1,37 @@
+// api/_lib/kv.ts
+// Ohut KV-rajapinta: tuotannossa Vercel KV, testeissä muistinvarainen korvike (setKv).
+import { kv } from "@vercel/kv";
+
+export type SetOptions = { ex?: number; nx?: boolean };
+
+export interface KvStore {
+  get<T>(key: string): Promise<T | null>;
+  /** Lukee ja poistaa avaimen yhdellä atomisella komennolla (kertakäyttöiset tunnukset). */
+  getdel<T>(key: string): Promise<T | null>;
+  set(key: string, value: unknown, opts?: SetOptions): Promise<unknown>;
+  del(...keys: string[]): Promise<number>;
+  /** Kasvattaa laskuria yhdellä ja palauttaa uuden arvon (puuttuva = 0). */
+  incr(key: string): Promise<number>;
+  expire(key: string, seconds: number): Promise<number>;
+  /** Joukon jäsenet; lisäys ei lue eikä kirjoita koko joukkoa uudelleen. */
+  sadd(key: string, member: string, ...members: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
+  srem(key: string, member: string, ...members: string[]): Promise<number>;
+  /** Rajattu lista: lisäys alkuun ja katkaisu ilman koko listan lukemista. */
+  lpush(key: string, ...elements: unknown[]): Promise<number>;
+  ltrim(key: string, start: number, stop: number): Promise<unknown>;
+  lrange<T>(key: string, start: number, stop: number): Promise<T[]>;
+}
+
+let store: KvStore = kv;
+
+export function getKv(): KvStore {
+  return store;
+}
+
+/** Vaihtaa KV-toteutuksen (testit); palauttaa edellisen. */
+export function setKv(next: KvStore): KvStore {
+  const prev = store;
+  store = next;
+  return prev;
+}
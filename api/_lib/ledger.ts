@@ -0,0 +1,86 @@
+// api/_lib/ledger.ts
+// Käsiteltyjen Stripe-tapahtumien kirjanpito event.id:n mukaan:
+//
+//   stripe-event:<evt_id>       → LedgerEntry (tila, vaiheet, virhe ja tapahtuma uudelleenajoa varten)
+//   stripe-event-lock:<evt_id>  → 1 (käsittely kesken, lyhyt TTL)
+//   stripe-events:failed        → joukko evt_id (epäonnistuneet, /api/stripe-replay)
+import type Stripe from "stripe";
+import { getKv } from "./kv";
+import type { EventAction, Notice } from "./stripe-events";
+
+export type LedgerStatus = "processing" | "done" | "failed";
+
+export type LedgerEntry = {
+  id: string;
+  type: string;
+  status: LedgerStatus;
+  attempts: number;
+  receivedAt: number;
+  updatedAt: number;
+  /** Lisenssivaiheen tulos; null = vaihe tekemättä. */
+  action: EventAction | null;
+  license: string | null;
+  /** Lähetettävä asiakasviesti ja lähetetyn viestin id. */
+  notice: Notice | null;
+  mailId: string | null;
+  error: string | null;
+  event: Stripe.Event;
+};
+
+export const LEDGER_TTL_S = 60 * 60 * 24 * 90; // 90 vrk
+export const LOCK_TTL_S = 60;
+
+const entryKey = (id: string) => `stripe-event:${id}`;
+const lockKey = (id: string) => `stripe-event-lock:${id}`;
+const FAILED_KEY = "stripe-events:failed";
+
+export function newLedgerEntry(event: Stripe.Event): LedgerEntry {
+  const now = Date.now();
+  return {
+    id: event.id,
+    type: event.type,
+    status: "processing",
+    attempts: 0,
+    receivedAt: now,
+    updatedAt: now,
+    action: null,
+    license: null,
+    notice: null,
+    mailId: null,
+    error: null,
+    event,
+  };
+}
+
+/** Kirjanpitorivi ilman tapahtuman sisältöä ja kirjautumistunnusta (ylläpidon näkymät). */
+export function ledgerSummary(entry: LedgerEntry) {
+  const { event, notice, ...rest } = entry;
+  return { ...rest, email: notice?.email ?? null, template: notice?.template ?? null };
+}
+
+export async function getLedgerEntry(id: string): Promise<LedgerEntry | null> {
+  return getKv().get<LedgerEntry>(entryKey(id));
+}
+
+export async function saveLedgerEntry(entry: LedgerEntry): Promise<LedgerEntry> {
+  const next = { ...entry, updatedAt: Date.now() };
+  await getKv().set(entryKey(next.id), next, { ex: LEDGER_TTL_S });
+
+  // Joukko: rinnakkaiset toimitukset eivät kirjoita toistensa muutoksia yli
+  if (next.status === "failed") await getKv().sadd(FAILED_KEY, next.id);
+  else await getKv().srem(FAILED_KEY, next.id);
+  return next;
+}
+
+export async function listFailedEventIds(): Promise<string[]> {
+  return getKv().smembers(FAILED_KEY);
+}
+
+/** Estää saman tapahtuman rinnakkaisen käsittelyn (Stripe voi toimittaa saman eventin kahdesti yhtä aikaa). */
+export async function acquireEventLock(id: string): Promise<boolean> {
+  return (await getKv().set(lockKey(id), 1, { nx: true, ex: LOCK_TTL_S })) !== null;
+}
+
+export async function releaseEventLock(id: string): Promise<void> {
+  await getKv().del(lockKey(id));
+}
@@ -0,0 +1,167 @@
+// api/_lib/licenses.ts
+// Lisenssivarasto: yksi tietue avaimen mukaan ja hakemistot sähköpostin, Stripe-asiakkaan,
+// tilauksen ja checkout-session mukaan.
+//
+//   license:<KEY>            → LicenseRecord
+//   license-email:<email>    → KEY
+//   license-customer:<cus>   → KEY
+//   license-sub:<sub_id>     → KEY
+//   license-session:<cs_id>  → { license, token }   (kertakäyttöinen, /api/claim)
+//   token:<TOKEN>            → { license }           (kertakäyttöinen, /api/exchange)
+//   licenses:keys            → set<KEY>              (kaikki avaimet, ylläpito)
+import { v4 as uuid } from "uuid";
+import type { Locale } from "./email-templates";
+import { getKv } from "./kv";
+
+export type LicenseStatus = "active" | "past_due" | "canceled" | "revoked";
+
+export type LicenseRecord = {
+  key: string;
+  email: string;
+  customerId: string | null;
+  subscriptionId: string | null;
+  status: LicenseStatus;
+  /** Voimassaolon loppu (ms), null = ei vanhene. */
+  expiresAt: number | null;
+  /** Maksu epäonnistui: käyttö sallittu tähän asti (ms), vaikka jakso olisi päättynyt. */
+  graceUntil: number | null;
+  /** Peruutuksen syy (esim. "refund", "dispute"), kun status on revoked. */
+  revokedReason: string | null;
+  seats: number;
+  /** Asiakasviestien kieli. */
+  locale: Locale;
+  createdAt: number;
+  updatedAt: number;
+};
+
+export const LOGIN_TOKEN_TTL_S = 60 * 60 * 24; // 24 h
+export const MAGIC_LINK_TTL_S = 60 * 30; // 30 min
+export const SESSION_CLAIM_TTL_S = 60 * 60 * 24 * 7; // 7 vrk
+
+const licenseKey = (key: string) => `license:${key}`;
+const emailKey = (email: string) => `license-email:${normalizeEmail(email)}`;
+const customerKey = (customerId: string) => `license-customer:${customerId}`;
+const subscriptionKey = (subscriptionId: string) => `license-sub:${subscriptionId}`;
+const sessionKey = (sessionId: string) => `license-session:${sessionId}`;
+const tokenKey = (token: string) => `token:${token}`;
+const KEYS_SET = "licenses:keys";
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+export function normalizeLicenseKey(key: string): string {
+  return key.trim().toUpperCase();
+}
+
+/** Avaimen muoto julkisten rajapintojen syötteessä (uuid, kirjainkoko vapaa). */
+export function isLicenseKey(v: unknown): v is string {
+  return typeof v === "string" && /^\s*[A-Za-z0-9-]{1,64}\s*$/.test(v);
+}
+
+/** Kirjautumistunnuksen muoto (issueLoginToken). */
+export function isLoginToken(v: unknown): v is string {
+  return typeof v === "string" && /^[A-Za-z0-9]{16,64}$/.test(v);
+}
+
+export function newLicenseKey(): string {
+  return uuid().toUpperCase();
+}
+
+/**
+ * Voimassa: aktiivinen eikä päättymisaika ole ohitettu, tai maksu myöhässä ja armonaika kesken.
+ * Peruttu (canceled) lisenssi on voimassa maksetun jakson loppuun.
+ */
+export function isLicenseValid(rec: LicenseRecord, now = Date.now()): boolean {
+  const inPeriod = rec.expiresAt === null || rec.expiresAt > now;
+  switch (rec.status) {
+    case "active":
+    case "canceled":
+      return inPeriod;
+    case "past_due":
+      return inPeriod || (rec.graceUntil !== null && rec.graceUntil > now);
+    default:
+      return false;
+  }
+}
+
+const RECORD_DEFAULTS = { graceUntil: null, revokedReason: null, seats: 1, locale: "fi" as Locale };
+
+export async function getLicense(key: string): Promise<LicenseRecord | null> {
+  if (!key) return null;
+  const rec = await getKv().get<LicenseRecord>(licenseKey(normalizeLicenseKey(key)));
+  return rec ? { ...RECORD_DEFAULTS, ...rec } : null;
+}
+
+export async function findLicenseByEmail(email: string): Promise<LicenseRecord | null> {
+  const key = await getKv().get<string>(emailKey(email));
+  return key ? getLicense(key) : null;
+}
+
+export async function findLicenseByCustomer(customerId: string): Promise<LicenseRecord | null> {
+  const key = await getKv().get<string>(customerKey(customerId));
+  return key ? getLicense(key) : null;
+}
+
+export async function findLicenseBySubscription(subscriptionId: string): Promise<LicenseRecord | null> {
+  const key = await getKv().get<string>(subscriptionKey(subscriptionId));
+  return key ? getLicense(key) : null;
+}
+
+export async function saveLicense(rec: LicenseRecord): Promise<LicenseRecord> {
+  const next = { ...rec, email: normalizeEmail(rec.email), updatedAt: Date.now() };
+  await getKv().set(licenseKey(next.key), next);
+  await getKv().set(emailKey(next.email), next.key);
+  if (next.customerId) await getKv().set(customerKey(next.customerId), next.key);
+  if (next.subscriptionId) await getKv().set(subscriptionKey(next.subscriptionId), next.key);
+  // Joukkoon lisäys on atominen, joten rinnakkaiset tilaukset eivät kadota toistensa avaimia
+  await getKv().sadd(KEYS_SET, next.key);
+  return next;
+}
+
+/** Kaikki avaimet (järjestys vapaa; kutsujat lajittelevat createdAt-kentän mukaan). */
+export async function listLicenseKeys(): Promise<string[]> {
+  return getKv().smembers(KEYS_SET);
+}
+
+export type NewLicense = Partial<Omit<LicenseRecord, "key" | "createdAt" | "updatedAt">> & { email: string };
+
+export async function createLicense(input: NewLicense): Promise<LicenseRecord> {
+  const now = Date.now();
+  return saveLicense({
+    key: newLicenseKey(),
+    customerId: null,
+    subscriptionId: null,
+    status: "active",
+    expiresAt: null,
+    graceUntil: null,
+    revokedReason: null,
+    seats: 1,
+    locale: "fi",
+    ...input,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/* --------------------------  KERTAKÄYTTÖTUNNUKSET  ----------------------- */
+/** Kirjautumistunnus, jolla selain vaihtaa lisenssiavaimen itselleen (/api/exchange). */
+export async function issueLoginToken(license: string, ttl = LOGIN_TOKEN_TTL_S): Promise<string> {
+  const token = uuid().replace(/-/g, "").toUpperCase();
+  await getKv().set(tokenKey(token), { license, createdAt: Date.now() }, { ex: ttl });
+  return token;
+}
+
+export async function consumeLoginToken(token: string): Promise<string | null> {
+  const data = await getKv().getdel<{ license: string }>(tokenKey(token));
+  return data ? data.license : null;
+}
+
+/** Checkout-session → lisenssi ja kirjautumistunnus kiitossivua varten (/api/claim). */
+export async function linkCheckoutSession(sessionId: string, license: string, token: string): Promise<void> {
+  await getKv().set(sessionKey(sessionId), { license, token }, { ex: SESSION_CLAIM_TTL_S });
+}
+
+export async function consumeCheckoutSession(sessionId: string): Promise<{ license: string; token: string } | null> {
+  return getKv().getdel<{ license: string; token: string }>(sessionKey(sessionId));
+}
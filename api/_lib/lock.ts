@@ -0,0 +1,25 @@
+// api/_lib/lock.ts
+// Lyhyt poissulkeva lukko luku–muutos–kirjoitus-jaksoille, jotka eivät mahdu yhteen KV-komentoon:
+//
+//   lock:<nimi>  → 1 (SET NX, TTL LOCK_TTL_S; kaatunut pyyntö ei jätä lukkoa pysyväksi)
+import { getKv } from "./kv";
+
+export const LOCK_TTL_S = 10;
+const RETRY_MS = 25;
+const MAX_TRIES = 80;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+/** Ajaa `fn`:n lukon sisällä; odottaa varattua lukkoa noin kaksi sekuntia ja heittää sitten virheen. */
+export async function withLock<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  const key = `lock:${name}`;
+  for (let i = 0; (await getKv().set(key, 1, { nx: true, ex: LOCK_TTL_S })) === null; i++) {
+    if (i >= MAX_TRIES) throw new Error(`Lukko varattu: ${name}`);
+    await sleep(RETRY_MS);
+  }
+  try {
+    return await fn();
+  } finally {
+    await getKv().del(key);
+  }
+}
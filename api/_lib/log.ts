@@ -0,0 +1,111 @@
+// api/_lib/log.ts
+// Rakenteinen loki: yksi JSON-rivi per tapahtuma, pyyntötunniste mukana ja arkaluonteiset kentät
+// (sähköpostit, avaimet, tunnukset) peitettyinä. LOG_LEVEL = debug | info | warn | error | silent.
+import { randomUUID } from "node:crypto";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+export type LogLine = { ts: string; level: LogLevel; msg: string } & LogFields;
+export type LogSink = (line: LogLine) => void;
+
+const LEVELS: Record<LogLevel | "silent", number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+/** Kenttien nimet, joiden arvo peitetään kokonaan tai osittain. */
+const SECRET_FIELD = /token|secret|password|authorization|signature|cookie|^key$|licen[cs]e$/i;
+const EMAIL_FIELD = /e-?mail|^to$/i;
+const EMAIL_IN_TEXT = /([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9.-]+\.[A-Za-z]{2,})/g;
+
+export function maskEmail(s: string): string {
+  return s.replace(EMAIL_IN_TEXT, "$1***@$2");
+}
+
+const maskSecret = (v: unknown) => (typeof v === "string" && v.length > 8 ? `${v.slice(0, 4)}…` : "…");
+
+/** Kopio arvosta, jossa arkaluonteiset kentät on peitetty ja tekstin sähköpostiosoitteet lyhennetty. */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return maskEmail(value);
+  if (value instanceof Error) return { name: value.name, message: maskEmail(value.message) };
+  if (value === null || typeof value !== "object" || depth > 5) return value;
+  if (Array.isArray(value)) return value.map((v) => redact(v, depth + 1));
+  const out: LogFields = {};
+  for (const [k, v] of Object.entries(value)) {
+    if (v !== null && v !== undefined && SECRET_FIELD.test(k)) out[k] = maskSecret(v);
+    else if (typeof v === "string" && EMAIL_FIELD.test(k)) out[k] = maskEmail(v);
+    else out[k] = redact(v, depth + 1);
+  }
+  return out;
+}
+
+const consoleSink: LogSink = (line) => {
+  const text = JSON.stringify(line);
+  if (line.level === "error" || line.level === "warn") console.error(text);
+  else console.log(text);
+};
+
+let sink: LogSink = consoleSink;
+
+/** Vaihtaa lokin kohteen (testit); palauttaa edellisen. */
+export function setLogSink(next: LogSink | null): LogSink {
+  const prev = sink;
+  sink = next ?? consoleSink;
+  return prev;
+}
+
+export class Logger {
+  constructor(private readonly bindings: LogFields = {}) {}
+
+  child(fields: LogFields): Logger {
+    return new Logger({ ...this.bindings, ...fields });
+  }
+
+  private write(level: LogLevel, msg: string, fields: LogFields) {
+    const min = LEVELS[(process.env.LOG_LEVEL as LogLevel) || "info"] ?? LEVELS.info;
+    if (LEVELS[level] < min) return;
+    sink({ ts: new Date().toISOString(), level, msg, ...(redact({ ...this.bindings, ...fields }) as LogFields) });
+  }
+
+  debug(msg: string, fields: LogFields = {}) {
+    this.write("debug", msg, fields);
+  }
+  info(msg: string, fields: LogFields = {}) {
+    this.write("info", msg, fields);
+  }
+  warn(msg: string, fields: LogFields = {}) {
+    this.write("warn", msg, fields);
+  }
+  error(msg: string, fields: LogFields = {}) {
+    this.write("error", msg, fields);
+  }
+}
+
+export const log = new Logger();
+
+/** Vercelin pyyntötunniste, jos saatavilla; muuten uusi. */
+export function requestId(req: VercelRequest): string {
+  const h = req.headers["x-vercel-id"] ?? req.headers["x-request-id"];
+  const id = Array.isArray(h) ? h[0] : h;
+  return id && id.length <= 128 ? id : randomUUID();
+}
+
+type LoggedHandler = (req: VercelRequest, res: VercelResponse, log: Logger) => Promise<unknown>;
+
+/**
+ * Kaikkien reittien kääre: pyyntötunniste vastaukseen (x-request-id) ja lokiin, yksi rivi per pyyntö
+ * sekä odottamaton virhe → 500 ilman sisäisiä yksityiskohtia.
+ */
+export function logged(route: string, handler: LoggedHandler) {
+  return async (req: VercelRequest, res: VercelResponse) => {
+    const id = requestId(req);
+    const reqLog = log.child({ requestId: id, route });
+    const started = Date.now();
+    res.setHeader("x-request-id", id);
+    try {
+      await handler(req, res, reqLog);
+      reqLog.info("request", { method: req.method, status: res.statusCode, ms: Date.now() - started });
+    } catch (e) {
+      reqLog.error("request.failed", { method: req.method, ms: Date.now() - started, error: e, stack: e instanceof Error ? e.stack : undefined });
+      if (!res.headersSent) res.status(500).json({ ok: false, reason: "internal", requestId: id });
+    }
+  };
+}
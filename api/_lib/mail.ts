@@ -0,0 +1,39 @@
+// api/_lib/mail.ts
+// Asiakasviestien lähetys: pohja (email-templates) + lähetystapa (email-transport).
+import { renderEmail, type Locale, type TemplateData, type TemplateName } from "./email-templates";
+import { getTransport } from "./email-transport";
+import type { Notice } from "./stripe-events";
+
+/** Palauttaa viesti-id:n. Virhe (myös puuttuva lähetystapa) hylkää lupauksen, jotta se kirjautuu lokiin. */
+export async function sendEmail<T extends TemplateName>(to: string, template: T, data: TemplateData[T], locale: Locale = "fi") {
+  const { subject, html, text } = renderEmail(template, data, locale);
+  return getTransport().send({
+    from: process.env.EMAIL_FROM!, // esim. 'Tuntihintasi <no-reply@tuntihintasi.fi>'
+    replyTo: process.env.EMAIL_REPLY_TO || undefined,
+    to,
+    subject,
+    html,
+    text,
+    template,
+  });
+}
+
+/** Haara pohjaa kohden: `template` rajaa `data`-kentän tyypin, joten pohja ja sisältö tarkistetaan käännösaikana. */
+export function sendNotice(n: Notice): Promise<string | null> {
+  switch (n.template) {
+    case "receipt":
+      return sendEmail(n.email, n.template, n.data, n.locale);
+    case "renewal":
+      return sendEmail(n.email, n.template, n.data, n.locale);
+    case "payment-failed":
+      return sendEmail(n.email, n.template, n.data, n.locale);
+    case "recovery":
+      return sendEmail(n.email, n.template, n.data, n.locale);
+    case "expiry-reminder":
+      return sendEmail(n.email, n.template, n.data, n.locale);
+    default: {
+      const unknown: never = n;
+      throw new Error(`Tuntematon viestipohja: ${(unknown as Notice).template}`);
+    }
+  }
+}
@@ -0,0 +1,112 @@
+// api/_lib/memory-kv.ts
+// Muistinvarainen KV testeihin ja paikalliseen kehitykseen. Arvot kopioidaan kuten
+// Vercel KV:ssä (JSON-sarjallistus), vanhenemisaika seuraa kelloa (now).
+import type { KvStore, SetOptions } from "./kv";
+
+type Entry = { value: string; expiresAt: number | null };
+
+export class MemoryKv implements KvStore {
+  private data = new Map<string, Entry>();
+
+  constructor(private now: () => number = Date.now) {}
+
+  private entry(key: string): Entry | null {
+    const e = this.data.get(key);
+    if (!e) return null;
+    if (e.expiresAt !== null && e.expiresAt <= this.now()) {
+      this.data.delete(key);
+      return null;
+    }
+    return e;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    const e = this.entry(key);
+    return e ? (JSON.parse(e.value) as T) : null;
+  }
+
+  async getdel<T>(key: string): Promise<T | null> {
+    const e = this.entry(key);
+    if (!e) return null;
+    this.data.delete(key);
+    return JSON.parse(e.value) as T;
+  }
+
+  async set(key: string, value: unknown, opts: SetOptions = {}): Promise<"OK" | null> {
+    if (opts.nx && this.entry(key)) return null;
+    this.data.set(key, { value: JSON.stringify(value), expiresAt: opts.ex ? this.now() + opts.ex * 1000 : null });
+    return "OK";
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    let n = 0;
+    for (const k of keys) if (this.entry(k) && this.data.delete(k)) n++;
+    return n;
+  }
+
+  async incr(key: string): Promise<number> {
+    const e = this.entry(key);
+    const next = (e ? Number(JSON.parse(e.value)) : 0) + 1;
+    this.data.set(key, { value: JSON.stringify(next), expiresAt: e?.expiresAt ?? null });
+    return next;
+  }
+
+  async expire(key: string, seconds: number): Promise<number> {
+    const e = this.entry(key);
+    if (!e) return 0;
+    e.expiresAt = this.now() + seconds * 1000;
+    return 1;
+  }
+
+  async sadd(key: string, ...members: string[]): Promise<number> {
+    const e = this.entry(key);
+    const cur: string[] = e ? JSON.parse(e.value) : [];
+    const added = [...new Set(members)].filter((m) => !cur.includes(m));
+    this.data.set(key, { value: JSON.stringify([...cur, ...added]), expiresAt: e?.expiresAt ?? null });
+    return added.length;
+  }
+
+  async srem(key: string, ...members: string[]): Promise<number> {
+    const e = this.entry(key);
+    if (!e) return 0;
+    const cur: string[] = JSON.parse(e.value);
+    e.value = JSON.stringify(cur.filter((m) => !members.includes(m)));
+    return cur.filter((m) => members.includes(m)).length;
+  }
+
+  async smembers(key: string): Promise<string[]> {
+    const e = this.entry(key);
+    return e ? (JSON.parse(e.value) as string[]) : [];
+  }
+
+  async lpush(key: string, ...elements: unknown[]): Promise<number> {
+    const e = this.entry(key);
+    const next = [...elements.reverse(), ...(e ? (JSON.parse(e.value) as unknown[]) : [])];
+    this.data.set(key, { value: JSON.stringify(next), expiresAt: e?.expiresAt ?? null });
+    return next.length;
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<"OK"> {
+    const e = this.entry(key);
+    if (e) e.value = JSON.stringify(await this.lrange(key, start, stop));
+    return "OK";
+  }
+
+  async lrange<T>(key: string, start: number, stop: number): Promise<T[]> {
+    const e = this.entry(key);
+    const list: T[] = e ? JSON.parse(e.value) : [];
+    const at = (i: number) => (i < 0 ? list.length + i : i);
+    return list.slice(Math.max(0, at(start)), at(stop) + 1);
+  }
+
+  /** Testien apu: kaikki voimassa olevat avaimet. */
+  keys(prefix = ""): string[] {
+    return [...this.data.keys()].filter((k) => k.startsWith(prefix) && this.entry(k));
+  }
+
+  /** Testien apu: vanhenemisaika sekunteina tai null. */
+  ttl(key: string): number | null {
+    const e = this.entry(key);
+    return e && e.expiresAt !== null ? Math.round((e.expiresAt - this.now()) / 1000) : null;
+  }
+}
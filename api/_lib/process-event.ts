@@ -0,0 +1,75 @@
+// api/_lib/process-event.ts
+// Stripe-tapahtuman idempotentti käsittely: lisenssivaihe ja asiakasviesti ajetaan kumpikin korkeintaan
+// kerran onnistuneesti. Uudelleentoimitus tai -ajo jatkaa siitä vaiheesta, johon edellinen jäi.
+import type Stripe from "stripe";
+import { recordLicenseEvent } from "./history";
+import {
+  acquireEventLock,
+  getLedgerEntry,
+  newLedgerEntry,
+  releaseEventLock,
+  saveLedgerEntry,
+  type LedgerEntry,
+} from "./ledger";
+import { applyStripeEvent, type Notice, type StripeLookup } from "./stripe-events";
+
+export type ProcessDeps = {
+  lookup: StripeLookup;
+  sendNotice: (notice: Notice) => Promise<string | null>;
+};
+
+export type ProcessResult =
+  | { kind: "done" | "failed"; entry: LedgerEntry }
+  /** Käsitelty jo aiemmin; ei tehty mitään. */
+  | { kind: "duplicate"; entry: LedgerEntry }
+  /** Toinen pyyntö käsittelee samaa tapahtumaa juuri nyt. */
+  | { kind: "busy"; entry: LedgerEntry | null };
+
+const message = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+export async function processStripeEvent(event: Stripe.Event, deps: ProcessDeps): Promise<ProcessResult> {
+  const prev = await getLedgerEntry(event.id);
+  if (prev?.status === "done") return { kind: "duplicate", entry: prev };
+  if (!(await acquireEventLock(event.id))) return { kind: "busy", entry: prev };
+
+  try {
+    let entry = await saveLedgerEntry({
+      ...(prev ?? newLedgerEntry(event)),
+      status: "processing",
+      attempts: (prev?.attempts ?? 0) + 1,
+      error: null,
+    });
+
+    // 1) Lisenssi
+    if (entry.action === null) {
+      try {
+        const outcome = await applyStripeEvent(event, deps.lookup);
+        entry = await saveLedgerEntry({
+          ...entry,
+          action: outcome.action,
+          license: outcome.license?.key ?? null,
+          notice: outcome.notice ?? null,
+        });
+        if (entry.license) await recordLicenseEvent(entry.license, event.id);
+      } catch (e) {
+        entry = await saveLedgerEntry({ ...entry, status: "failed", error: `license: ${message(e)}` });
+        return { kind: "failed", entry };
+      }
+    }
+
+    // 2) Asiakasviesti
+    if (entry.notice && entry.mailId === null) {
+      try {
+        entry.mailId = (await deps.sendNotice(entry.notice)) ?? "sent";
+      } catch (e) {
+        entry = await saveLedgerEntry({ ...entry, status: "failed", error: `email: ${message(e)}` });
+        return { kind: "failed", entry };
+      }
+    }
+
+    entry = await saveLedgerEntry({ ...entry, status: "done" });
+    return { kind: "done", entry };
+  } finally {
+    await releaseEventLock(event.id);
+  }
+}
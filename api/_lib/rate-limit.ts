@@ -0,0 +1,35 @@
+// api/_lib/rate-limit.ts
+// Kiinteän ikkunan laskurit KV:ssä:
+//
+//   ratelimit:<bucket>:<id>:<ikkuna>  → pyyntöjen määrä ikkunassa (TTL = ikkunan pituus)
+//
+// Tunniste (IP tai tiiviste lisenssiavaimesta) muodostetaan kutsujan puolella.
+import { getKv } from "./kv";
+
+export type Limit = { max: number; windowS: number };
+
+export type LimitResult = { ok: boolean; count: number; retryAfter: number };
+
+function windowOf(limit: Limit, now: number) {
+  const ms = limit.windowS * 1000;
+  const start = Math.floor(now / ms) * ms;
+  return { start, retryAfter: Math.max(1, Math.ceil((start + ms - now) / 1000)) };
+}
+
+const counterKey = (bucket: string, id: string, start: number) => `ratelimit:${bucket}:${id}:${start}`;
+
+/** Kirjaa yhden pyynnön; ok = false, kun raja ylittyy. */
+export async function hitLimit(bucket: string, id: string, limit: Limit, now = Date.now()): Promise<LimitResult> {
+  const { start, retryAfter } = windowOf(limit, now);
+  const key = counterKey(bucket, id, start);
+  const count = await getKv().incr(key);
+  if (count === 1) await getKv().expire(key, limit.windowS);
+  return { ok: count <= limit.max, count, retryAfter };
+}
+
+/** Tarkistaa rajan kirjaamatta pyyntöä. */
+export async function checkLimit(bucket: string, id: string, limit: Limit, now = Date.now()): Promise<LimitResult> {
+  const { start, retryAfter } = windowOf(limit, now);
+  const count = (await getKv().get<number>(counterKey(bucket, id, start))) ?? 0;
+  return { ok: count < limit.max, count, retryAfter };
+}
@@ -0,0 +1,304 @@
+// api/_lib/stripe-events.ts
+// Stripe-tapahtumat → lisenssin elinkaari. Ei kutsu Stripe-API:a suoraan: tarvittavat haut
+// annetaan StripeLookup-oliona, joten käsittely on testattavissa pelkillä fixture-tapahtumilla.
+import type Stripe from "stripe";
+import { appUrl } from "./app-url";
+import type { Locale, TemplateData, TemplateName } from "./email-templates";
+import {
+  createLicense,
+  findLicenseByCustomer,
+  findLicenseByEmail,
+  findLicenseBySubscription,
+  issueLoginToken,
+  linkCheckoutSession,
+  saveLicense,
+  type LicenseRecord,
+} from "./licenses";
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+/** Ensimmäinen jakso, kunnes laskun jaksotieto tarkentaa sen. */
+export const INITIAL_PERIOD_MS = 30 * DAY_MS;
+/** Uusiutumislasku maksetaan vasta jakson vaihduttua; lisenssi ei katkea sillä välin. */
+export const RENEWAL_SLACK_MS = 3 * DAY_MS;
+/** Epäonnistuneen maksun jälkeen käyttö jatkuu tämän ajan. */
+export const GRACE_PERIOD_MS = 7 * DAY_MS;
+
+export type StripeLookup = {
+  customerEmail(customerId: string): Promise<string | null>;
+  chargeCustomer(chargeId: string): Promise<string | null>;
+};
+
+export type EventAction =
+  | "created"
+  | "activated"
+  | "renewed"
+  | "synced"
+  | "grace"
+  | "canceled"
+  | "revoked"
+  | "no-email"
+  | "no-license"
+  | "ignored";
+
+/** Tapahtumasta lähtevä asiakasviesti (kuitti, uusiutuminen, maksuvirhe, päättyminen). */
+export type Notice = {
+  [T in TemplateName]: { template: T; email: string; locale: Locale; data: TemplateData[T] };
+}[TemplateName];
+
+export type EventOutcome = {
+  action: EventAction;
+  license?: LicenseRecord;
+  notice?: Notice;
+};
+
+type Ref = string | { id: string } | null | undefined;
+const refId = (x: Ref) => (typeof x === "string" ? x : x?.id ?? null);
+
+async function findLicense(ids: { subscriptionId?: string | null; customerId?: string | null; email?: string | null }) {
+  return (
+    (ids.subscriptionId && (await findLicenseBySubscription(ids.subscriptionId))) ||
+    (ids.customerId && (await findLicenseByCustomer(ids.customerId))) ||
+    (ids.email && (await findLicenseByEmail(ids.email))) ||
+    null
+  );
+}
+
+/** Pidentää voimassaoloa; pysyvä lisenssi (expiresAt null, esim. ylläpidon myöntämä) pysyy pysyvänä. */
+function extendExpiry(existing: LicenseRecord, expiresAt: number): number | null {
+  return existing.expiresAt === null ? null : Math.max(existing.expiresAt, expiresAt);
+}
+
+/** Laskun viimeisen rivin jakson loppu (ms). */
+function invoicePeriodEnd(invoice: Stripe.Invoice): number | null {
+  const ends = (invoice.lines?.data ?? []).map((l) => l.period?.end ?? 0).filter((x) => x > 0);
+  return ends.length ? Math.max(...ends) * 1000 : null;
+}
+
+/** Paikat = tilausrivien määrä (toimistolisenssi: yksi tilaus, useampi paikka). */
+function invoiceSeats(invoice: Stripe.Invoice): number | null {
+  const q = (invoice.lines?.data ?? []).filter((l) => l.type === "subscription").map((l) => l.quantity ?? 0);
+  return q.length ? Math.max(1, ...q) : null;
+}
+
+function subscriptionSeats(sub: Stripe.Subscription): number | null {
+  const items = sub.items?.data ?? [];
+  return items.length ? Math.max(1, items.reduce((s, it) => s + (it.quantity ?? 1), 0)) : null;
+}
+
+/** Checkoutin kieli; suomi, ellei asiakas valinnut muuta. */
+function sessionLocale(session: Stripe.Checkout.Session): Locale {
+  const l = session.locale;
+  return l && l !== "auto" && !l.startsWith("fi") ? "en" : "fi";
+}
+
+export function receiptNotice(license: LicenseRecord, token: string, email = license.email): Notice {
+  return { template: "receipt", email, locale: license.locale, data: { license: license.key, token, appUrl: appUrl("/") } };
+}
+
+/* -------------------------------  CHECKOUT  ------------------------------- */
+async function checkoutCompleted(session: Stripe.Checkout.Session, lookup: StripeLookup): Promise<EventOutcome> {
+  const customerId = refId(session.customer);
+  const subscriptionId = refId(session.subscription);
+  const email =
+    session.customer_details?.email || session.customer_email || (customerId ? await lookup.customerEmail(customerId) : null);
+  if (!email) return { action: "no-email" };
+
+  const existing = await findLicense({ subscriptionId, customerId, email });
+  const expiresAt = Date.now() + INITIAL_PERIOD_MS;
+  // Perutun (hyvitys, kiista) tilalle uusi osto saa uuden avaimen
+  const license =
+    existing && existing.status !== "revoked"
+      ? await saveLicense({
+          ...existing,
+          status: "active",
+          graceUntil: null,
+          expiresAt: extendExpiry(existing, expiresAt),
+          customerId: customerId ?? existing.customerId,
+          subscriptionId: subscriptionId ?? existing.subscriptionId,
+        })
+      : await createLicense({ email, customerId, subscriptionId, expiresAt, locale: sessionLocale(session) });
+
+  const token = await issueLoginToken(license.key);
+  await linkCheckoutSession(session.id, license.key, token);
+  return {
+    action: existing && existing.key === license.key ? "activated" : "created",
+    license,
+    notice: receiptNotice(license, token, email),
+  };
+}
+
+/* -------------------------------  LASKUT  -------------------------------- */
+async function invoicePaid(invoice: Stripe.Invoice, lookup: StripeLookup): Promise<EventOutcome> {
+  const customerId = refId(invoice.customer);
+  const subscriptionId = refId(invoice.subscription);
+  const email = invoice.customer_email || (customerId ? await lookup.customerEmail(customerId) : null);
+  const firstInvoice = invoice.billing_reason === "subscription_create";
+  const expiresAt = (invoicePeriodEnd(invoice) ?? Date.now() + INITIAL_PERIOD_MS) + RENEWAL_SLACK_MS;
+  const seats = invoiceSeats(invoice);
+
+  const existing = await findLicense({ subscriptionId, customerId, email });
+  if (existing?.status === "revoked") return { action: "ignored", license: existing };
+  if (!existing) {
+    // Ensimmäinen lasku voi saapua yhtä aikaa checkoutin kanssa. Lisenssin luo vain checkout, ettei
+    // samasta ostosta synny kahta avainta: virhe → 500, ja Stripe toimittaa laskun uudelleen myöhemmin.
+    if (firstInvoice) throw new Error(`tilauksen ${subscriptionId ?? "?"} checkout ei ole vielä käsitelty`);
+    if (!email) return { action: "no-email" };
+    const license = await createLicense({ email, customerId, subscriptionId, expiresAt, seats: seats ?? 1 });
+    const token = await issueLoginToken(license.key);
+    return { action: "created", license, notice: receiptNotice(license, token) };
+  }
+
+  const license = await saveLicense({
+    ...existing,
+    status: "active",
+    graceUntil: null,
+    expiresAt: extendExpiry(existing, expiresAt),
+    seats: seats ?? existing.seats,
+    customerId: customerId ?? existing.customerId,
+    subscriptionId: subscriptionId ?? existing.subscriptionId,
+  });
+  if (firstInvoice) return { action: "activated", license };
+  return {
+    action: "renewed",
+    license,
+    notice: {
+      template: "renewal",
+      email: email || license.email,
+      locale: license.locale,
+      data: { license: license.key, expiresAt: license.expiresAt, appUrl: appUrl("/") },
+    },
+  };
+}
+
+async function invoicePaymentFailed(invoice: Stripe.Invoice): Promise<EventOutcome> {
+  const existing = await findLicense({ subscriptionId: refId(invoice.subscription), customerId: refId(invoice.customer) });
+  if (!existing) return { action: "no-license" };
+  if (existing.status !== "active" && existing.status !== "past_due") return { action: "ignored", license: existing };
+  // Uusintayritykset eivät pidennä jo alkanutta armonaikaa
+  const graceUntil =
+    existing.status === "past_due" && existing.graceUntil ? existing.graceUntil : Date.now() + GRACE_PERIOD_MS;
+  const license = await saveLicense({ ...existing, status: "past_due", graceUntil });
+  // Ilmoitus vain armonajan alkaessa, ei jokaisesta uusintayrityksestä
+  if (existing.status === "past_due") return { action: "grace", license };
+  return {
+    action: "grace",
+    license,
+    notice: { template: "payment-failed", email: license.email, locale: license.locale, data: { graceUntil, appUrl: appUrl("/") } },
+  };
+}
+
+/* -------------------------------  TILAUKSET  ------------------------------ */
+async function subscriptionUpdated(sub: Stripe.Subscription, previous: Partial<Stripe.Subscription>): Promise<EventOutcome> {
+  const existing = await findLicense({ subscriptionId: sub.id, customerId: refId(sub.customer) });
+  if (!existing) return { action: "no-license" };
+  if (existing.status === "revoked") return { action: "ignored", license: existing };
+
+  const periodEnd = sub.current_period_end * 1000;
+  let next: LicenseRecord;
+  switch (sub.status) {
+    case "active":
+    case "trialing":
+      // Jakson lopussa päättyvä tilaus: ei lisäaikaa jakson päälle
+      next = {
+        ...existing,
+        status: "active",
+        graceUntil: null,
+        expiresAt: periodEnd + (sub.cancel_at_period_end ? 0 : RENEWAL_SLACK_MS),
+      };
+      break;
+    case "past_due":
+      next = { ...existing, status: "past_due", graceUntil: existing.graceUntil ?? Date.now() + GRACE_PERIOD_MS };
+      break;
+    case "unpaid":
+    case "canceled":
+    case "incomplete_expired":
+      return endLicense(existing, Date.now());
+    default:
+      return { action: "ignored", license: existing };
+  }
+  const seats = subscriptionSeats(sub) ?? existing.seats;
+  const license = await saveLicense({ ...next, seats, subscriptionId: sub.id });
+  // Asiakas perui tilauksen jakson lopussa → muistutus päättymispäivästä
+  if (sub.cancel_at_period_end && previous.cancel_at_period_end === false && license.expiresAt !== null) {
+    return {
+      action: "synced",
+      license,
+      notice: {
+        template: "expiry-reminder",
+        email: license.email,
+        locale: license.locale,
+        data: { expiresAt: license.expiresAt, appUrl: appUrl("/") },
+      },
+    };
+  }
+  return { action: "synced", license };
+}
+
+async function subscriptionDeleted(sub: Stripe.Subscription): Promise<EventOutcome> {
+  const existing = await findLicense({ subscriptionId: sub.id, customerId: refId(sub.customer) });
+  if (!existing) return { action: "no-license" };
+  if (existing.status === "revoked") return { action: "ignored", license: existing };
+  return endLicense(existing, (sub.ended_at ?? sub.canceled_at ?? Date.now() / 1000) * 1000);
+}
+
+async function endLicense(existing: LicenseRecord, endedAt: number): Promise<EventOutcome> {
+  const expiresAt = Math.min(existing.expiresAt ?? endedAt, endedAt);
+  const license = await saveLicense({ ...existing, status: "canceled", graceUntil: null, expiresAt });
+  return { action: "canceled", license };
+}
+
+/* --------------------------  HYVITYKSET JA KIISTAT  ----------------------- */
+async function revoke(customerId: string | null, email: string | null, reason: string): Promise<EventOutcome> {
+  const existing = await findLicense({ customerId, email });
+  if (!existing) return { action: "no-license" };
+  const license = await saveLicense({ ...existing, status: "revoked", revokedReason: reason, graceUntil: null });
+  return { action: "revoked", license };
+}
+
+async function chargeRefunded(charge: Stripe.Charge): Promise<EventOutcome> {
+  // Osittainen hyvitys ei peru lisenssiä
+  if (!charge.refunded) return { action: "ignored" };
+  return revoke(refId(charge.customer), charge.billing_details?.email ?? null, "refund");
+}
+
+async function disputeCreated(dispute: Stripe.Dispute, lookup: StripeLookup): Promise<EventOutcome> {
+  const customerId =
+    typeof dispute.charge === "string" ? await lookup.chargeCustomer(dispute.charge) : refId(dispute.charge.customer);
+  return revoke(customerId, null, "dispute");
+}
+
+/* -------------------------------  JAKAJA  -------------------------------- */
+export async function applyStripeEvent(event: Stripe.Event, lookup: StripeLookup): Promise<EventOutcome> {
+  switch (event.type) {
+    case "checkout.session.completed":
+      return checkoutCompleted(event.data.object, lookup);
+    case "invoice.paid":
+      return invoicePaid(event.data.object, lookup);
+    case "invoice.payment_failed":
+      return invoicePaymentFailed(event.data.object);
+    case "customer.subscription.updated":
+      return subscriptionUpdated(event.data.object, event.data.previous_attributes ?? {});
+    case "customer.subscription.deleted":
+      return subscriptionDeleted(event.data.object);
+    case "charge.refunded":
+      return chargeRefunded(event.data.object);
+    case "charge.dispute.created":
+      return disputeCreated(event.data.object, lookup);
+    default:
+      return { action: "ignored" };
+  }
+}
+
+/** Haut oikeaa Stripe-API:a vasten. */
+export function stripeLookup(stripe: Stripe): StripeLookup {
+  return {
+    async customerEmail(customerId) {
+      const customer = await stripe.customers.retrieve(customerId);
+      return customer.deleted ? null : customer.email || null;
+    },
+    async chargeCustomer(chargeId) {
+      const charge = await stripe.charges.retrieve(chargeId);
+      return refId(charge.customer);
+    },
+  };
+}
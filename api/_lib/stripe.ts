@@ -0,0 +1,10 @@
+// api/_lib/stripe.ts
+// Yhteinen Stripe-asiakas; luodaan vasta ensimmäisellä käytöllä, jotta env on luettavissa.
+import Stripe from "stripe";
+
+let client: Stripe | null = null;
+
+export function getStripe(): Stripe {
+  client ??= new Stripe(process.env.STRIPE_SECRET_KEY as string, { apiVersion: "2024-06-20" });
+  return client;
+}
@@ -0,0 +1,56 @@
+// api/_lib/sync.ts
+// Käyttäjän syötesarjat (skenaariot) lisenssikohtaisesti laitteiden välillä.
+// Ristiriidat: viimeisin muutos voittaa (updatedAt = muutoshetki laitteella).
+//
+//   license-sync:<KEY>  → SyncRecord (tarkistus ja kirjoitus lukon lock:license-sync:<KEY> sisällä)
+import { getKv } from "./kv";
+import { normalizeLicenseKey } from "./licenses";
+import { withLock } from "./lock";
+
+export type SyncRecord = {
+  /** Asiakkaan skenaariovarasto sellaisenaan; asiakas täydentää puuttuvat kentät ladattaessa. */
+  data: { scenarios: unknown[] } & Record<string, unknown>;
+  /** Viimeisimmän muutoksen aika laitteella (ms). */
+  updatedAt: number;
+  /** Tallentaneen laitteen nimi (näytetään toisella laitteella). */
+  deviceName: string;
+  /** Palvelimen vastaanottoaika (ms). */
+  savedAt: number;
+};
+
+export type SyncPut = { ok: true; record: SyncRecord } | { ok: false; reason: "stale"; record: SyncRecord };
+
+export const MAX_SYNC_BYTES = 128 * 1024;
+export const MAX_SYNC_SCENARIOS = 100;
+
+const syncKey = (license: string) => `license-sync:${normalizeLicenseKey(license)}`;
+
+export function isSyncData(x: unknown): x is SyncRecord["data"] {
+  if (!x || typeof x !== "object" || Array.isArray(x)) return false;
+  const s = (x as { scenarios?: unknown }).scenarios;
+  return Array.isArray(s) && s.length > 0 && s.length <= MAX_SYNC_SCENARIOS && s.every((v) => !!v && typeof v === "object");
+}
+
+export async function getSync(license: string): Promise<SyncRecord | null> {
+  return getKv().get<SyncRecord>(syncKey(license));
+}
+
+/**
+ * Tallentaa, ellei palvelimella ole uudempaa muutosta. Tulevaisuuteen osoittava laitteen kello
+ * rajataan vastaanottohetkeen, ettei yksi laite voi lukita muita.
+ */
+export async function putSync(
+  license: string,
+  data: SyncRecord["data"],
+  updatedAt: number,
+  deviceName: string,
+  now = Date.now()
+): Promise<SyncPut> {
+  return withLock(syncKey(license), async () => {
+    const current = await getSync(license);
+    if (current && current.updatedAt > updatedAt) return { ok: false, reason: "stale", record: current };
+    const record: SyncRecord = { data, updatedAt: Math.min(updatedAt, now), deviceName, savedAt: now };
+    await getKv().set(syncKey(license), record);
+    return { ok: true, record };
+  });
+}
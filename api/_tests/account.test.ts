@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { setKv, type KvStore } from "../_lib/kv";
+import { MemoryKv } from "../_lib/memory-kv";
+import { createLicense, saveLicense } from "../_lib/licenses";
+import { activateDevice } from "../_lib/devices";
+import { MemoryTransport, setTransport } from "../_lib/email-transport";
+import login from "../login";
+import exchange from "../exchange";
+import account from "../account";
+import portal from "../portal";
+import { call } from "./helpers";
+
+const portalCreate = vi.hoisted(() => vi.fn(async () => ({ url: "https://billing.stripe.com/p/session_1" })));
+vi.mock("../_lib/stripe", () => ({ getStripe: () => ({ billingPortal: { sessions: { create: portalCreate } } }) }));
+
+process.env.APP_URL = "https://tuntihintasi.fi";
+
+let prev: KvStore;
+let transport: MemoryTransport;
+let mail: MemoryTransport["sent"];
+beforeEach(() => {
+  prev = setKv(new MemoryKv());
+  transport = new MemoryTransport();
+  mail = transport.sent;
+  setTransport(transport);
+  portalCreate.mockClear();
+});
+afterEach(() => {
+  setKv(prev);
+  setTransport(null);
+});
+
+describe("kirjautumislinkki", () => {
+  it("lähettää lisenssin osoitteeseen kertakäyttöisen linkin", async () => {
+    const lic = await createLicense({ email: "asiakas@example.com" });
+    const res = await call(login, { method: "POST", body: { email: " Asiakas@Example.com " } });
+    expect(res.body).toEqual({ ok: true });
+    expect(mail).toHaveLength(1);
+    expect(mail[0].to).toBe("asiakas@example.com");
+
+    expect(mail[0].template).toBe("recovery");
+    const token = mail[0].text.match(/\/\?token=([A-Z0-9]+)/)![1];
+    expect((await call(exchange, { query: { token } })).body.license).toBe(lic.key);
+    expect((await call(exchange, { query: { token } })).body.ok).toBe(false);
+  });
+
+  it("tuntematon tai peruttu osoite saa saman vastauksen ilman viestiä", async () => {
+    const lic = await createLicense({ email: "peruttu@example.com" });
+    await saveLicense({ ...lic, status: "revoked" });
+    for (const email of ["tuntematon@example.com", "peruttu@example.com"]) {
+      expect((await call(login, { method: "POST", body: { email } })).body).toEqual({ ok: true });
+    }
+    expect(mail).toHaveLength(0);
+    expect((await call(login, { method: "POST", body: { email: "ei-osoite" } })).statusCode).toBe(400);
+  });
+});
+
+describe("oma tili", () => {
+  it("näyttää tilauksen ja laitteet", async () => {
+    const lic = await createLicense({ email: "a@b.fi", seats: 2, customerId: "cus_1", expiresAt: Date.now() + 86400_000 });
+    await activateDevice(lic, "device-0001", "Toimisto-PC");
+    const res = await call(account, { method: "POST", body: { key: lic.key } });
+    expect(res.body).toMatchObject({ ok: true, email: "a@b.fi", plan: "team", seats: 2, valid: true, billing: true });
+    expect(res.body.devices.map((d: { name: string }) => d.name)).toEqual(["Toimisto-PC"]);
+    expect((await call(account, { method: "POST", body: { key: "EI-OLE" } })).body.ok).toBe(false);
+  });
+
+  it("avaa Stripen asiakasportaalin asiakkaalle", async () => {
+    const lic = await createLicense({ email: "a@b.fi", customerId: "cus_1" });
+    const res = await call(portal, { method: "POST", body: { key: lic.key } });
+    expect(res.body).toEqual({ ok: true, url: "https://billing.stripe.com/p/session_1" });
+    expect(portalCreate).toHaveBeenCalledWith({ customer: "cus_1", return_url: "https://tuntihintasi.fi/" });
+
+    const manual = await createLicense({ email: "c@d.fi" });
+    expect((await call(portal, { method: "POST", body: { key: manual.key } })).body.reason).toBe("no-customer");
+  });
+});
@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type Stripe from "stripe";
+import { setKv, type KvStore } from "../_lib/kv";
+import { MemoryKv } from "../_lib/memory-kv";
+import { createLicense, getLicense, isLicenseValid, saveLicense } from "../_lib/licenses";
+import { customersCsv } from "../_lib/admin";
+import { HISTORY_LIMIT, listAdminActions, listLicenseEvents, recordAdminAction, recordLicenseEvent } from "../_lib/history";
+import { processStripeEvent } from "../_lib/process-event";
+import { MemoryTransport, setTransport } from "../_lib/email-transport";
+import licenses from "../admin/licenses";
+import license from "../admin/license";
+import exportCsv from "../admin/export";
+import { call, fixture } from "./helpers";
+
+process.env.ADMIN_API_KEY = "admin-secret";
+process.env.APP_URL = "https://tuntihintasi.fi";
+
+const auth = { authorization: "Bearer admin-secret" };
+const DAY_MS = 86400_000;
+
+let prev: KvStore;
+let mail: MemoryTransport;
+beforeEach(() => {
+  prev = setKv(new MemoryKv());
+  mail = new MemoryTransport();
+  setTransport(mail);
+});
+afterEach(() => {
+  setKv(prev);
+  setTransport(null);
+});
+
+describe("ylläpidon tunnistus", () => {
+  it("vaatii ADMIN_API_KEY:n, ei lisenssiavainta", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    for (const handler of [licenses, license, exportCsv]) {
+      expect((await call(handler, { query: { key: lic.key } })).statusCode).toBe(401);
+      expect((await call(handler, { headers: { authorization: `Bearer ${lic.key}` } })).statusCode).toBe(401);
+    }
+  });
+});
+
+describe("haku", () => {
+  it("löytää sähköpostilla, avaimella ja osittaisella osumalla", async () => {
+    const a = await createLicense({ email: "matti@sahko.fi" });
+    const b = await createLicense({ email: "liisa@example.com" });
+
+    const byEmail = await call(licenses, { headers: auth, query: { q: " Matti@Sahko.fi " } });
+    expect(byEmail.body.licenses.map((l: any) => l.key)).toEqual([a.key]);
+    const byKey = await call(licenses, { headers: auth, query: { q: b.key.toLowerCase() } });
+    expect(byKey.body.licenses.map((l: any) => l.key)).toEqual([b.key]);
+    const partial = await call(licenses, { headers: auth, query: { q: "example" } });
+    expect(partial.body.licenses.map((l: any) => l.email)).toEqual(["liisa@example.com"]);
+    const all = await call(licenses, { headers: auth });
+    expect(all.body.licenses).toHaveLength(2);
+    expect(all.body.licenses[0].valid).toBe(true);
+  });
+});
+
+describe("myöntäminen ja muutokset", () => {
+  it("myöntää lisenssin ja lähettää kuitin pyydettäessä", async () => {
+    const res = await call(licenses, {
+      method: "POST",
+      headers: auth,
+      body: { email: "uusi@example.com", days: 30, seats: 3, locale: "en", sendReceipt: true },
+    });
+    expect(res.statusCode).toBe(201);
+    const lic = (await getLicense(res.body.license.key))!;
+    expect(lic.seats).toBe(3);
+    expect(lic.expiresAt).toBeGreaterThan(Date.now() + 29 * DAY_MS);
+    expect(mail.sent).toHaveLength(1);
+    expect(mail.sent[0].template).toBe("receipt");
+    expect(mail.sent[0].subject).toMatch(/receipt/);
+
+    const again = await call(licenses, { method: "POST", headers: auth, body: { email: "uusi@example.com" } });
+    expect(again.statusCode).toBe(409);
+    expect((await call(licenses, { method: "POST", headers: auth, body: { email: "x@y.fi", seats: 0 } })).statusCode).toBe(400);
+  });
+
+  it("jatkaa päättymisajasta ja palauttaa perutun voimaan", async () => {
+    const end = Date.now() + 5 * DAY_MS;
+    const lic = await saveLicense({ ...(await createLicense({ email: "a@b.fi", expiresAt: end })), status: "past_due" });
+    const res = await call(license, { method: "POST", headers: auth, body: { key: lic.key, action: "extend", days: 10 } });
+    expect(res.body.license.status).toBe("active");
+    expect(res.body.license.expiresAt).toBeGreaterThanOrEqual(end + 10 * DAY_MS);
+
+    await call(license, { method: "POST", headers: auth, body: { key: lic.key, action: "revoke", reason: "väärinkäyttö" } });
+    const revoked = (await getLicense(lic.key))!;
+    expect(revoked.status).toBe("revoked");
+    expect(revoked.revokedReason).toBe("väärinkäyttö");
+    expect(isLicenseValid(revoked)).toBe(false);
+
+    const resend = await call(license, { method: "POST", headers: auth, body: { key: lic.key, action: "resend-receipt" } });
+    expect(resend.statusCode).toBe(409);
+    expect(mail.sent).toHaveLength(0);
+
+    const details = await call(license, { headers: auth, query: { key: lic.key } });
+    expect(details.body.audit.map((a: any) => a.action)).toEqual(["revoke", "extend"]);
+  });
+
+  it("lähettää kuitin uudelleen uudella kirjautumistunnuksella", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const res = await call(license, { method: "POST", headers: auth, body: { key: lic.key, action: "resend-receipt" } });
+    expect(res.statusCode).toBe(200);
+    expect(mail.sent[0].to).toBe("a@b.fi");
+    expect(mail.sent[0].text).toContain(lic.key);
+
+    mail.failNext = "smtp down";
+    const failed = await call(license, { method: "POST", headers: auth, body: { key: lic.key, action: "resend-receipt" } });
+    expect(failed.statusCode).toBe(502);
+  });
+});
+
+describe("tapahtumahistoria", () => {
+  it("näyttää lisenssiin osuneet webhook-tapahtumat", async () => {
+    const deps = {
+      lookup: { customerEmail: async () => null, chargeCustomer: async () => null },
+      sendNotice: async () => "mail_1",
+    };
+    const done = await processStripeEvent(fixture<Stripe.Event>("checkout.session.completed"), deps);
+    const key = done.entry!.license!;
+
+    const res = await call(license, { headers: auth, query: { key } });
+    expect(res.body.events).toHaveLength(1);
+    expect(res.body.events[0]).toMatchObject({ type: "checkout.session.completed", action: "created", status: "done" });
+    expect(res.body.events[0].event).toBeUndefined();
+  });
+});
+
+describe("CSV-vienti", () => {
+  it("vie asiakkaat puolipisteellä eroteltuna", async () => {
+    await createLicense({ email: "a@b.fi", customerId: "cus_1" });
+    const res = await call(exportCsv, { headers: auth });
+    expect(res.headers["content-type"]).toMatch(/text\/csv/);
+    const lines = (res.body as string).replace(/^\uFEFF/, "").trim().split("\r\n");
+    expect(lines[0]).toBe("key;email;status;valid;seats;expiresAt;revokedReason;customerId;subscriptionId;locale;createdAt");
+    expect(lines[1]).toContain(";a@b.fi;active;yes;1;;;cus_1;;fi;");
+  });
+
+  it("lainaa erottimet ja estää kaavat", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const csv = customersCsv([{ ...lic, revokedReason: '=HYPERLINK("x");1' }]);
+    expect(csv).toContain(`"'=HYPERLINK(""x"");1"`);
+  });
+});
+
+describe("lisenssihistoria", () => {
+  it("rinnakkaiset kirjaukset säilyvät ja lista pysyy rajattuna", async () => {
+    await Promise.all(["evt_a", "evt_b", "evt_c"].map((id) => recordLicenseEvent("KEY", id)));
+    expect((await listLicenseEvents("KEY")).sort()).toEqual(["evt_a", "evt_b", "evt_c"]);
+
+    for (let i = 0; i < HISTORY_LIMIT + 2; i++) await recordAdminAction("KEY", "extend", `${i}`);
+    const audit = await listAdminActions("KEY");
+    expect(audit).toHaveLength(HISTORY_LIMIT);
+    expect(audit[0].detail).toBe(`${HISTORY_LIMIT + 1}`);
+  });
+});
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type Stripe from "stripe";
+import { setKv, type KvStore } from "../_lib/kv";
+import { MemoryKv } from "../_lib/memory-kv";
+import { createLicense, findLicenseByEmail, saveLicense } from "../_lib/licenses";
+import { activateDevice, cleanDeviceName, listDevices } from "../_lib/devices";
+import { applyStripeEvent } from "../_lib/stripe-events";
+import verify from "../verify";
+import devices from "../devices";
+import { call, fixture } from "./helpers";
+
+let prev: KvStore;
+beforeEach(() => {
+  prev = setKv(new MemoryKv());
+});
+afterEach(() => {
+  setKv(prev);
+});
+
+const open = (key: string, deviceId: string, deviceName = "Laite") =>
+  call(verify, { method: "POST", body: { key, deviceId, deviceName } });
+
+describe("laitepaikat", () => {
+  it("paikat rajaavat uudet laitteet, jo aktivoitu avautuu aina", async () => {
+    const lic = await createLicense({ email: "toimisto@example.com", seats: 2 });
+    expect((await open(lic.key, "device-aaaa", "Hannun läppäri")).body).toMatchObject({ ok: true, seats: 2, devices: 1 });
+    expect((await open(lic.key, "device-bbbb")).body.ok).toBe(true);
+
+    const third = await open(lic.key, "device-cccc");
+    expect(third.body).toMatchObject({ ok: false, reason: "seats", seats: 2 });
+    expect(third.body.devices.map((d: { name: string }) => d.name)).toEqual(["Hannun läppäri", "Laite"]);
+
+    expect((await open(lic.key, "device-aaaa", "Uusi nimi")).body.ok).toBe(true);
+    expect((await listDevices(lic.key))[0].name).toBe("Uusi nimi");
+  });
+
+  it("rinnakkaiset aktivoinnit eivät ohita paikkarajaa", async () => {
+    const lic = await createLicense({ email: "a@example.com", seats: 1 });
+    const ids = ["device-0001", "device-0002", "device-0003", "device-0004"];
+    const results = await Promise.all(ids.map((id) => open(lic.key, id)));
+    expect(results.filter((r) => r.body.ok)).toHaveLength(1);
+    expect(await listDevices(lic.key)).toHaveLength(1);
+  });
+
+  it("vapautettu paikka kelpaa uudelle laitteelle", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    await open(lic.key, "device-aaaa");
+    expect((await open(lic.key, "device-bbbb")).body.reason).toBe("seats");
+
+    const list = await call(devices, { method: "POST", body: { key: lic.key, action: "list" } });
+    expect(list.body).toMatchObject({ ok: true, seats: 1 });
+    expect(list.body.devices).toHaveLength(1);
+
+    const rel = await call(devices, { method: "POST", body: { key: lic.key, action: "release", deviceId: "device-aaaa" } });
+    expect(rel.body.devices).toEqual([]);
+    expect((await open(lic.key, "device-bbbb")).body.ok).toBe(true);
+  });
+
+  it("paikkaa ei voi kierrättää rajattomasti: vapautuksia on rajattu viikossa", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const release = (deviceId: string) => call(devices, { method: "POST", body: { key: lic.key, action: "release", deviceId } });
+    for (const id of ["device-0001", "device-0002"]) {
+      expect((await open(lic.key, id)).body.ok).toBe(true);
+      expect((await release(id)).body.ok).toBe(true);
+    }
+    // Tuntematon laite ei kuluta kiintiötä
+    expect((await release("device-9999")).body.ok).toBe(true);
+
+    expect((await open(lic.key, "device-0003")).body.ok).toBe(true);
+    const blocked = await release("device-0003");
+    expect(blocked.body).toMatchObject({ ok: false, reason: "release-limit", seats: 1 });
+    expect(blocked.body.retryAfter).toBeGreaterThan(0);
+    expect((await listDevices(lic.key)).map((d) => d.id)).toEqual(["device-0003"]);
+  });
+
+  it("paikkojen vähentäminen jättää voimaan vain ensin aktivoidut", async () => {
+    const lic = await createLicense({ email: "a@b.fi", seats: 2 });
+    await activateDevice(lic, "device-aaaa", "A", 1);
+    await activateDevice(lic, "device-bbbb", "B", 2);
+    const fewer = await saveLicense({ ...lic, seats: 1 });
+    expect((await activateDevice(fewer, "device-aaaa", "A")).ok).toBe(true);
+    expect((await activateDevice(fewer, "device-bbbb", "B")).ok).toBe(false);
+  });
+
+  it("vaatii laitetunnisteen ja kelvollisen lisenssin", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    expect((await call(verify, { method: "POST", body: { key: lic.key } })).body.reason).toBe("device");
+    expect((await call(devices, { method: "POST", body: { key: "EI-OLE", action: "list" } })).body.reason).toBe("license");
+    expect((await call(devices, { method: "POST", body: { key: lic.key, action: "release", deviceId: "x" } })).statusCode).toBe(400);
+  });
+
+  it("laitteen nimi siistitään", () => {
+    expect(cleanDeviceName("  Toimisto   PC ")).toBe("Toimisto PC");
+    expect(cleanDeviceName("")).toBe("Nimetön laite");
+    expect(cleanDeviceName("x".repeat(100))).toHaveLength(60);
+  });
+
+  it("paikkamäärä tulee Stripen tilauksen määrästä", async () => {
+    await applyStripeEvent(fixture<Stripe.Event>("checkout.session.completed"), {
+      customerEmail: async () => null,
+      chargeCustomer: async () => null,
+    });
+    await applyStripeEvent(fixture<Stripe.Event>("customer.subscription.updated.seats"), {
+      customerEmail: async () => null,
+      chargeCustomer: async () => null,
+    });
+    expect((await findLicenseByEmail("asiakas@example.com"))!.seats).toBe(5);
+  });
+});
@@ -0,0 +1,123 @@
+import { mkdtempSync, readdirSync, readFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type Stripe from "stripe";
+import { escapeHtml, renderEmail } from "../_lib/email-templates";
+import { fileTransport, getTransport, MemoryTransport, setTransport } from "../_lib/email-transport";
+import { setKv, type KvStore } from "../_lib/kv";
+import { setLogSink, type LogLine } from "../_lib/log";
+import { MemoryKv } from "../_lib/memory-kv";
+import { sendEmail } from "../_lib/mail";
+import { applyStripeEvent } from "../_lib/stripe-events";
+import { fixture } from "./helpers";
+
+const EXPIRES = Date.UTC(2025, 0, 31, 12);
+
+describe("viestipohjat", () => {
+  it("suomeksi ja englanniksi, tekstiversio samasta sisällöstä", () => {
+    const fi = renderEmail("receipt", { license: "ABC-123", token: "T0K3N", appUrl: "https://tuntihintasi.fi/" });
+    expect(fi.subject).toContain("kuitti");
+    expect(fi.html).toContain("<b>Lisenssikoodi:</b> ABC-123");
+    expect(fi.text).toContain("Lisenssikoodi: ABC-123");
+    expect(fi.text).toContain("Avaa sovellus: https://tuntihintasi.fi/");
+
+    const en = renderEmail("expiry-reminder", { expiresAt: EXPIRES, appUrl: "https://tuntihintasi.fi/" }, "en");
+    expect(en.subject).toBe("Tuntihintasi – license expires on 31 January 2025");
+    expect(renderEmail("expiry-reminder", { expiresAt: EXPIRES, appUrl: "x" }).subject).toContain("31.1.2025");
+  });
+
+  it("muuttujat escapoidaan HTML:ssä mutta eivät tekstissä", () => {
+    const evil = `"><script>alert(1)</script>`;
+    const out = renderEmail("recovery", { loginUrl: `https://x.fi/?a=1&b=${evil}`, ttlMinutes: 30 });
+    expect(out.html).not.toContain("<script>");
+    expect(out.html).toContain("&amp;b=&quot;&gt;&lt;script&gt;");
+    expect(out.text).toContain(`&b=${evil}`);
+    expect(escapeHtml(`<a href='x'>&`)).toBe("&lt;a href=&#39;x&#39;&gt;&amp;");
+  });
+
+  it("kaikilla pohjilla on molemmat kielet", () => {
+    const data = { license: "K", token: "T", appUrl: "u", expiresAt: EXPIRES, graceUntil: EXPIRES, loginUrl: "u", ttlMinutes: 30 };
+    for (const name of ["receipt", "renewal", "payment-failed", "recovery", "expiry-reminder"] as const) {
+      for (const locale of ["fi", "en"] as const) {
+        const out = renderEmail(name, data, locale);
+        expect(out.subject && out.html && out.text).toBeTruthy();
+      }
+    }
+  });
+});
+
+describe("lähetystapa", () => {
+  afterEach(() => {
+    setTransport(null);
+  });
+
+  it("tiedostolähetys kirjoittaa viestin hakemistoon", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "outbox-"));
+    setTransport(fileTransport(dir));
+    await sendEmail("a@b.fi", "recovery", { loginUrl: "https://x.fi/?token=ABC", ttlMinutes: 30 }, "en");
+    const files = readdirSync(dir);
+    expect(files).toHaveLength(1);
+    const msg = JSON.parse(readFileSync(join(dir, files[0]), "utf8"));
+    expect(msg).toMatchObject({ to: "a@b.fi", template: "recovery", subject: "Tuntihintasi – sign-in link" });
+    expect(msg.text).toContain("https://x.fi/?token=ABC");
+  });
+
+  it("konsolilähetys kirjaa vain otsikkotiedot peitettyinä, ei runkoa", async () => {
+    process.env.EMAIL_TRANSPORT = "console";
+    process.env.LOG_LEVEL = "info";
+    const lines: LogLine[] = [];
+    const prevSink = setLogSink((l) => lines.push(l));
+    const id = await sendEmail("asiakas@b.fi", "recovery", { loginUrl: "https://x.fi/?token=SALAINEN123", ttlMinutes: 30 });
+    setLogSink(prevSink);
+    delete process.env.EMAIL_TRANSPORT;
+    process.env.LOG_LEVEL = "silent";
+
+    expect(id).toMatch(/^console-/);
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatchObject({ template: "recovery", to: "a***@b.fi" });
+    expect(JSON.stringify(lines)).not.toContain("SALAINEN123");
+  });
+
+  it("ilman määritettyä lähetystapaa lähetys epäonnistuu eikä putoa konsoliin", async () => {
+    const saved = process.env.RESEND_API_KEY;
+    delete process.env.RESEND_API_KEY;
+    delete process.env.EMAIL_TRANSPORT;
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+    expect(() => getTransport()).toThrow(/RESEND_API_KEY/);
+    await expect(sendEmail("a@b.fi", "recovery", { loginUrl: "u", ttlMinutes: 30 })).rejects.toThrow();
+    expect(log).not.toHaveBeenCalled();
+    log.mockRestore();
+    process.env.EMAIL_TRANSPORT = "smtp";
+    expect(() => getTransport()).toThrow(/EMAIL_TRANSPORT/);
+    delete process.env.EMAIL_TRANSPORT;
+    if (saved !== undefined) process.env.RESEND_API_KEY = saved;
+  });
+});
+
+describe("tapahtumien viestit", () => {
+  const lookup = { customerEmail: async () => null, chargeCustomer: async () => null };
+  const apply = (name: string) => applyStripeEvent(fixture<Stripe.Event>(name), lookup);
+  let prev: KvStore;
+  beforeEach(() => {
+    prev = setKv(new MemoryKv());
+    setTransport(new MemoryTransport());
+  });
+  afterEach(() => {
+    setKv(prev);
+    setTransport(null);
+  });
+
+  it("maksuvirheestä ilmoitetaan vain armonajan alkaessa", async () => {
+    await apply("checkout.session.completed");
+    expect((await apply("invoice.payment_failed")).notice?.template).toBe("payment-failed");
+    expect((await apply("invoice.payment_failed")).notice).toBeUndefined();
+  });
+
+  it("jakson lopussa päättyväksi muutettu tilaus saa muistutuksen", async () => {
+    await apply("checkout.session.completed");
+    const out = await apply("customer.subscription.updated.cancel_at_period_end");
+    expect(out.notice).toMatchObject({ template: "expiry-reminder", locale: "fi", data: { expiresAt: 1738281600_000 } });
+    expect((await apply("customer.subscription.updated.seats")).notice).toBeUndefined();
+  });
+});
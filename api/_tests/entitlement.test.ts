@@ -0,0 +1,57 @@
+import { generateKeyPairSync, verify as verifySig } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setKv, type KvStore } from "../_lib/kv";
+import { MemoryKv } from "../_lib/memory-kv";
+import { createLicense, issueLoginToken } from "../_lib/licenses";
+import { ENTITLEMENT_TTL_S, entitlementClaims } from "../_lib/entitlement";
+import verify from "../verify";
+import exchange from "../exchange";
+import { call } from "./helpers";
+
+const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+process.env.ENTITLEMENT_PRIVATE_KEY = (privateKey.export({ format: "pem", type: "pkcs8" }) as string).replace(/\n/g, "\\n");
+
+function readToken(token: string) {
+  const [head, body, sig] = token.split(".");
+  const valid = verifySig(null, Buffer.from(`${head}.${body}`), publicKey, Buffer.from(sig, "base64url"));
+  return { valid, claims: JSON.parse(Buffer.from(body, "base64url").toString()) };
+}
+
+let prev: KvStore;
+beforeEach(() => {
+  prev = setKv(new MemoryKv());
+});
+afterEach(() => {
+  setKv(prev);
+});
+
+describe("käyttöoikeustunniste", () => {
+  it("verify palauttaa allekirjoitetun tunnisteen laitteelle", async () => {
+    const lic = await createLicense({ email: "a@b.fi", seats: 3, expiresAt: Date.now() + 30 * 86400_000 });
+    const res = await call(verify, { method: "POST", body: { key: lic.key, deviceId: "device-0001" } });
+    const { valid, claims } = readToken(res.body.token);
+    expect(valid).toBe(true);
+    expect(claims).toMatchObject({ sub: lic.key, dev: "device-0001", plan: "team", seats: 3, status: "active" });
+    expect(claims.exp - claims.iat).toBe(ENTITLEMENT_TTL_S);
+  });
+
+  it("voimassaolo ei ylitä lisenssin tai armonajan loppua", () => {
+    const base = { key: "K", email: "a@b.fi", customerId: null, subscriptionId: null, seats: 1, createdAt: 0, updatedAt: 0, revokedReason: null, locale: "fi" as const };
+    const now = 1_000_000_000_000;
+    const soon = entitlementClaims({ ...base, status: "active", expiresAt: now + 3600_000, graceUntil: null }, "d", now);
+    expect(soon.exp).toBe(now / 1000 + 3600);
+
+    const grace = entitlementClaims({ ...base, status: "past_due", expiresAt: now - 1000, graceUntil: now + 7200_000 }, "d", now);
+    expect(grace.exp).toBe(now / 1000 + 7200);
+  });
+
+  it("exchange antaa tunnisteen, kun laitetunniste on mukana", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const res = await call(exchange, { query: { token: await issueLoginToken(lic.key), deviceId: "device-0001", deviceName: "PC" } });
+    expect(res.body.license).toBe(lic.key);
+    expect(readToken(res.body.token).claims.dev).toBe("device-0001");
+
+    const plain = await call(exchange, { query: { token: await issueLoginToken(lic.key) } });
+    expect(plain.body).toEqual({ ok: true, license: lic.key, token: null });
+  });
+});
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setKv, type KvStore } from "../_lib/kv";
+import { MemoryKv } from "../_lib/memory-kv";
+import { createLicense, issueLoginToken } from "../_lib/licenses";
+import { ATTEMPT_LIMIT, listAttempts, recordAttempt } from "../_lib/attempts";
+import { FAILURE_LIMIT } from "../_lib/guard";
+import { hitLimit } from "../_lib/rate-limit";
+import verify from "../verify";
+import exchange from "../exchange";
+import claim from "../claim";
+import attempts from "../admin/attempts";
+import { call } from "./helpers";
+
+process.env.APP_URL = "https://tuntihintasi.fi";
+process.env.ADMIN_API_KEY = "admin-secret";
+
+const DEVICE = { deviceId: "device-0001", deviceName: "PC" };
+const from = (ip: string) => ({ "x-forwarded-for": `${ip}, 10.0.0.1` });
+
+let prev: KvStore;
+beforeEach(() => {
+  prev = setKv(new MemoryKv());
+});
+afterEach(() => {
+  setKv(prev);
+});
+
+describe("pyyntörajat", () => {
+  it("laskuri nollautuu ikkunan vaihtuessa", async () => {
+    const limit = { max: 2, windowS: 60 };
+    expect((await hitLimit("t", "ip", limit, 0)).ok).toBe(true);
+    expect((await hitLimit("t", "ip", limit, 1000)).ok).toBe(true);
+    const third = await hitLimit("t", "ip", limit, 2000);
+    expect(third).toEqual({ ok: false, count: 3, retryAfter: 58 });
+    expect((await hitLimit("t", "ip", limit, 60_000)).ok).toBe(true);
+  });
+
+  it("IP-raja palauttaa 429 ja Retry-Afterin", async () => {
+    for (let i = 0; i < 20; i++) {
+      const token = await issueLoginToken("X");
+      expect((await call(exchange, { headers: from("1.1.1.1"), query: { token } })).statusCode).toBe(200);
+    }
+    const res = await call(exchange, { headers: from("1.1.1.1"), query: { token: await issueLoginToken("X") } });
+    expect(res.statusCode).toBe(429);
+    expect(res.body).toMatchObject({ ok: false, reason: "rate-limit" });
+    expect(Number(res.headers["retry-after"])).toBeGreaterThan(0);
+    expect((await call(exchange, { headers: from("2.2.2.2"), query: { token: await issueLoginToken("X") } })).statusCode).toBe(200);
+  });
+
+  it("avainkohtainen raja pätee IP:stä riippumatta", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    for (let i = 0; i < 20; i++) {
+      await call(verify, { method: "POST", headers: from(`3.3.3.${i}`), body: { key: lic.key, ...DEVICE } });
+    }
+    const res = await call(verify, { method: "POST", headers: from("4.4.4.4"), body: { key: lic.key.toLowerCase(), ...DEVICE } });
+    expect(res.statusCode).toBe(429);
+  });
+
+  it("toistuvat epäonnistumiset sulkevat rajapinnat samalta IP:ltä", async () => {
+    for (let i = 0; i < FAILURE_LIMIT.max; i++) {
+      const res = await call(verify, { method: "POST", headers: from("5.5.5.5"), body: { key: `ARVAUS-${i}`, ...DEVICE } });
+      expect(res.body.ok).toBe(false);
+    }
+    const lic = await createLicense({ email: "a@b.fi" });
+    expect((await call(verify, { method: "POST", headers: from("5.5.5.5"), body: { key: lic.key, ...DEVICE } })).statusCode).toBe(429);
+    expect((await call(claim, { headers: from("5.5.5.5"), query: { session_id: "cs_1" } })).statusCode).toBe(429);
+    expect((await call(verify, { method: "POST", headers: from("6.6.6.6"), body: { key: lic.key, ...DEVICE } })).body.ok).toBe(true);
+  });
+});
+
+describe("syötteen tarkistus", () => {
+  it("hylkää väärän metodin, tuntemattomat kentät ja virheelliset arvot", async () => {
+    const wrong = await call(verify, { method: "GET" });
+    expect(wrong.statusCode).toBe(405);
+    expect(wrong.headers.allow).toBe("POST");
+
+    const extra = await call(verify, { method: "POST", body: { key: "ABC", ...DEVICE, admin: true } });
+    expect(extra.statusCode).toBe(400);
+    expect(extra.body).toMatchObject({ reason: "field", fields: ["admin"] });
+
+    expect((await call(verify, { method: "POST", body: [1, 2] })).body.reason).toBe("body");
+    expect((await call(verify, { method: "POST", body: "{ei json" })).body.reason).toBe("body");
+    expect((await call(verify, { method: "POST", body: { key: "x".repeat(5000), ...DEVICE } })).statusCode).toBe(400);
+    expect((await call(exchange, { query: { token: ["A", "B"] as unknown as string } })).body.reason).toBe("token");
+    expect((await call(claim, { query: { session_id: "../../etc" } })).body.reason).toBe("session_id");
+  });
+});
+
+describe("CORS", () => {
+  it("sallii vain sovelluksen oman originin", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const own = await call(verify, { method: "POST", headers: { origin: "https://tuntihintasi.fi" }, body: { key: lic.key, ...DEVICE } });
+    expect(own.headers["access-control-allow-origin"]).toBe("https://tuntihintasi.fi");
+    expect(own.body.ok).toBe(true);
+
+    const foreign = await call(verify, { method: "POST", headers: { origin: "https://evil.example" }, body: { key: lic.key, ...DEVICE } });
+    expect(foreign.statusCode).toBe(403);
+    expect(foreign.body.reason).toBe("origin");
+
+    const preflight = await call(verify, { method: "OPTIONS", headers: { origin: "https://tuntihintasi.fi" } });
+    expect(preflight.statusCode).toBe(204);
+    expect(preflight.headers["access-control-allow-methods"]).toBe("POST, OPTIONS");
+  });
+});
+
+describe("yritysloki", () => {
+  it("kirjaa epäonnistumiset peitetyllä tunnisteella ylläpidon nähtäväksi", async () => {
+    await call(verify, { method: "POST", headers: from("7.7.7.7"), body: { key: "ABCDEFGH-1234", ...DEVICE } });
+    await call(exchange, { headers: from("7.7.7.7"), query: { token: "0123456789ABCDEF0123" } });
+
+    const log = await listAttempts();
+    expect(log.map((a) => [a.route, a.reason, a.ip, a.subject])).toEqual([
+      ["exchange", "token", "7.7.7.7", "0123…"],
+      ["verify", "license", "7.7.7.7", "ABCD…"],
+    ]);
+
+    expect((await call(attempts, {})).statusCode).toBe(401);
+    const res = await call(attempts, { headers: { authorization: "Bearer admin-secret" } });
+    expect(res.body.attempts[0].route).toBe("exchange");
+  });
+
+  it("pitää lokin rajattuna uusimpiin yrityksiin", async () => {
+    for (let i = 0; i < ATTEMPT_LIMIT + 3; i++) await recordAttempt({ route: "verify", ip: `10.0.0.${i}`, reason: "license" });
+    const log = await listAttempts();
+    expect(log).toHaveLength(ATTEMPT_LIMIT);
+    expect(log[0].ip).toBe(`10.0.0.${ATTEMPT_LIMIT + 2}`);
+    expect(log[ATTEMPT_LIMIT - 1].ip).toBe("10.0.0.3");
+  });
+});
@@ -0,0 +1,73 @@
+import { generateKeyPairSync } from "node:crypto";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setKv, type KvStore } from "../_lib/kv";
+import { MemoryKv } from "../_lib/memory-kv";
+import health from "../health";
+import { call } from "./helpers";
+
+const ENV = {
+  STRIPE_SECRET_KEY: "sk_test_dummy",
+  STRIPE_WEBHOOK_SECRET: "whsec_test",
+  KV_REST_API_URL: "https://kv.example",
+  KV_REST_API_TOKEN: "kv-token",
+  APP_URL: "https://tuntihintasi.fi",
+  ADMIN_API_KEY: "admin-secret",
+  ENTITLEMENT_PRIVATE_KEY: generateKeyPairSync("ed25519").privateKey.export({ format: "pem", type: "pkcs8" }) as string,
+  EMAIL_FROM: "no-reply@example.com",
+  RESEND_API_KEY: "re_test",
+};
+const admin = { authorization: "Bearer admin-secret" };
+
+let prev: KvStore;
+beforeEach(() => {
+  prev = setKv(new MemoryKv());
+  Object.assign(process.env, ENV);
+});
+afterEach(() => {
+  setKv(prev);
+});
+
+describe("health", () => {
+  it("kunnossa: KV vastaa ja asetukset löytyvät", async () => {
+    const res = await call(health, { headers: admin });
+    expect(res.statusCode).toBe(200);
+    expect(res.body.ok).toBe(true);
+    expect(res.body.checks.config).toEqual({ ok: true, missing: [] });
+    expect(res.headers["cache-control"]).toBe("no-store");
+  });
+
+  it("puuttuva asetus → 503; nimet vain ylläpidolle", async () => {
+    delete process.env.STRIPE_WEBHOOK_SECRET;
+    delete process.env.RESEND_API_KEY;
+    const pub = await call(health);
+    expect(pub.statusCode).toBe(503);
+    expect(pub.body).toEqual({ ok: false, checks: { kv: { ok: true }, config: { ok: false } } });
+
+    const res = await call(health, { headers: admin });
+    expect(res.body.checks.config.missing).toEqual(["STRIPE_WEBHOOK_SECRET", "RESEND_API_KEY"]);
+
+    process.env.EMAIL_TRANSPORT = "console";
+    expect((await call(health, { headers: admin })).body.checks.config.missing).toEqual(["STRIPE_WEBHOOK_SECRET"]);
+    delete process.env.EMAIL_TRANSPORT;
+  });
+
+  it("KV-virhe → 503", async () => {
+    setKv({
+      get: async () => null,
+      getdel: async () => null,
+      set: async () => { throw new Error("ECONNREFUSED"); },
+      del: async () => 0,
+      incr: async () => 1,
+      expire: async () => 1,
+      sadd: async () => 1,
+      srem: async () => 0,
+      smembers: async () => [],
+      lpush: async () => 1,
+      ltrim: async () => "OK",
+      lrange: async () => [],
+    });
+    const res = await call(health, { headers: admin });
+    expect(res.statusCode).toBe(503);
+    expect(res.body.checks.kv).toMatchObject({ ok: false, error: "ECONNREFUSED" });
+  });
+});
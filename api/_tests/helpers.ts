@@ -0,0 +1,74 @@
+// api/_tests/helpers.ts
+// Kevyet VercelRequest/VercelResponse-korvikkeet handlerien testaamiseen.
+import { EventEmitter } from "node:events";
+import { readFileSync } from "node:fs";
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+
+export type MockRequestInit = {
+  method?: string;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  body?: unknown;
+  /** Raakabody, joka virtaa data/end-tapahtumina (esim. Stripe-webhook). */
+  raw?: string | Buffer;
+};
+
+export function mockRequest(init: MockRequestInit = {}): VercelRequest {
+  const req = new EventEmitter() as EventEmitter & Record<string, unknown>;
+  req.method = init.method ?? "GET";
+  req.headers = init.headers ?? {};
+  req.query = init.query ?? {};
+  req.body = init.body;
+  setImmediate(() => {
+    if (init.raw !== undefined) req.emit("data", Buffer.from(init.raw));
+    req.emit("end");
+  });
+  return req as unknown as VercelRequest;
+}
+
+export type MockResponse = VercelResponse & {
+  statusCode: number;
+  body: any;
+  headers: Record<string, string>;
+};
+
+export function mockResponse(): MockResponse {
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    headers: {} as Record<string, string>,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+    send(body: unknown) {
+      res.body = body;
+      return res;
+    },
+    end() {
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      res.headers[name.toLowerCase()] = String(value);
+      return res;
+    },
+  };
+  return res as unknown as MockResponse;
+}
+
+type Handler = (req: VercelRequest, res: VercelResponse) => unknown;
+
+export async function call(handler: Handler, init: MockRequestInit = {}): Promise<MockResponse> {
+  const res = mockResponse();
+  await handler(mockRequest(init), res);
+  return res;
+}
+
+/** Stripe-tapahtuma hakemistosta _tests/fixtures. */
+export function fixture<T = any>(name: string): T {
+  return JSON.parse(readFileSync(new URL(`./fixtures/${name}.json`, import.meta.url), "utf8"));
+}
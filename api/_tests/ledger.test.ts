@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type Stripe from "stripe";
+import { setKv, type KvStore } from "../_lib/kv";
+import { MemoryKv } from "../_lib/memory-kv";
+import { getLedgerEntry, listFailedEventIds } from "../_lib/ledger";
+import { processStripeEvent, type ProcessDeps } from "../_lib/process-event";
+import { MemoryTransport, setTransport } from "../_lib/email-transport";
+import { sendNotice } from "../_lib/mail";
+import { call, fixture } from "./helpers";
+
+process.env.STRIPE_SECRET_KEY = "sk_test_dummy";
+process.env.ADMIN_API_KEY = "admin-secret";
+
+const checkout = () => fixture<Stripe.Event>("checkout.session.completed");
+
+let mem: MemoryKv;
+let prev: KvStore;
+let sent: string[];
+let mail: MemoryTransport;
+let deps: ProcessDeps;
+beforeEach(() => {
+  mem = new MemoryKv();
+  prev = setKv(mem);
+  sent = [];
+  mail = new MemoryTransport();
+  setTransport(mail);
+  deps = {
+    lookup: { customerEmail: async () => null, chargeCustomer: async () => null },
+    sendNotice: async (n) => {
+      sent.push(n.template === "receipt" ? n.data.license : n.template);
+      return `mail_${sent.length}`;
+    },
+  };
+});
+afterEach(() => {
+  setKv(prev);
+  setTransport(null);
+});
+
+describe("tapahtumakirjanpito", () => {
+  it("uudelleentoimitettu tapahtuma ei luo toista lisenssiä eikä kuittia", async () => {
+    const first = await processStripeEvent(checkout(), deps);
+    expect(first.kind).toBe("done");
+    const again = await processStripeEvent(checkout(), deps);
+    expect(again.kind).toBe("duplicate");
+
+    expect(sent).toHaveLength(1);
+    expect(mem.keys("license:")).toHaveLength(1);
+    expect(await getLedgerEntry("evt_checkout_1")).toMatchObject({ status: "done", attempts: 1, action: "created" });
+  });
+
+  it("rinnakkainen käsittely torjutaan lukolla", async () => {
+    await mem.set("stripe-event-lock:evt_checkout_1", 1, { ex: 60 });
+    expect((await processStripeEvent(checkout(), deps)).kind).toBe("busy");
+    expect(sent).toHaveLength(0);
+  });
+
+  it("kuittivirhe kirjataan; uusi yritys lähettää vain kuitin", async () => {
+    const failing = { ...deps, sendNotice: async () => Promise.reject(new Error("smtp down")) };
+    const first = await processStripeEvent(checkout(), failing);
+    expect(first.kind).toBe("failed");
+    expect(first.entry).toMatchObject({ status: "failed", action: "created", error: "email: smtp down" });
+    expect(await listFailedEventIds()).toEqual(["evt_checkout_1"]);
+
+    const retry = await processStripeEvent(checkout(), deps);
+    expect(retry.kind).toBe("done");
+    expect(retry.entry!.attempts).toBe(2);
+    expect(sent).toEqual([first.entry!.license]);
+    expect(mem.keys("license:")).toHaveLength(1);
+    expect(await listFailedEventIds()).toEqual([]);
+  });
+
+  it("rinnakkain epäonnistuneet tapahtumat jäävät kaikki uudelleenajolistaan", async () => {
+    const failing = { ...deps, sendNotice: async () => Promise.reject(new Error("smtp down")) };
+    const events = ["evt_a", "evt_b", "evt_c"].map((id) => ({ ...checkout(), id }));
+    await Promise.all(events.map((e) => processStripeEvent(e, failing)));
+    expect((await listFailedEventIds()).sort()).toEqual(["evt_a", "evt_b", "evt_c"]);
+  });
+
+  it("lisenssivaiheen virhe ajetaan uudelleen", async () => {
+    const failing = { ...deps, lookup: { ...deps.lookup, chargeCustomer: async () => Promise.reject(new Error("stripe down")) } };
+    const dispute = fixture<Stripe.Event>("charge.dispute.created");
+    const first = await processStripeEvent(dispute, failing);
+    expect(first.entry).toMatchObject({ status: "failed", action: null, error: "license: stripe down" });
+
+    const retry = await processStripeEvent(dispute, deps);
+    expect(retry.entry).toMatchObject({ status: "done", action: "no-license" });
+  });
+});
+
+describe("stripe-replay", () => {
+  const replay = async () => (await import("../stripe-replay")).default;
+  const auth = { authorization: "Bearer admin-secret" };
+
+  it("vaatii ylläpidon tunnuksen", async () => {
+    expect((await call(await replay(), { method: "GET" })).statusCode).toBe(401);
+    expect((await call(await replay(), { method: "GET", headers: { authorization: "Bearer wrong" } })).statusCode).toBe(401);
+  });
+
+  it("listaa epäonnistuneet ja ajaa kuitin uudelleen", async () => {
+    mail.failNext = "rate limited";
+    await processStripeEvent(checkout(), { ...deps, sendNotice });
+
+    const list = await call(await replay(), { method: "GET", headers: auth });
+    expect(list.body.failed).toHaveLength(1);
+    expect(list.body.failed[0]).toMatchObject({
+      id: "evt_checkout_1",
+      error: "email: rate limited",
+      email: "Asiakas@Example.com",
+      template: "receipt",
+    });
+    expect(list.body.failed[0].event).toBeUndefined();
+
+    const res = await call(await replay(), { method: "POST", headers: auth, body: { eventId: "evt_checkout_1" } });
+    expect(res.body).toMatchObject({ ok: true, result: "done" });
+    expect(mail.sent.map((m) => m.to)).toEqual(["Asiakas@Example.com"]);
+
+    const again = await call(await replay(), { method: "POST", headers: auth, body: { eventId: "evt_checkout_1" } });
+    expect(again.body.result).toBe("duplicate");
+    expect(mail.sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setKv, type KvStore } from "../_lib/kv";
+import { MemoryKv } from "../_lib/memory-kv";
+import {
+  createLicense,
+  findLicenseByEmail,
+  getLicense,
+  isLicenseValid,
+  consumeCheckoutSession,
+  consumeLoginToken,
+  issueLoginToken,
+  linkCheckoutSession,
+  listLicenseKeys,
+  saveLicense,
+} from "../_lib/licenses";
+import verify from "../verify";
+import exchange from "../exchange";
+import claim from "../claim";
+import { call } from "./helpers";
+
+const DEVICE = { deviceId: "device-0001", deviceName: "Toimisto-PC" };
+
+let mem: MemoryKv;
+let prev: KvStore;
+beforeEach(() => {
+  mem = new MemoryKv();
+  prev = setKv(mem);
+});
+afterEach(() => {
+  setKv(prev);
+});
+
+describe("lisenssivarasto", () => {
+  it("löytää lisenssin avaimella ja sähköpostilla kirjainkoosta riippumatta", async () => {
+    const lic = await createLicense({ email: " Asiakas@Example.com " });
+    expect(lic.email).toBe("asiakas@example.com");
+    expect((await getLicense(lic.key.toLowerCase()))?.key).toBe(lic.key);
+    expect((await findLicenseByEmail("ASIAKAS@example.com"))?.key).toBe(lic.key);
+  });
+
+  it("voimassaolo riippuu tilasta ja päättymisajasta", async () => {
+    const lic = await createLicense({ email: "a@b.fi", expiresAt: 2000 });
+    expect(isLicenseValid(lic, 1000)).toBe(true);
+    expect(isLicenseValid(lic, 3000)).toBe(false);
+    expect(isLicenseValid({ ...lic, status: "revoked" }, 1000)).toBe(false);
+    expect(isLicenseValid({ ...lic, expiresAt: null })).toBe(true);
+  });
+
+  it("kirjautumistunnus vanhenee vuorokaudessa", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const token = await issueLoginToken(lic.key);
+    expect(mem.ttl(`token:${token}`)).toBe(60 * 60 * 24);
+  });
+
+  it("rinnakkaiset lunastukset: tunnus ja sessio kelpaavat vain kerran", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const token = await issueLoginToken(lic.key);
+    await linkCheckoutSession("cs_race", lic.key, token);
+
+    const logins = await Promise.all([consumeLoginToken(token), consumeLoginToken(token), consumeLoginToken(token)]);
+    expect(logins.filter((x) => x === lic.key)).toHaveLength(1);
+    const sessions = await Promise.all([consumeCheckoutSession("cs_race"), consumeCheckoutSession("cs_race")]);
+    expect(sessions.filter((x) => x !== null)).toHaveLength(1);
+  });
+
+  it("rinnakkaiset tilaukset päätyvät kaikki hakemistoon", async () => {
+    const created = await Promise.all(Array.from({ length: 5 }, (_, i) => createLicense({ email: `a${i}@b.fi` })));
+    const keys = await listLicenseKeys();
+    expect(keys.sort()).toEqual(created.map((l) => l.key).sort());
+  });
+});
+
+describe("verify", () => {
+  it("hyväksyy tallennetun avaimen", async () => {
+    const lic = await createLicense({ email: "a@b.fi", expiresAt: Date.now() + 60_000 });
+    const res = await call(verify, { method: "POST", body: { key: lic.key, ...DEVICE } });
+    expect(res.body).toMatchObject({ ok: true, status: "active", seats: 1 });
+  });
+
+  it("lukee avaimen myös raakabodysta", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const res = await call(verify, { method: "POST", raw: JSON.stringify({ key: lic.key, ...DEVICE }) });
+    expect(res.body.ok).toBe(true);
+  });
+
+  it("hylkää tuntemattoman, vanhentuneen ja perutun avaimen", async () => {
+    expect((await call(verify, { method: "POST", body: { key: "EI-OLE", ...DEVICE } })).body).toEqual({ ok: false, reason: "license" });
+
+    const old = await createLicense({ email: "a@b.fi", expiresAt: Date.now() - 1 });
+    expect((await call(verify, { method: "POST", body: { key: old.key, ...DEVICE } })).body.ok).toBe(false);
+
+    const lic = await createLicense({ email: "c@d.fi" });
+    await saveLicense({ ...lic, status: "revoked" });
+    const res = await call(verify, { method: "POST", body: { key: lic.key, ...DEVICE } });
+    expect(res.body).toEqual({ ok: false, reason: "revoked" });
+  });
+
+  it("vaatii POST-pyynnön", async () => {
+    expect((await call(verify, { method: "GET" })).statusCode).toBe(405);
+  });
+});
+
+describe("exchange ja claim", () => {
+  it("vaihtaa kirjautumistunnuksen lisenssiin kerran", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const token = await issueLoginToken(lic.key);
+
+    const first = await call(exchange, { query: { token } });
+    expect(first.body).toEqual({ ok: true, license: lic.key, token: null });
+    expect((await call(exchange, { query: { token } })).body.ok).toBe(false);
+  });
+
+  it("kiitossivu saa session lisenssin ja tunnuksen kerran", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const token = await issueLoginToken(lic.key);
+    await linkCheckoutSession("cs_test_1", lic.key, token);
+
+    const first = await call(claim, { query: { session_id: "cs_test_1" } });
+    expect(first.body).toEqual({ ok: true, license: lic.key, token });
+    expect((await call(claim, { query: { session_id: "cs_test_1" } })).body.ok).toBe(false);
+
+    // Claimin jälkeen tunnuksella saa yhä lisenssin selaimeen
+    expect((await call(exchange, { query: { token } })).body.license).toBe(lic.key);
+  });
+
+  it("puuttuva parametri on 400", async () => {
+    expect((await call(exchange, {})).statusCode).toBe(400);
+    expect((await call(claim, {})).statusCode).toBe(400);
+  });
+});
@@ -0,0 +1,71 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { Logger, logged, redact, setLogSink, type LogLine } from "../_lib/log";
+import { call } from "./helpers";
+
+process.env.LOG_LEVEL = "info";
+
+let logs: LogLine[];
+beforeEach(() => {
+  logs = [];
+  setLogSink((line) => logs.push(line));
+});
+afterEach(() => {
+  setLogSink(null);
+});
+
+describe("peittäminen", () => {
+  it("peittää tunnukset, avaimet ja sähköpostit", () => {
+    expect(
+      redact({
+        email: "Matti.Meikalainen@example.com",
+        to: "liisa@sahko.fi",
+        token: "0123456789ABCDEF",
+        license: "ABCD1234-5678",
+        nested: { authorization: "Bearer admin-secret", note: "lähetys osoitteeseen liisa@sahko.fi epäonnistui" },
+        seats: 3,
+      })
+    ).toEqual({
+      email: "M***@example.com",
+      to: "l***@sahko.fi",
+      token: "0123…",
+      license: "ABCD…",
+      nested: { authorization: "Bear…", note: "lähetys osoitteeseen l***@sahko.fi epäonnistui" },
+      seats: 3,
+    });
+    expect(redact(new Error("a@b.fi: bounce"))).toEqual({ name: "Error", message: "a***@b.fi: bounce" });
+  });
+
+  it("lapsiloki perii kentät ja taso suodattaa", () => {
+    const log = new Logger({ requestId: "r1" }).child({ route: "verify" });
+    log.debug("ohitetaan");
+    log.info("näkyy", { email: "a@b.fi" });
+    expect(logs).toHaveLength(1);
+    expect(logs[0]).toMatchObject({ level: "info", msg: "näkyy", requestId: "r1", route: "verify", email: "a***@b.fi" });
+  });
+});
+
+describe("logged", () => {
+  it("antaa pyyntötunnisteen ja kirjaa yhden rivin pyyntöä kohden", async () => {
+    const handler = logged("testi", async (_req, res, log) => {
+      log.info("työ");
+      res.status(201).json({ ok: true });
+    });
+    const res = await call(handler, { headers: { "x-vercel-id": "arn1::abc" } });
+    expect(res.headers["x-request-id"]).toBe("arn1::abc");
+    expect(logs.map((l) => [l.msg, l.requestId, l.route])).toEqual([
+      ["työ", "arn1::abc", "testi"],
+      ["request", "arn1::abc", "testi"],
+    ]);
+    expect(logs[1]).toMatchObject({ status: 201, method: "GET" });
+  });
+
+  it("odottamaton virhe → 500 ilman yksityiskohtia", async () => {
+    const handler = logged("testi", async () => {
+      throw new Error("KV_REST_API_TOKEN invalid for a@b.fi");
+    });
+    const res = await call(handler);
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toEqual({ ok: false, reason: "internal", requestId: res.headers["x-request-id"] });
+    expect(logs[0]).toMatchObject({ level: "error", msg: "request.failed", error: { message: "KV_REST_API_TOKEN invalid for a***@b.fi" } });
+  });
+});
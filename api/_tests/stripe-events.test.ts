@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type Stripe from "stripe";
+import { setKv, type KvStore } from "../_lib/kv";
+import { MemoryKv } from "../_lib/memory-kv";
+import { createLicense, findLicenseByEmail, isLicenseValid } from "../_lib/licenses";
+import { applyStripeEvent, GRACE_PERIOD_MS, RENEWAL_SLACK_MS, type StripeLookup } from "../_lib/stripe-events";
+import { fixture } from "./helpers";
+
+const T0 = 1735689600_000; // 2025-01-01, fixtureiden ensimmäinen jakso alkaa
+const PERIOD1_END = 1738281600_000;
+const PERIOD2_END = 1740873600_000;
+
+const lookup: StripeLookup = {
+  customerEmail: async () => null,
+  chargeCustomer: async (id) => (id === "ch_1" ? "cus_1" : null),
+};
+const apply = (name: string) => applyStripeEvent(fixture<Stripe.Event>(name), lookup);
+const current = async () => (await findLicenseByEmail("asiakas@example.com"))!;
+
+let mem: MemoryKv;
+let prev: KvStore;
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ["Date"] });
+  vi.setSystemTime(T0);
+  mem = new MemoryKv();
+  prev = setKv(mem);
+});
+afterEach(() => {
+  vi.useRealTimers();
+  setKv(prev);
+});
+
+async function subscribe() {
+  await apply("checkout.session.completed");
+  await apply("invoice.paid.create");
+  return current();
+}
+
+describe("tilauksen elinkaari", () => {
+  it("checkout ja ensimmäinen lasku tuottavat yhden lisenssin ja yhden kuitin", async () => {
+    const checkout = await apply("checkout.session.completed");
+    expect(checkout.action).toBe("created");
+    expect(checkout.notice).toMatchObject({ template: "receipt", email: "Asiakas@Example.com" });
+
+    const invoice = await apply("invoice.paid.create");
+    expect(invoice.action).toBe("activated");
+    expect(invoice.license!.key).toBe(checkout.license!.key);
+    expect(invoice.notice).toBeUndefined();
+    expect(invoice.license!.expiresAt).toBe(PERIOD1_END + RENEWAL_SLACK_MS);
+  });
+
+  it("ensimmäinen lasku ennen checkoutia ei luo lisenssiä vaan odottaa uudelleentoimitusta", async () => {
+    await expect(apply("invoice.paid.create")).rejects.toThrow(/checkout/);
+    const checkout = await apply("checkout.session.completed");
+    expect(checkout.action).toBe("created");
+    const invoice = await apply("invoice.paid.create");
+    expect(invoice.license!.key).toBe(checkout.license!.key);
+    expect(mem.keys("license:")).toEqual([`license:${checkout.license!.key}`]);
+  });
+
+  it("rinnakkaiset checkout ja ensimmäinen lasku tuottavat yhden avaimen", async () => {
+    const [checkout] = await Promise.allSettled([apply("checkout.session.completed"), apply("invoice.paid.create")]);
+    expect(checkout.status).toBe("fulfilled");
+    expect(mem.keys("license:")).toHaveLength(1);
+  });
+
+  it("maksu ei tee pysyvästä lisenssistä määräaikaista", async () => {
+    await createLicense({ email: "asiakas@example.com", customerId: "cus_1", expiresAt: null });
+    const checkout = await apply("checkout.session.completed");
+    expect(checkout.license!.expiresAt).toBeNull();
+    expect((await apply("invoice.paid.create")).license!.expiresAt).toBeNull();
+  });
+
+  it("uusiutuminen jatkaa samaa lisenssiä", async () => {
+    const lic = await subscribe();
+    vi.setSystemTime(PERIOD1_END + 3600_000);
+
+    const out = await apply("invoice.paid.cycle");
+    expect(out.action).toBe("renewed");
+    expect(out.license!.key).toBe(lic.key);
+    expect(out.license!.expiresAt).toBe(PERIOD2_END + RENEWAL_SLACK_MS);
+    expect(out.notice).toMatchObject({ template: "renewal", data: { license: lic.key } });
+  });
+
+  it("epäonnistunut maksu aloittaa armonajan, joka ei pitene uusintayrityksillä", async () => {
+    await subscribe();
+    const failedAt = PERIOD1_END + 3600_000;
+    vi.setSystemTime(failedAt);
+
+    const out = await apply("invoice.payment_failed");
+    expect(out.action).toBe("grace");
+    expect(out.license).toMatchObject({ status: "past_due", graceUntil: failedAt + GRACE_PERIOD_MS });
+
+    vi.setSystemTime(failedAt + 86400_000);
+    await apply("invoice.payment_failed");
+    await apply("customer.subscription.updated.past_due");
+    const lic = await current();
+    expect(lic.graceUntil).toBe(failedAt + GRACE_PERIOD_MS);
+
+    // Jakso + lisäaika päättyy, armonaika jatkuu
+    vi.setSystemTime(PERIOD1_END + RENEWAL_SLACK_MS + 1);
+    expect(isLicenseValid(await current())).toBe(true);
+    vi.setSystemTime(failedAt + GRACE_PERIOD_MS + 1);
+    expect(isLicenseValid(await current())).toBe(false);
+  });
+
+  it("maksu armonaikana palauttaa aktiiviseksi", async () => {
+    await subscribe();
+    vi.setSystemTime(PERIOD1_END + 3600_000);
+    await apply("invoice.payment_failed");
+    const out = await apply("invoice.paid.cycle");
+    expect(out.license).toMatchObject({ status: "active", graceUntil: null });
+  });
+
+  it("jakson lopussa päättyvä tilaus on voimassa jakson loppuun ilman lisäaikaa", async () => {
+    await subscribe();
+    const out = await apply("customer.subscription.updated.cancel_at_period_end");
+    expect(out.license).toMatchObject({ status: "active", expiresAt: PERIOD1_END });
+  });
+
+  it("poistettu tilaus päättää lisenssin", async () => {
+    await subscribe();
+    vi.setSystemTime(PERIOD1_END);
+    const out = await apply("customer.subscription.deleted");
+    expect(out.action).toBe("canceled");
+    expect(out.license).toMatchObject({ status: "canceled", expiresAt: PERIOD1_END });
+    expect(isLicenseValid(out.license!)).toBe(false);
+  });
+
+  it("hyvitys ja kiista peruvat lisenssin pysyvästi", async () => {
+    await subscribe();
+    const refund = await apply("charge.refunded");
+    expect(refund.license).toMatchObject({ status: "revoked", revokedReason: "refund" });
+    expect(isLicenseValid(refund.license!)).toBe(false);
+
+    // Myöhemmät tilaustapahtumat eivät palauta
+    expect((await apply("customer.subscription.updated.past_due")).action).toBe("ignored");
+    expect((await apply("invoice.paid.cycle")).action).toBe("ignored");
+    expect((await current()).status).toBe("revoked");
+  });
+
+  it("kiista haetaan maksun asiakkaan kautta", async () => {
+    await subscribe();
+    const out = await apply("charge.dispute.created");
+    expect(out.license).toMatchObject({ status: "revoked", revokedReason: "dispute" });
+  });
+
+  it("uusi osto perutun tilalle saa uuden avaimen", async () => {
+    const lic = await subscribe();
+    await apply("charge.refunded");
+    const out = await apply("checkout.session.completed");
+    expect(out.action).toBe("created");
+    expect(out.license!.key).not.toBe(lic.key);
+  });
+
+  it("osittainen hyvitys ja tuntematon tapahtuma ohitetaan", async () => {
+    await subscribe();
+    const partial = fixture<Stripe.Event>("charge.refunded");
+    (partial.data.object as Stripe.Charge).refunded = false;
+    expect((await applyStripeEvent(partial, lookup)).action).toBe("ignored");
+    expect((await applyStripeEvent({ ...partial, type: "customer.created" } as Stripe.Event, lookup)).action).toBe("ignored");
+    expect((await current()).status).toBe("active");
+  });
+});
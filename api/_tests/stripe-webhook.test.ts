@@ -0,0 +1,122 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from "vitest";
+import Stripe from "stripe";
+import { setKv, type KvStore } from "../_lib/kv";
+import { MemoryKv } from "../_lib/memory-kv";
+import { findLicenseByEmail, getLicense, isLicenseValid } from "../_lib/licenses";
+import { MemoryTransport, setTransport } from "../_lib/email-transport";
+import { setLogSink, type LogLine } from "../_lib/log";
+import { call } from "./helpers";
+
+const SECRET = "whsec_test";
+process.env.STRIPE_SECRET_KEY = "sk_test_dummy";
+process.env.STRIPE_WEBHOOK_SECRET = SECRET;
+process.env.EMAIL_FROM = "Tuntihintasi <no-reply@example.com>";
+process.env.LOG_LEVEL = "info";
+
+const stripe = new Stripe("sk_test_dummy", { apiVersion: "2024-06-20" });
+let handler: (typeof import("../stripe-webhook"))["default"];
+
+beforeAll(async () => {
+  handler = (await import("../stripe-webhook")).default;
+});
+
+let prev: KvStore;
+let mail: MemoryTransport;
+let logs: LogLine[];
+beforeEach(() => {
+  prev = setKv(new MemoryKv());
+  mail = new MemoryTransport();
+  setTransport(mail);
+  logs = [];
+  setLogSink((line) => logs.push(line));
+});
+afterEach(() => {
+  setKv(prev);
+  setTransport(null);
+  setLogSink(null);
+});
+
+function post(type: string, object: Record<string, unknown>, id = `evt_${type}`) {
+  const raw = JSON.stringify({ id, object: "event", type, data: { object } });
+  const sig = stripe.webhooks.generateTestHeaderString({ payload: raw, secret: SECRET });
+  return call(handler, { method: "POST", raw, headers: { "stripe-signature": sig } });
+}
+
+const checkout = {
+  id: "cs_test_1",
+  object: "checkout.session",
+  customer: "cus_1",
+  subscription: "sub_1",
+  customer_details: { email: "Asiakas@Example.com" },
+};
+
+describe("stripe-webhook", () => {
+  it("checkout luo lisenssin, joka verifioituu ja on haettavissa kiitossivulle", async () => {
+    const res = await post("checkout.session.completed", checkout);
+    expect(res.statusCode).toBe(200);
+    expect(res.body.ok).toBe(true);
+
+    const lic = await findLicenseByEmail("asiakas@example.com");
+    expect(lic).toMatchObject({ customerId: "cus_1", subscriptionId: "sub_1", status: "active" });
+    expect(isLicenseValid(lic!)).toBe(true);
+    expect(mail.sent[0].html).toContain(lic!.key);
+    expect(mail.sent[0].text).toContain(lic!.key);
+  });
+
+  it("uusiutuva lasku jatkaa samaa lisenssiä", async () => {
+    await post("checkout.session.completed", checkout);
+    const first = await findLicenseByEmail("asiakas@example.com");
+
+    await post("invoice.paid", { id: "in_1", object: "invoice", customer: "cus_1", subscription: "sub_1", customer_email: "asiakas@example.com" });
+    const after = await getLicense(first!.key);
+    expect(after!.key).toBe(first!.key);
+    expect(after!.expiresAt!).toBeGreaterThanOrEqual(first!.expiresAt!);
+  });
+
+  it("sama tapahtuma kahdesti: yksi lisenssi ja yksi kuitti", async () => {
+    await post("checkout.session.completed", checkout);
+    const again = await post("checkout.session.completed", checkout);
+    expect(again.statusCode).toBe(200);
+    expect(again.body.duplicate).toBe(true);
+    expect(mail.sent).toHaveLength(1);
+  });
+
+  it("hylkää väärän allekirjoituksen kertomatta syytä", async () => {
+    const res = await call(handler, { method: "POST", raw: "{}", headers: { "stripe-signature": "t=1,v1=x" } });
+    expect(res.statusCode).toBe(400);
+    expect(res.body).toEqual({ ok: false, reason: "signature" });
+    expect(logs.find((l) => l.msg === "webhook.signature-invalid")).toMatchObject({ level: "warn", route: "stripe-webhook" });
+  });
+
+  it("kirjaa käsittelyn lokiin ilman debug-otsakkeita ja sähköpostiosoitteita", async () => {
+    const res = await post("checkout.session.completed", checkout);
+    expect(res.body).toEqual({ ok: true, duplicate: false });
+    expect(Object.keys(res.headers)).toEqual(["x-request-id"]);
+
+    const processed = logs.find((l) => l.msg === "webhook.processed")!;
+    expect(processed).toMatchObject({ eventType: "checkout.session.completed", action: "created", requestId: res.headers["x-request-id"] });
+    expect(logs.find((l) => l.msg === "request")).toMatchObject({ status: 200, method: "POST" });
+    expect(JSON.stringify(logs)).not.toMatch(/asiakas@example\.com/i);
+  });
+
+  it("KV-virhe → 500 ilman sisäisiä yksityiskohtia, jolloin Stripe yrittää uudelleen", async () => {
+    setKv({
+      get: async () => { throw new Error("ECONNREFUSED kv.internal:6379"); },
+      getdel: async () => null,
+      set: async () => "OK",
+      del: async () => 0,
+      incr: async () => 1,
+      expire: async () => 1,
+      sadd: async () => 1,
+      srem: async () => 0,
+      smembers: async () => [],
+      lpush: async () => 1,
+      ltrim: async () => "OK",
+      lrange: async () => [],
+    });
+    const res = await post("checkout.session.completed", checkout);
+    expect(res.statusCode).toBe(500);
+    expect(res.body).toEqual({ ok: false, reason: "internal", requestId: res.headers["x-request-id"] });
+    expect(logs.find((l) => l.level === "error")).toMatchObject({ msg: "request.failed", error: { message: "ECONNREFUSED kv.internal:6379" } });
+  });
+});
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { setKv, type KvStore } from "../_lib/kv";
+import { MemoryKv } from "../_lib/memory-kv";
+import { createLicense, saveLicense } from "../_lib/licenses";
+import { getSync, putSync } from "../_lib/sync";
+import sync from "../sync";
+import { call } from "./helpers";
+
+let prev: KvStore;
+beforeEach(() => {
+  prev = setKv(new MemoryKv());
+});
+afterEach(() => {
+  setKv(prev);
+});
+
+const data = (name: string) => ({ activeId: "s1", scenarios: [{ id: "s1", name, inputs: { hourly_wage: 20 } }] });
+const put = (key: string, name: string, updatedAt: number, deviceName = "Toimisto") =>
+  call(sync, { method: "POST", body: { key, action: "put", data: data(name), updatedAt, deviceName } });
+
+describe("syötesarjojen synkronointi", () => {
+  it("tallentaa lisenssikohtaisesti ja palauttaa toiselle laitteelle", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    expect((await call(sync, { method: "POST", body: { key: lic.key, action: "get" } })).body).toEqual({ ok: true, record: null });
+
+    const saved = await put(lic.key, "Työmaa", 1000);
+    expect(saved.statusCode).toBe(200);
+    expect(saved.body.record).toMatchObject({ updatedAt: 1000, deviceName: "Toimisto" });
+
+    const got = await call(sync, { method: "POST", body: { key: lic.key.toLowerCase(), action: "get" } });
+    expect(got.body.record.data.scenarios[0].name).toBe("Työmaa");
+  });
+
+  it("viimeisin muutos voittaa: vanhempi tallennus hylätään ja palvelimen versio palautetaan", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    await put(lic.key, "Tabletti", 2000, "Tabletti");
+    const stale = await put(lic.key, "Toimisto", 1500);
+    expect(stale.statusCode).toBe(409);
+    expect(stale.body).toMatchObject({ ok: false, reason: "stale", record: { updatedAt: 2000, deviceName: "Tabletti" } });
+
+    expect((await put(lic.key, "Toimisto", 2500)).statusCode).toBe(200);
+  });
+
+  it("rinnakkaisista tallennuksista uusin jää voimaan", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const res = await Promise.all([putSync(lic.key, data("uusi"), 2000, "A"), putSync(lic.key, data("vanha"), 1000, "B")]);
+    expect(res.map((r) => r.ok)).toEqual([true, false]);
+    expect((await getSync(lic.key))!.updatedAt).toBe(2000);
+  });
+
+  it("tulevaisuuden kellonaika rajataan vastaanottohetkeen", async () => {
+    const lic = await createLicense({ email: "a@b.fi" });
+    const res = await putSync(lic.key, data("x"), 10_000, "Laite", 5_000);
+    expect(res.ok && res.record.updatedAt).toBe(5_000);
+  });
+
+  it("vaatii voimassa olevan lisenssin ja kelvollisen datan", async () => {
+    expect((await put("EI-OLE", "x", 1)).body).toEqual({ ok: false, reason: "license" });
+
+    const lic = await createLicense({ email: "a@b.fi" });
+    await saveLicense({ ...lic, status: "revoked" });
+    expect((await put(lic.key, "x", 1)).body.reason).toBe("license");
+
+    const bad = await call(sync, { method: "POST", body: { key: lic.key, action: "put", data: { scenarios: [] }, updatedAt: 1 } });
+    expect(bad.body.reason).toBe("data");
+    const big = { scenarios: [{ note: "x".repeat(200 * 1024) }] };
+    expect((await call(sync, { method: "POST", body: { key: lic.key, action: "put", data: big, updatedAt: 1 } })).body.reason).toBe("body");
+  });
+});
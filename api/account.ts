@@ -0,0 +1,34 @@
+// api/account.ts
+// Asiakkaan tilinäkymä: POST { key } → tilaus, voimassaolo ja laitteet.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { listDevices } from './_lib/devices';
+import { guarded, invalid, ok } from './_lib/guard';
+import { getLicense, isLicenseKey, isLicenseValid } from './_lib/licenses';
+
+export default guarded(
+  {
+    name: 'account',
+    method: 'POST',
+    fields: ['key'],
+    parse: (b) => (isLicenseKey(b.key) ? ok({ key: b.key }) : invalid('key')),
+    limits: { ip: { max: 30, windowS: 60 }, subject: { max: 20, windowS: 60 } },
+    subject: (i) => i.key.trim().toUpperCase(),
+  },
+  async (_req: VercelRequest, res: VercelResponse, { input, fail }) => {
+    const lic = await getLicense(input.key);
+    if (!lic) { await fail('license', input.key); res.status(200).json({ ok: false, reason: 'license' }); return; }
+
+    res.status(200).json({
+      ok: true,
+      email: lic.email,
+      status: lic.status,
+      valid: isLicenseValid(lic),
+      plan: lic.seats > 1 ? 'team' : 'single',
+      seats: lic.seats,
+      expiresAt: lic.expiresAt,
+      graceUntil: lic.graceUntil,
+      billing: !!lic.customerId,
+      devices: await listDevices(lic.key),
+    });
+  }
+);
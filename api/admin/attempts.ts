@@ -0,0 +1,17 @@
+// api/admin/attempts.ts
+// Ylläpito: julkisten rajapintojen epäonnistuneet yritykset (GET), uusin ensin.
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { listAttempts } from "../_lib/attempts";
+import { requireAdmin } from "../_lib/auth";
+import { logged } from "../_lib/log";
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!requireAdmin(req, res)) return;
+  if (req.method !== "GET") {
+    res.status(405).json({ ok: false, reason: "method" });
+    return;
+  }
+  res.status(200).json({ ok: true, attempts: await listAttempts() });
+}
+
+export default logged("admin/attempts", handler);
@@ -0,0 +1,23 @@
+// api/admin/export.ts
+// Ylläpito: asiakasluettelo CSV-tiedostona (GET), uusin ensin.
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { customersCsv, loadAllLicenses } from "../_lib/admin";
+import { requireAdmin } from "../_lib/auth";
+import { logged } from "../_lib/log";
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!requireAdmin(req, res)) return;
+  if (req.method !== "GET") {
+    res.status(405).json({ ok: false, reason: "method" });
+    return;
+  }
+
+  const recs = (await loadAllLicenses()).sort((a, b) => b.createdAt - a.createdAt);
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="asiakkaat-${date}.csv"`);
+  res.setHeader("Cache-Control", "no-store");
+  res.status(200).send(customersCsv(recs));
+}
+
+export default logged("admin/export", handler);
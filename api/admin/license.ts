@@ -0,0 +1,76 @@
+// api/admin/license.ts
+// Ylläpito: yksittäinen lisenssi. GET ?key= → tiedot, laitteet, Stripe-tapahtumat ja ylläpitohistoria.
+// POST { key, action: "extend", days } | { key, action: "revoke", reason } | { key, action: "resend-receipt" }.
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { extendLicense, resendReceipt, revokeLicense } from "../_lib/admin";
+import { requireAdmin } from "../_lib/auth";
+import { listDevices } from "../_lib/devices";
+import { listAdminActions, listLicenseEvents } from "../_lib/history";
+import { getLedgerEntry, ledgerSummary } from "../_lib/ledger";
+import { getLicense, isLicenseValid, type LicenseRecord } from "../_lib/licenses";
+import { logged, type Logger } from "../_lib/log";
+
+const MAX_DAYS = 3650;
+
+async function details(lic: LicenseRecord) {
+  const entries = await Promise.all((await listLicenseEvents(lic.key)).map(getLedgerEntry));
+  return {
+    ok: true,
+    license: { ...lic, valid: isLicenseValid(lic) },
+    devices: await listDevices(lic.key),
+    // Uusin ensin; kirjanpidosta vanhentuneet (yli 90 vrk) jäävät pois
+    events: entries.filter((e) => e !== null).map((e) => ledgerSummary(e!)),
+    audit: await listAdminActions(lic.key),
+  };
+}
+
+async function handler(req: VercelRequest, res: VercelResponse, log: Logger) {
+  if (!requireAdmin(req, res)) return;
+  if (req.method !== "GET" && req.method !== "POST") {
+    res.status(405).json({ ok: false, reason: "method" });
+    return;
+  }
+
+  const source = req.method === "GET" ? req.query : req.body ?? {};
+  const lic = typeof source.key === "string" ? await getLicense(source.key) : null;
+  if (!lic) {
+    res.status(404).json({ ok: false, reason: "not-found" });
+    return;
+  }
+  if (req.method === "GET") {
+    res.status(200).json(await details(lic));
+    return;
+  }
+
+  const body = req.body;
+  let result;
+  if (body.action === "extend") {
+    if (!Number.isInteger(body.days) || body.days < 1 || body.days > MAX_DAYS) {
+      res.status(400).json({ ok: false, reason: "days" });
+      return;
+    }
+    result = await extendLicense(lic, body.days);
+  } else if (body.action === "revoke") {
+    result = await revokeLicense(lic, typeof body.reason === "string" ? body.reason.trim().slice(0, 200) : "");
+  } else if (body.action === "resend-receipt") {
+    try {
+      result = await resendReceipt(lic);
+    } catch (e) {
+      log.error("admin.resend-failed", { license: lic.key, error: e });
+      res.status(502).json({ ok: false, reason: "email" });
+      return;
+    }
+  } else {
+    res.status(400).json({ ok: false, reason: "action" });
+    return;
+  }
+
+  if (!result.ok) {
+    res.status(409).json(result);
+    return;
+  }
+  log.info("admin.change", { license: lic.key, action: body.action });
+  res.status(200).json(await details((await getLicense(lic.key))!));
+}
+
+export default logged("admin/license", handler);
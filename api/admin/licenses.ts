@@ -0,0 +1,55 @@
+// api/admin/licenses.ts
+// Ylläpito: lisenssihaku GET ?q=<sähköposti tai avain> ja käsin myöntäminen
+// POST { email, days (null = ei vanhene), seats, locale, sendReceipt }.
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { issueLicense, searchLicenses } from "../_lib/admin";
+import { requireAdmin } from "../_lib/auth";
+import { logged } from "../_lib/log";
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_DAYS = 3650;
+const MAX_SEATS = 100;
+
+const isCount = (n: unknown, max: number): n is number => Number.isInteger(n) && (n as number) >= 1 && (n as number) <= max;
+
+async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!requireAdmin(req, res)) return;
+
+  if (req.method === "GET") {
+    const q = typeof req.query.q === "string" ? req.query.q : "";
+    res.status(200).json({ ok: true, licenses: await searchLicenses(q) });
+    return;
+  }
+  if (req.method !== "POST") {
+    res.status(405).json({ ok: false, reason: "method" });
+    return;
+  }
+
+  const body = req.body ?? {};
+  const email = typeof body.email === "string" ? body.email.trim() : "";
+  if (!EMAIL_RE.test(email)) {
+    res.status(400).json({ ok: false, reason: "email" });
+    return;
+  }
+  const days = body.days ?? null;
+  if (days !== null && !isCount(days, MAX_DAYS)) {
+    res.status(400).json({ ok: false, reason: "days" });
+    return;
+  }
+  const seats = body.seats ?? 1;
+  if (!isCount(seats, MAX_SEATS)) {
+    res.status(400).json({ ok: false, reason: "seats" });
+    return;
+  }
+
+  const result = await issueLicense({
+    email,
+    days,
+    seats,
+    locale: body.locale === "en" ? "en" : "fi",
+    sendReceipt: body.sendReceipt === true,
+  });
+  res.status(result.ok ? 201 : 409).json(result);
+}
+
+export default logged("admin/licenses", handler);
@@ -1,17 +1,23 @@
 // api/claim.ts
+// Kiitossivu hakee checkout-sessiolle luodun kirjautumistunnuksen: GET ?session_id=cs_...
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { kv } from '@vercel/kv';
+import { consumeCheckoutSession } from './_lib/licenses';
+import { guarded, invalid, isText, ok } from './_lib/guard';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method !== 'GET') { res.status(405).json({ ok: false, reason: 'method' }); return; }
+export default guarded(
+  {
+    name: 'claim',
+    method: 'GET',
+    fields: ['session_id'],
+    parse: (q) => (isText(q.session_id, 255, /^cs_[A-Za-z0-9_]+$/) ? ok({ sessionId: q.session_id }) : invalid('session_id')),
+    // Kiitossivu kysyy muutaman kerran, jos webhook on vielä matkalla
+    limits: { ip: { max: 30, windowS: 60 }, subject: { max: 10, windowS: 60 } },
+    subject: (i) => i.sessionId,
+  },
+  async (_req: VercelRequest, res: VercelResponse, { input, fail }) => {
+    const data = await consumeCheckoutSession(input.sessionId);
+    if (!data) { await fail('session', input.sessionId); res.status(200).json({ ok: false }); return; }
 
-  const session_id = (req.query?.session_id as string) || '';
-  if (!session_id) { res.status(400).json({ ok: false, reason: 'missing session_id' }); return; }
-
-  const data = await kv.get<string>(`session:${session_id}`);
-  if (!data) { res.status(200).json({ ok: false }); return; }
-
-  const { token, license } = JSON.parse(data);
-  await kv.del(`session:${session_id}`);
-  res.status(200).json({ ok: true, token, license });
-}
+    res.status(200).json({ ok: true, token: data.token, license: data.license });
+  }
+);
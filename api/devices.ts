@@ -0,0 +1,39 @@
+// api/devices.ts
+// Lisenssin laitteet: POST { key, action: "list" } tai { key, action: "release", deviceId }.
+// Lisenssiavain riittää tunnisteeksi, jotta kadonneen laitteen paikan voi vapauttaa toiselta laitteelta.
+// Vapautuksia on rajattu viikossa (reason "release-limit", retryAfter sekunteina).
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getLicense, isLicenseKey } from './_lib/licenses';
+import { isDeviceId, listDevices, releaseDevice } from './_lib/devices';
+import { guarded, invalid, ok, type Parsed } from './_lib/guard';
+
+type Input = { key: string; action: 'list' } | { key: string; action: 'release'; deviceId: string };
+
+export default guarded(
+  {
+    name: 'devices',
+    method: 'POST',
+    fields: ['key', 'action', 'deviceId'],
+    parse: (b): Parsed<Input> => {
+      if (!isLicenseKey(b.key)) return invalid('key');
+      if (b.action === 'list') return ok({ key: b.key, action: 'list' });
+      if (b.action !== 'release') return invalid('action');
+      if (!isDeviceId(b.deviceId)) return invalid('deviceId');
+      return ok({ key: b.key, action: 'release', deviceId: b.deviceId });
+    },
+    limits: { ip: { max: 30, windowS: 60 }, subject: { max: 20, windowS: 60 } },
+    subject: (i) => i.key.trim().toUpperCase(),
+  },
+  async (_req: VercelRequest, res: VercelResponse, { input, fail }) => {
+    const lic = await getLicense(input.key);
+    if (!lic) { await fail('license', input.key); res.status(200).json({ ok: false, reason: 'license' }); return; }
+
+    if (input.action === 'list') {
+      res.status(200).json({ ok: true, seats: lic.seats, devices: await listDevices(lic.key) });
+      return;
+    }
+    const released = await releaseDevice(lic, input.deviceId);
+    if (!released.ok) await fail('release-limit', input.key);
+    res.status(200).json({ ...released, seats: lic.seats });
+  }
+);
@@ -1,17 +1,32 @@
 // api/exchange.ts
+// Kertakäyttöisen kirjautumistunnuksen vaihto lisenssiavaimeen: GET ?token=&deviceId=&deviceName=.
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { kv } from '@vercel/kv';
+import { consumeLoginToken, getLicense, isLoginToken } from './_lib/licenses';
+import { cleanDeviceName, isDeviceId } from './_lib/devices';
+import { entitleDevice } from './_lib/entitlement';
+import { guarded, invalid, ok } from './_lib/guard';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method !== 'GET') { res.status(405).json({ ok: false, reason: 'method' }); return; }
+export default guarded(
+  {
+    name: 'exchange',
+    method: 'GET',
+    fields: ['token', 'deviceId', 'deviceName'],
+    parse: (q) => {
+      if (!isLoginToken(q.token)) return invalid('token');
+      if (q.deviceId !== undefined && !isDeviceId(q.deviceId)) return invalid('device');
+      if (q.deviceName !== undefined && typeof q.deviceName !== 'string') return invalid('deviceName');
+      return ok({ token: q.token, deviceId: q.deviceId as string | undefined, deviceName: cleanDeviceName(q.deviceName) });
+    },
+    // Tunnus on kertakäyttöinen, joten tiukka IP-raja riittää arvailua vastaan
+    limits: { ip: { max: 20, windowS: 60 } },
+  },
+  async (_req: VercelRequest, res: VercelResponse, { input, fail }) => {
+    const license = await consumeLoginToken(input.token); // kertakäyttöinen
+    if (!license) { await fail('token', input.token); res.status(200).json({ ok: false }); return; }
 
-  const token = (req.query?.token as string) || '';
-  if (!token) { res.status(400).json({ ok: false, reason: 'missing token' }); return; }
-
-  const data = await kv.get<string>(`token:${token}`);
-  if (!data) { res.status(200).json({ ok: false }); return; }
-
-  const { license } = JSON.parse(data);
-  await kv.del(`token:${token}`); // kertakäyttöinen
-  res.status(200).json({ ok: true, license });
-}
+    // Laitetunnisteen kanssa vaihdetaan samalla käyttöoikeustunnisteeseen (muuten selain kutsuu /api/verify)
+    const lic = input.deviceId ? await getLicense(license) : null;
+    const ent = lic ? await entitleDevice(lic, input.deviceId!, input.deviceName) : null;
+    res.status(200).json({ ok: true, license, token: ent?.ok ? ent.token : null });
+  }
+);
@@ -0,0 +1,73 @@
+// api/health.ts
+// Terveystarkistus: GET → KV:n luku ja kirjoitus sekä pakollisten asetusten olemassaolo.
+// 200 = kunnossa, 503 = jokin puuttuu. Puuttuvien muuttujien nimet näytetään vain ylläpidolle.
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { isAdmin } from "./_lib/auth";
+import { privateKey } from "./_lib/entitlement";
+import { getKv } from "./_lib/kv";
+import { logged, type Logger } from "./_lib/log";
+
+type Check = { ok: boolean; ms?: number; missing?: string[]; error?: string };
+
+const REQUIRED_ENV = [
+  "STRIPE_SECRET_KEY",
+  "STRIPE_WEBHOOK_SECRET",
+  "KV_REST_API_URL",
+  "KV_REST_API_TOKEN",
+  "APP_URL",
+  "ADMIN_API_KEY",
+  "ENTITLEMENT_PRIVATE_KEY",
+  "EMAIL_FROM",
+] as const;
+
+function missingConfig(env: NodeJS.ProcessEnv = process.env): string[] {
+  const missing: string[] = REQUIRED_ENV.filter((k) => !env[k]);
+  const transport = env.EMAIL_TRANSPORT || "resend";
+  if (transport === "resend" && !env.RESEND_API_KEY) missing.push("RESEND_API_KEY");
+  return missing;
+}
+
+async function checkKv(): Promise<Check> {
+  const started = Date.now();
+  try {
+    const value = String(started);
+    await getKv().set("health:ping", value, { ex: 60 });
+    const ok = (await getKv().get<string>("health:ping")) === value;
+    return { ok, ms: Date.now() - started, error: ok ? undefined : "read-back" };
+  } catch (e) {
+    return { ok: false, ms: Date.now() - started, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+function checkConfig(): Check {
+  const missing = missingConfig();
+  if (!missing.includes("ENTITLEMENT_PRIVATE_KEY")) {
+    try {
+      privateKey();
+    } catch {
+      return { ok: false, missing, error: "ENTITLEMENT_PRIVATE_KEY" };
+    }
+  }
+  return { ok: missing.length === 0, missing };
+}
+
+async function handler(req: VercelRequest, res: VercelResponse, log: Logger) {
+  if (req.method !== "GET") {
+    res.setHeader("Allow", "GET");
+    res.status(405).json({ ok: false, reason: "method" });
+    return;
+  }
+
+  const checks = { kv: await checkKv(), config: checkConfig() };
+  const ok = checks.kv.ok && checks.config.ok;
+  if (!ok) log.error("health.failed", { checks });
+
+  res.setHeader("Cache-Control", "no-store");
+  res.status(ok ? 200 : 503).json(
+    isAdmin(req)
+      ? { ok, checks }
+      : { ok, checks: { kv: { ok: checks.kv.ok }, config: { ok: checks.config.ok } } }
+  );
+}
+
+export default logged("health", handler);
@@ -0,0 +1,35 @@
+// api/login.ts
+// Kirjautumislinkki sähköpostiin: POST { email }. Vastaus on sama riippumatta siitä, löytyykö
+// osoitteelle lisenssiä, jottei rajapinnalla voi selvittää asiakkaita.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { appUrl } from './_lib/app-url';
+import { guarded, invalid, isText, ok } from './_lib/guard';
+import { findLicenseByEmail, issueLoginToken, MAGIC_LINK_TTL_S, normalizeEmail } from './_lib/licenses';
+import { sendEmail } from './_lib/mail';
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export default guarded(
+  {
+    name: 'login',
+    method: 'POST',
+    fields: ['email'],
+    parse: (b) => {
+      const email = typeof b.email === 'string' ? b.email.trim() : '';
+      return isText(email, 254, EMAIL_RE) ? ok({ email }) : invalid('email');
+    },
+    // Raja estää myös viestitulvan yhteen osoitteeseen
+    limits: { ip: { max: 10, windowS: 60 * 60 }, subject: { max: 3, windowS: 15 * 60 } },
+    subject: (i) => normalizeEmail(i.email),
+  },
+  async (_req: VercelRequest, res: VercelResponse, { input }) => {
+    const lic = await findLicenseByEmail(input.email);
+    if (lic && lic.status !== 'revoked') {
+      const token = await issueLoginToken(lic.key, MAGIC_LINK_TTL_S);
+      // Lähetysvirhe ei näy vastauksessa (sama syy kuin yllä)
+      const data = { loginUrl: appUrl(`/?token=${token}`), ttlMinutes: MAGIC_LINK_TTL_S / 60 };
+      await sendEmail(lic.email, 'recovery', data, lic.locale).catch(() => null);
+    }
+    res.status(200).json({ ok: true });
+  }
+);
@@ -0,0 +1,30 @@
+// api/portal.ts
+// Stripen asiakasportaali (laskut, maksutapa, tilauksen peruminen): POST { key } → { url }.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { appUrl } from './_lib/app-url';
+import { guarded, invalid, ok } from './_lib/guard';
+import { getLicense, isLicenseKey } from './_lib/licenses';
+import { getStripe } from './_lib/stripe';
+
+export default guarded(
+  {
+    name: 'portal',
+    method: 'POST',
+    fields: ['key'],
+    parse: (b) => (isLicenseKey(b.key) ? ok({ key: b.key }) : invalid('key')),
+    limits: { ip: { max: 10, windowS: 60 }, subject: { max: 5, windowS: 60 } },
+    subject: (i) => i.key.trim().toUpperCase(),
+  },
+  async (_req: VercelRequest, res: VercelResponse, { input, fail }) => {
+    const lic = await getLicense(input.key);
+    if (!lic) { await fail('license', input.key); res.status(200).json({ ok: false, reason: 'license' }); return; }
+    if (!lic.customerId) { res.status(200).json({ ok: false, reason: 'no-customer' }); return; }
+
+    try {
+      const session = await getStripe().billingPortal.sessions.create({ customer: lic.customerId, return_url: appUrl('/') });
+      res.status(200).json({ ok: true, url: session.url });
+    } catch {
+      res.status(502).json({ ok: false, reason: 'stripe' });
+    }
+  }
+);
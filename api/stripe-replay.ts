@@ -0,0 +1,49 @@
+// api/stripe-replay.ts
+// Ylläpito: epäonnistuneiden Stripe-tapahtumien listaus (GET) ja uudelleenajo (POST { eventId }).
+// Kirjanpidosta puuttuva tapahtuma haetaan Stripestä (säilyy siellä 30 vrk).
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { requireAdmin } from "./_lib/auth";
+import { getLedgerEntry, ledgerSummary, listFailedEventIds } from "./_lib/ledger";
+import { logged, type Logger } from "./_lib/log";
+import { sendNotice } from "./_lib/mail";
+import { processStripeEvent } from "./_lib/process-event";
+import { getStripe } from "./_lib/stripe";
+import { stripeLookup } from "./_lib/stripe-events";
+
+async function handler(req: VercelRequest, res: VercelResponse, log: Logger) {
+  if (!requireAdmin(req, res)) return;
+
+  if (req.method === "GET") {
+    const entries = await Promise.all((await listFailedEventIds()).map(getLedgerEntry));
+    res.status(200).json({ ok: true, failed: entries.filter((e) => e !== null).map((e) => ledgerSummary(e!)) });
+    return;
+  }
+  if (req.method !== "POST") {
+    res.status(405).json({ ok: false, reason: "method" });
+    return;
+  }
+
+  const eventId = typeof req.body?.eventId === "string" ? req.body.eventId : "";
+  if (!eventId.startsWith("evt_")) {
+    res.status(400).json({ ok: false, reason: "missing eventId" });
+    return;
+  }
+
+  const stripe = getStripe();
+  const event = (await getLedgerEntry(eventId))?.event ?? (await stripe.events.retrieve(eventId).catch(() => null));
+  if (!event) {
+    res.status(404).json({ ok: false, reason: "not-found" });
+    return;
+  }
+
+  const result = await processStripeEvent(event, { lookup: stripeLookup(stripe), sendNotice });
+  log.info("replay", { eventId, eventType: event.type, result: result.kind, error: result.entry?.error ?? null });
+  const status = result.kind === "busy" ? 409 : 200;
+  res.status(status).json({
+    ok: result.kind === "done" || result.kind === "duplicate",
+    result: result.kind,
+    entry: result.entry ? ledgerSummary(result.entry) : null,
+  });
+}
+
+export default logged("stripe-replay", handler);
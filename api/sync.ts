@@ -0,0 +1,43 @@
+// api/sync.ts
+// Syötesarjojen synkronointi laitteiden välillä: POST { key, action: "get" }
+// tai { key, action: "put", data, updatedAt, deviceName }. Uudempi palvelinversio → 409 stale.
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { cleanDeviceName } from './_lib/devices';
+import { guarded, invalid, ok, type Parsed } from './_lib/guard';
+import { getLicense, isLicenseKey, isLicenseValid } from './_lib/licenses';
+import { MAX_SYNC_BYTES, getSync, isSyncData, putSync, type SyncRecord } from './_lib/sync';
+
+type Input =
+  | { key: string; action: 'get' }
+  | { key: string; action: 'put'; data: SyncRecord['data']; updatedAt: number; deviceName: string };
+
+export default guarded(
+  {
+    name: 'sync',
+    method: 'POST',
+    fields: ['key', 'action', 'data', 'updatedAt', 'deviceName'],
+    parse: (b): Parsed<Input> => {
+      if (!isLicenseKey(b.key)) return invalid('key');
+      if (b.action === 'get') return ok({ key: b.key, action: 'get' });
+      if (b.action !== 'put') return invalid('action');
+      if (!isSyncData(b.data)) return invalid('data');
+      if (typeof b.updatedAt !== 'number' || !Number.isFinite(b.updatedAt) || b.updatedAt <= 0) return invalid('updatedAt');
+      return ok({ key: b.key, action: 'put', data: b.data, updatedAt: b.updatedAt, deviceName: cleanDeviceName(b.deviceName) });
+    },
+    limits: { ip: { max: 60, windowS: 60 }, subject: { max: 30, windowS: 60 } },
+    subject: (i) => i.key.trim().toUpperCase(),
+    maxBody: MAX_SYNC_BYTES,
+  },
+  async (_req: VercelRequest, res: VercelResponse, { input, fail }) => {
+    const lic = await getLicense(input.key);
+    if (!lic) { await fail('license', input.key); res.status(200).json({ ok: false, reason: 'license' }); return; }
+    if (!isLicenseValid(lic)) { res.status(200).json({ ok: false, reason: 'license' }); return; }
+
+    if (input.action === 'get') {
+      res.status(200).json({ ok: true, record: await getSync(lic.key) });
+      return;
+    }
+    const result = await putSync(lic.key, input.data, input.updatedAt, input.deviceName);
+    res.status(result.ok ? 200 : 409).json(result);
+  }
+);
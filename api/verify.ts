@@ -1,25 +1,30 @@
-
+// api/verify.ts
+// Lisenssin tarkistus ja laitteen aktivointi: POST { key, deviceId, deviceName }.
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { kv } from '@vercel/kv';
+import { getLicense, isLicenseKey } from './_lib/licenses';
+import { cleanDeviceName, isDeviceId } from './_lib/devices';
+import { entitleDevice } from './_lib/entitlement';
+import { guarded, invalid, ok } from './_lib/guard';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  if (req.method !== 'POST') {
-    res.status(405).json({ ok: false, reason: 'method' }); return;
-  }
-  let key: string | undefined;
-  try {
-    const body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
-    key = body?.key;
-  } catch {}
-  if (!key) {
-    let raw = ''; await new Promise<void>((resolve)=>{ req.on('data',(c)=> raw += c); req.on('end',()=>resolve()); });
-    try { key = JSON.parse(raw || '{}').key; } catch {}
-  }
-  if (!key) { res.status(200).json({ ok: false, reason: 'missing' }); return; }
+export default guarded(
+  {
+    name: 'verify',
+    method: 'POST',
+    fields: ['key', 'deviceId', 'deviceName'],
+    parse: (b) => {
+      if (!isLicenseKey(b.key)) return invalid('key');
+      if (!isDeviceId(b.deviceId)) return invalid('device');
+      if (b.deviceName !== undefined && typeof b.deviceName !== 'string') return invalid('deviceName');
+      return ok({ key: b.key, deviceId: b.deviceId, deviceName: cleanDeviceName(b.deviceName) });
+    },
+    limits: { ip: { max: 60, windowS: 60 }, subject: { max: 20, windowS: 60 } },
+    subject: (i) => i.key.trim().toUpperCase(),
+  },
+  async (_req: VercelRequest, res: VercelResponse, { input, fail }) => {
+    const lic = await getLicense(input.key);
+    if (!lic) { await fail('license', input.key); res.status(200).json({ ok: false, reason: 'license' }); return; }
 
-  const data = await kv.get<string>(`license:${key}`);
-  if (!data) { res.status(200).json({ ok: false }); return; }
-  const lic = JSON.parse(data);
-  if (lic.active !== true) { res.status(200).json({ ok: false }); return; }
-  res.status(200).json({ ok: true });
-}
+    // Laitepaikka (uusi laite vie paikan) ja allekirjoitettu käyttöoikeustunniste
+    res.status(200).json(await entitleDevice(lic, input.deviceId, input.deviceName));
+  }
+);
@@ -0,0 +1,106 @@
+// --- Ylläpidon rajapinnan kutsut (/api/admin/*). Tunnisteena ADMIN_API_KEY, ei lisenssiavain. ---
+import type { Device } from "./licenseApi";
+
+const SS_KEY = "tuntihinta_admin_key";
+
+/** Ylläpidon avain säilyy vain välilehden ajan. */
+export function adminKey(): string {
+  return sessionStorage.getItem(SS_KEY) || "";
+}
+export function setAdminKey(key: string | null) {
+  if (key) sessionStorage.setItem(SS_KEY, key);
+  else sessionStorage.removeItem(SS_KEY);
+}
+
+export type AdminLicense = {
+  key: string;
+  email: string;
+  customerId: string | null;
+  subscriptionId: string | null;
+  status: "active" | "past_due" | "canceled" | "revoked";
+  expiresAt: number | null;
+  graceUntil: number | null;
+  revokedReason: string | null;
+  seats: number;
+  locale: "fi" | "en";
+  createdAt: number;
+  updatedAt: number;
+  valid: boolean;
+};
+
+export type LicenseEvent = {
+  id: string;
+  type: string;
+  status: "processing" | "done" | "failed";
+  attempts: number;
+  receivedAt: number;
+  action: string | null;
+  error: string | null;
+  template: string | null;
+};
+
+export type AdminAction = { at: number; action: "issue" | "extend" | "revoke" | "resend-receipt"; detail: string | null };
+
+export type LicenseDetails = {
+  ok: true;
+  license: AdminLicense;
+  devices: Device[];
+  events: LicenseEvent[];
+  audit: AdminAction[];
+};
+
+export type Failure = { ok: false; reason: string };
+
+/** Heittää "unauthorized", jos avain on väärä. */
+async function request<T>(url: string, init: RequestInit = {}): Promise<T | Failure> {
+  const r = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${adminKey()}`, ...init.headers },
+  });
+  if (r.status === 401) throw new Error("unauthorized");
+  return r.json();
+}
+
+const post = <T>(url: string, body: unknown) => request<T>(url, { method: "POST", body: JSON.stringify(body) });
+
+export function searchLicenses(q: string) {
+  return request<{ ok: true; licenses: AdminLicense[] }>(`/api/admin/licenses?q=${encodeURIComponent(q)}`);
+}
+
+export function issueLicense(input: { email: string; days: number | null; seats: number; locale: "fi" | "en"; sendReceipt: boolean }) {
+  return post<{ ok: true; license: AdminLicense }>("/api/admin/licenses", input);
+}
+
+export function getLicenseDetails(key: string) {
+  return request<LicenseDetails>(`/api/admin/license?key=${encodeURIComponent(key)}`);
+}
+
+export type LicenseChange =
+  | { action: "extend"; days: number }
+  | { action: "revoke"; reason: string }
+  | { action: "resend-receipt" };
+
+export function changeLicense(key: string, change: LicenseChange) {
+  return post<LicenseDetails>("/api/admin/license", { key, ...change });
+}
+
+export type Attempt = { at: number; route: string; ip: string; reason: string; subject: string | null };
+
+/** Julkisten rajapintojen epäonnistuneet yritykset, uusin ensin. */
+export function listAttempts() {
+  return request<{ ok: true; attempts: Attempt[] }>("/api/admin/attempts");
+}
+
+/** Lataa asiakasluettelon CSV-tiedostona. */
+export async function downloadCustomersCsv(): Promise<void> {
+  const r = await fetch("/api/admin/export", { headers: { Authorization: `Bearer ${adminKey()}` } });
+  if (r.status === 401) throw new Error("unauthorized");
+  if (!r.ok) throw new Error(`export ${r.status}`);
+  const name = r.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? "asiakkaat.csv";
+  const url = URL.createObjectURL(await r.blob());
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  calcAnnual,
+  calcCrew,
+  calcDay,
+  calcEffective,
+  calcHelperRows,
+  calcYear,
+  crewGroupFromInputs,
+  defaultCrew,
+  defaultInputs,
+  defaultProductivity,
+  defaultYearCtl,
+} from "./calc";
+
+// Viitearvot: alkuperäinen Excel, Syötteet-välilehti oletussyötteillä (sairausvakuutusmaksu vielä 1,87 %).
+const excelInputs = { ...defaultInputs, sotu_rate: 0.0187 };
+
+describe("calcAnnual (Syötteet B3–B20)", () => {
+  const r = calcAnnual(excelInputs);
+
+  it("palkat ja sivukulut", () => {
+    expect(r.annual_base_salary).toBeCloseTo(41600, 6); // B3
+    expect(r.holiday_pay).toBeCloseTo(2000, 6); // B4
+    expect(r.payroll_total).toBeCloseTo(43600, 6); // B5
+    expect(r.social_total_rate).toBeCloseTo(0.2005, 10); // B7
+    expect(r.social_costs_eur).toBeCloseTo(8741.8, 6); // B8
+    expect(r.pay_with_social).toBeCloseTo(52341.8, 6); // B9
+  });
+
+  it("yleiskulut", () => {
+    expect(r.overheads_direct).toBeCloseTo(850, 6); // B11
+    expect(r.overheads_shared).toBeCloseTo(13619.047619, 5); // B12
+    expect(r.overheads_total).toBeCloseTo(14469.047619, 5); // B13
+  });
+
+  it("tunnit ja kokonaiskustannus", () => {
+    expect(r.attendance_hours_year).toBeCloseTo(1660, 6); // B17
+    expect(r.billable_hours_year).toBeCloseTo(1411, 6); // B18
+    expect(r.meal_allowance_year).toBeCloseTo(2749.375, 6); // B14
+    expect(r.total_cost_year).toBeCloseTo(69560.222619, 5); // B15
+    expect(r.cost_per_billable_hour).toBeCloseTo(49.298528, 5); // B20
+  });
+
+  it("myyntihinnat katetasoilla", () => {
+    expect(r.sales_low).toBeCloseTo(59.158233, 5);
+    expect(r.sales_mid).toBeCloseTo(61.623160, 5);
+    expect(r.sales_high).toBeCloseTo(64.088086, 5);
+  });
+
+  it("erittelyn summa täsmää kustannukseen €/h", () => {
+    expect(r.breakdown).toHaveLength(13);
+    expect(r.breakdown[0].value).toBeCloseTo(37.095535, 5);
+    expect(r.breakdown_total).toBeCloseTo(r.cost_per_billable_hour, 8);
+  });
+
+  it("nolla tuottavaa ei kaada laskentaa", () => {
+    const z = calcAnnual({ ...defaultInputs, num_productive: 0 });
+    expect(isFinite(z.overheads_shared)).toBe(false);
+    expect(isFinite(z.breakdown_total)).toBe(true);
+  });
+});
+
+describe("calcHelperRows", () => {
+  const r = calcAnnual(excelInputs);
+  const rows = calcHelperRows(r.cost_per_billable_hour, excelInputs);
+
+  it("100 % -rivi on omakustannus ilman hukka-aikaa", () => {
+    expect(rows.map((x) => x.lvl)).toEqual([1, 0.9, 0.85, 0.8, 0.75, 0.7]);
+    expect(rows[0].kustEh).toBeCloseTo(41.903749, 5);
+    expect(rows[0].pricesVat[0]).toBeCloseTo(63.107045, 5);
+  });
+
+  it("syötetyn laskutusasteen rivi vastaa B20:tä", () => {
+    const row = rows.find((x) => x.lvl === defaultInputs.utilization)!;
+    expect(row.kustEh).toBeCloseTo(r.cost_per_billable_hour, 8);
+    expect(row.prices[1]).toBeCloseTo(r.sales_mid, 8);
+    expect(row.pricesVat[2]).toBeCloseTo(80.430548, 5);
+  });
+
+  it("omat laskutusasteet, katetasot ja kate myyntihinnasta", () => {
+    const v = { ...defaultInputs, util_levels: [1, 0.5], markup_tiers: [0.2, 0.3, 0.4, 0.5], pricing_basis: "margin" as const };
+    const custom = calcHelperRows(r.cost_per_billable_hour, v);
+    expect(custom.map((x) => x.lvl)).toEqual([1, 0.5]);
+    expect(custom[1].kustEh).toBeCloseTo(custom[0].kustEh * 2, 8);
+    expect(custom[0].prices).toHaveLength(4);
+    expect(custom[0].prices[3]).toBeCloseTo(custom[0].kustEh * 2, 8);
+
+    const a = calcAnnual(v);
+    expect(a.sales).toHaveLength(4);
+    expect(a.sales_low).toBeCloseTo(a.cost_per_billable_hour / 0.8, 8);
+    expect(a.sales_mid).toBe(a.sales[1]);
+    expect(a.sales_high).toBeCloseTo(a.cost_per_billable_hour * 2, 8);
+  });
+});
+
+describe("calcDay / calcYear", () => {
+  const day = calcDay({ ...defaultProductivity, billRate: 60, costPerHour: 41.9, payrollExtrasPct: 10, otherCostsPerHour: 2 });
+
+  it("päivän kate", () => {
+    expect(day.revenue).toBeCloseTo(360, 8);
+    expect(day.payroll).toBeCloseTo(335.2, 8);
+    expect(day.payrollExtras).toBeCloseTo(33.52, 8);
+    expect(day.totalCost).toBeCloseTo(384.72, 8);
+    expect(day.lostRevenue).toBeCloseTo(120, 8);
+    expect(day.profit).toBeCloseTo(-24.72, 8);
+    expect(day.utilizationDaily).toBeCloseTo(0.75, 8);
+  });
+
+  it("vuosi ja tarvittava materiaalimyynti", () => {
+    const y = calcYear(day, defaultYearCtl);
+    expect(y.annualRevenue).toBeCloseTo(79200, 6);
+    expect(y.annualProfit).toBeCloseTo(-5438.4, 6);
+    expect(y.neededExtraProfit).toBeCloseTo(15438.4, 6);
+    expect(y.neededMaterialSales).toBeCloseTo(77192, 6);
+    expect(y.neededMaterialPerMonth).toBeCloseTo(77192 / 12, 6);
+    expect(y.neededMaterialPerDay).toBeCloseTo(350.872727, 5);
+  });
+
+  it("nollatunnit eivät tuota jakoa nollalla", () => {
+    const d = calcDay({ ...defaultProductivity, hoursPerDay: 0, billableHours: 0 });
+    expect(d.utilizationDaily).toBe(0);
+    expect(d.marginPerBilledHour).toBe(0);
+    expect(calcYear(d, { ...defaultYearCtl, workDays: 0 }).neededMaterialPerDay).toBe(0);
+  });
+});
+
+describe("calcCrew", () => {
+  it("yksi ryhmä oletusarvoilla vastaa yksittäistä asentajaa", () => {
+    const c = calcCrew(defaultInputs, defaultCrew.groups);
+    const r = calcAnnual(defaultInputs);
+    expect(c.headcount).toBe(42);
+    expect(c.utilization).toBeCloseTo(0.85, 10);
+    expect(c.average.cost_per_billable_hour).toBeCloseTo(r.cost_per_billable_hour, 8);
+    expect(c.average.breakdown_total).toBeCloseTo(r.cost_per_billable_hour, 8);
+  });
+
+  it("jaettavat kulut jaetaan tiimin henkilömäärälle ja keskiarvo painotetaan tunneilla", () => {
+    const apprentice = { ...crewGroupFromInputs(defaultInputs, "a", "Oppilas", 2), hourly_wage: 14, utilization: 0.7 };
+    const journeyman = { ...crewGroupFromInputs(defaultInputs, "b", "Asentaja", 6), hourly_wage: 20 };
+    const c = calcCrew(defaultInputs, [apprentice, journeyman]);
+    expect(c.headcount).toBe(8);
+    expect(c.rows[0].r.overheads_shared).toBeCloseTo(572000 / 8, 6);
+    expect(c.rows[0].r.cost_per_billable_hour).toBeGreaterThan(c.rows[1].r.cost_per_billable_hour);
+
+    const cost = c.rows.reduce((s, x) => s + x.r.total_cost_year * x.group.count, 0);
+    const hours = c.rows.reduce((s, x) => s + x.r.billable_hours_year * x.group.count, 0);
+    expect(c.average.cost_per_billable_hour).toBeCloseTo(cost / hours, 8);
+    expect(c.average.breakdown_total).toBeCloseTo(cost / hours, 8);
+    expect(c.utilization).toBeCloseTo((2 * 0.7 + 6 * 0.85) / 8, 10);
+  });
+
+  it("calcEffective käyttää tiimiä vain kun se on päällä", () => {
+    const groups = [{ ...crewGroupFromInputs(defaultInputs, "a", "A", 10), hourly_wage: 25 }];
+    expect(calcEffective(defaultInputs, { enabled: false, groups }).crew).toBeNull();
+    const on = calcEffective(defaultInputs, { enabled: true, groups });
+    expect(on.crew?.headcount).toBe(10);
+    expect(on.r.cost_per_billable_hour).toBeGreaterThan(calcAnnual(defaultInputs).cost_per_billable_hour);
+  });
+});
@@ -0,0 +1,411 @@
+// --- Tuntihinnan laskentamoottori (puhtaat funktiot, ei Reactia) ---
+// Kaavat vastaavat alkuperäisen Excelin Syötteet-välilehteä; soluviitteet kommenteissa.
+import { workCalendar } from "./calendar";
+
+// --- Default inputs from Excel (Syötteet) ---
+export const defaultInputs = {
+  year: 2025,
+  hourly_wage: 20,
+  weekly_hours: 40,
+  weeks_per_year: 52,
+  holiday_weeks: 5,
+  pekkaspv_hours: 100,
+  sick_days: 7,
+  public_holidays_days: 8, // Arkipyhät 2025
+  use_calendar: false, // läsnäolo vuoden todellisesta kalenterista (B17-arvion sijaan)
+
+  // Sosiaalikulut (prosentit)
+  tyel_employer: 0.1738,
+  sotu_rate: 0.0116,
+  unemployment_rate: 0.0020,
+  accident_rate: 0.0054,
+  group_life_rate: 0.0006,
+
+  // Suorat €/hlö/v
+  workwear_per_head: 300,
+  occ_health_per_head: 250,
+  tools_per_head: 300,
+  car_per_head: 0,
+  travel_per_head: 0,
+  siteallow_per_head: 0,
+
+  // Jaettavat €/v
+  rent_per_month: 6000,
+  admin_per_year: 500000,
+  num_productive: 42,
+  car_pool_total: 0,
+  travel_pool_total: 0,
+  siteallow_pool_total: 0,
+
+  meal_allowance_per_day: 13.25,
+  vat_rate: 0.255,
+  utilization: 0.85,
+  // Hinnoittelutasot nousevassa järjestyksessä (desimaaleina) ja niiden peruste
+  markup_tiers: [0.20, 0.25, 0.30],
+  pricing_basis: "markup" as PricingBasis,
+  // Hintataulukon laskutusasteet
+  util_levels: [1, 0.9, 0.85, 0.8, 0.75, 0.7],
+};
+
+export type Inputs = typeof defaultInputs;
+
+/* ------------------------------  HINNOITTELU  --------------------------- */
+/** markup = lisä kustannukseen (kustannus × (1 + p)), margin = kate myyntihinnasta (kustannus / (1 − p)). */
+export type PricingBasis = "markup" | "margin";
+
+/** Myyntihinta kustannuksesta; kate ≥ 100 % myyntihinnasta ei tuota hintaa (NaN). */
+export function priceFromCost(cost: number, tier: number, basis: PricingBasis): number {
+  if (basis === "margin") return tier < 1 ? cost / (1 - tier) : NaN;
+  return cost * (1 + tier);
+}
+
+/** Keskimmäinen taso (parillisella määrällä alempi), jota yhteenvedot käyttävät "keskitasona". */
+export function midTierIndex(tiers: readonly number[]): number {
+  return Math.max(0, Math.floor((tiers.length - 1) / 2));
+}
+
+function salesPrices(cost: number, v: Pick<Inputs, "markup_tiers" | "pricing_basis">) {
+  const sales = v.markup_tiers.map((t) => priceFromCost(cost, t, v.pricing_basis));
+  return {
+    sales,
+    sales_low: sales[0] ?? cost,
+    sales_mid: sales[midTierIndex(sales)] ?? cost,
+    sales_high: sales[sales.length - 1] ?? cost,
+  };
+}
+
+export type BreakdownItem = { name: string; value: number };
+
+export type CalcResult = {
+  annual_base_salary: number;
+  holiday_pay: number;
+  payroll_total: number;
+  social_total_rate: number;
+  social_costs_eur: number;
+  pay_with_social: number;
+  overheads_direct: number;
+  overheads_shared: number;
+  overheads_total: number;
+  attendance_hours_year: number;
+  billable_hours_year: number;
+  meal_allowance_year: number;
+  total_cost_year: number;
+  cost_per_billable_hour: number;
+  pay_plus_social_per_hour: number;
+  breakdown: BreakdownItem[];
+  breakdown_total: number;
+  /** Myyntihinta €/h jokaisella hinnoittelutasolla (markup_tiers). */
+  sales: number[];
+  /** Alin, keskimmäinen ja ylin taso. */
+  sales_low: number;
+  sales_mid: number;
+  sales_high: number;
+};
+
+/** Vuosikustannusmalli yhdelle asentajalle (Syötteet B3–B20). */
+export function calcAnnual(v: Inputs): CalcResult {
+  const annual_base_salary = v.hourly_wage * v.weekly_hours * v.weeks_per_year; // B3
+  const holiday_pay = 0.5 * v.hourly_wage * (v.holiday_weeks * v.weekly_hours); // B4
+  const payroll_total = annual_base_salary + holiday_pay; // B5
+
+  const social_total_rate =
+    v.tyel_employer + v.sotu_rate + v.unemployment_rate + v.accident_rate + v.group_life_rate; // B7
+  const social_costs_eur = payroll_total * social_total_rate; // B8
+  const pay_with_social = payroll_total + social_costs_eur; // B9
+
+  const overheads_direct =
+    v.workwear_per_head +
+    v.occ_health_per_head +
+    v.tools_per_head +
+    v.car_per_head +
+    v.travel_per_head +
+    v.siteallow_per_head; // B11
+
+  const overheads_shared =
+    ((v.rent_per_month * 12) +
+      v.admin_per_year +
+      v.car_pool_total +
+      v.travel_pool_total +
+      v.siteallow_pool_total) /
+    v.num_productive; // B12
+
+  const overheads_total = overheads_direct + overheads_shared; // B13
+
+  const attendance_hours_year = v.use_calendar
+    ? workCalendar(v).attendance_hours
+    : v.weekly_hours * v.weeks_per_year -
+      v.holiday_weeks * v.weekly_hours -
+      v.sick_days * 8 -
+      v.public_holidays_days * 8 -
+      v.pekkaspv_hours; // B17
+
+  const billable_hours_year = attendance_hours_year * v.utilization; // B18
+
+  const meal_allowance_year = v.meal_allowance_per_day * (attendance_hours_year / 8); // B14
+  const total_cost_year = pay_with_social + overheads_total + meal_allowance_year; // B15
+
+  const cost_per_billable_hour = total_cost_year / billable_hours_year; // B20
+  const pay_plus_social_per_hour = pay_with_social / billable_hours_year; // eriteltyyn listaan
+
+  // Hinnoittelun erittely €/h (G-sarake)
+  const bd: BreakdownItem[] = [
+    { name: "Palkka + sivukulut", value: pay_plus_social_per_hour },
+    { name: "Työvaatteet", value: v.workwear_per_head / billable_hours_year },
+    { name: "Työterveys", value: v.occ_health_per_head / billable_hours_year },
+    { name: "Työkalut", value: v.tools_per_head / billable_hours_year },
+    { name: "Ateriakorvaus €/pv", value: v.meal_allowance_per_day / (8 * v.utilization) },
+    { name: "Autokalusto/autokulut (hlö)", value: v.car_per_head / billable_hours_year },
+    { name: "Matkakorvaukset (hlö)", value: v.travel_per_head / billable_hours_year },
+    { name: "Työmaalisät (hlö)", value: v.siteallow_per_head / billable_hours_year },
+    { name: "Vuokra (jaettu)", value: (v.rent_per_month * 12) / v.num_productive / billable_hours_year },
+    { name: "Hallinto/työnjohto (jaettu)", value: v.admin_per_year / v.num_productive / billable_hours_year },
+    { name: "Autokalusto/autokulut (pooli)", value: v.car_pool_total / v.num_productive / billable_hours_year },
+    { name: "Matkakorvaukset (pooli)", value: v.travel_pool_total / v.num_productive / billable_hours_year },
+    { name: "Työmaalisät (pooli)", value: v.siteallow_pool_total / v.num_productive / billable_hours_year },
+  ];
+  const breakdown_total = bd.reduce((s, x) => s + (isFinite(x.value) ? x.value : 0), 0);
+
+  return {
+    annual_base_salary,
+    holiday_pay,
+    payroll_total,
+    social_total_rate,
+    social_costs_eur,
+    pay_with_social,
+    overheads_direct,
+    overheads_shared,
+    overheads_total,
+    attendance_hours_year,
+    billable_hours_year,
+    meal_allowance_year,
+    total_cost_year,
+    cost_per_billable_hour,
+    pay_plus_social_per_hour,
+    breakdown: bd,
+    breakdown_total,
+    ...salesPrices(cost_per_billable_hour, v),
+  };
+}
+
+/* ---------------------------  TIIMI (CREW)  ----------------------------- */
+// Henkilökohtaiset kentät, jotka voivat vaihdella ryhmittäin (oppilas, asentaja, työnjohtaja…).
+export const CREW_PERSON_FIELDS = [
+  "hourly_wage",
+  "weekly_hours",
+  "holiday_weeks",
+  "pekkaspv_hours",
+  "sick_days",
+  "utilization",
+  "workwear_per_head",
+  "occ_health_per_head",
+  "tools_per_head",
+  "car_per_head",
+  "travel_per_head",
+  "siteallow_per_head",
+  "meal_allowance_per_day",
+] as const;
+
+export type CrewPersonField = (typeof CREW_PERSON_FIELDS)[number];
+
+export type CrewGroup = Pick<Inputs, CrewPersonField> & {
+  id: string;
+  name: string;
+  count: number;
+};
+
+export type Crew = {
+  enabled: boolean;
+  groups: CrewGroup[];
+};
+
+export function crewGroupFromInputs(v: Inputs, id: string, name: string, count = 1): CrewGroup {
+  const g = { id, name, count } as CrewGroup;
+  for (const k of CREW_PERSON_FIELDS) g[k] = v[k];
+  return g;
+}
+
+export const defaultCrew: Crew = {
+  enabled: false,
+  groups: [crewGroupFromInputs(defaultInputs, "asentaja", "Asentaja", defaultInputs.num_productive)],
+};
+
+export type CrewRow = { group: CrewGroup; r: CalcResult };
+
+export type CrewResult = {
+  rows: CrewRow[];
+  headcount: number;
+  /** Tiimin laskutusaste: laskutettavat / läsnäolotunnit koko tiimille. */
+  utilization: number;
+  /** Tiimin painotettu keskiasentaja (vuosisummat henkeä kohden, €/h-luvut tuntipainotettuina). */
+  average: CalcResult;
+};
+
+/**
+ * Tiimimalli: jokainen ryhmä lasketaan omilla henkilökohtaisilla arvoillaan,
+ * jaettavat kulut jaetaan koko tiimin henkilömäärälle (korvaa num_productive).
+ */
+export function calcCrew(v: Inputs, groups: CrewGroup[]): CrewResult {
+  const active = groups.filter((g) => g.count > 0);
+  const headcount = active.reduce((s, g) => s + g.count, 0);
+  const rows = active.map((group) => {
+    const gv: Inputs = { ...v, num_productive: headcount };
+    for (const k of CREW_PERSON_FIELDS) gv[k] = group[k];
+    return { group, r: calcAnnual(gv) };
+  });
+
+  const sum = (f: (r: CalcResult) => number) => rows.reduce((s, x) => s + f(x.r) * x.group.count, 0);
+  const perHead = (f: (r: CalcResult) => number) => sum(f) / headcount;
+
+  const payroll_total = perHead((r) => r.payroll_total);
+  const social_costs_eur = perHead((r) => r.social_costs_eur);
+  const pay_with_social = perHead((r) => r.pay_with_social);
+  const attendance_hours_year = perHead((r) => r.attendance_hours_year);
+  const billable_hours_year = perHead((r) => r.billable_hours_year);
+  const total_cost_year = perHead((r) => r.total_cost_year);
+  const cost_per_billable_hour = total_cost_year / billable_hours_year;
+
+  // €/h-erittely painotetaan ryhmien laskutettavilla tunneilla, jolloin summa = kustannus €/h.
+  const billableWeight = (x: CrewRow) => (x.r.billable_hours_year * x.group.count) / sum((r) => r.billable_hours_year);
+  const breakdown: BreakdownItem[] = (rows[0]?.r.breakdown ?? []).map((b, i) => ({
+    name: b.name,
+    value: rows.reduce((s, x) => s + (isFinite(x.r.breakdown[i].value) ? x.r.breakdown[i].value : 0) * billableWeight(x), 0),
+  }));
+
+  const average: CalcResult = {
+    annual_base_salary: perHead((r) => r.annual_base_salary),
+    holiday_pay: perHead((r) => r.holiday_pay),
+    payroll_total,
+    social_total_rate: social_costs_eur / payroll_total,
+    social_costs_eur,
+    pay_with_social,
+    overheads_direct: perHead((r) => r.overheads_direct),
+    overheads_shared: perHead((r) => r.overheads_shared),
+    overheads_total: perHead((r) => r.overheads_total),
+    attendance_hours_year,
+    billable_hours_year,
+    meal_allowance_year: perHead((r) => r.meal_allowance_year),
+    total_cost_year,
+    cost_per_billable_hour,
+    pay_plus_social_per_hour: pay_with_social / billable_hours_year,
+    breakdown,
+    breakdown_total: breakdown.reduce((s, x) => s + x.value, 0),
+    ...salesPrices(cost_per_billable_hour, v),
+  };
+
+  return { rows, headcount, utilization: billable_hours_year / attendance_hours_year, average };
+}
+
+export type EffectiveResult = { r: CalcResult; utilization: number; crew: CrewResult | null };
+
+/** Hinnoittelun pohja: tiimin keskiarvo, jos tiimimalli on käytössä, muuten yksittäinen asentaja. */
+export function calcEffective(v: Inputs, crew: Crew): EffectiveResult {
+  if (crew.enabled && crew.groups.some((g) => g.count > 0)) {
+    const c = calcCrew(v, crew.groups);
+    return { r: c.average, utilization: c.utilization, crew: c };
+  }
+  return { r: calcAnnual(v), utilization: v.utilization, crew: null };
+}
+
+/* ------------------------  LASKUTUSASTE / KATE  -------------------------- */
+export type HelperRow = {
+  lvl: number;
+  kustEh: number;
+  /** Myyntihinnat tasoittain (markup_tiers), alv 0 % ja alv:n kanssa. */
+  prices: number[];
+  pricesVat: number[];
+};
+
+type HelperParams = Pick<Inputs, "utilization" | "markup_tiers" | "pricing_basis" | "vat_rate" | "util_levels">;
+
+/**
+ * Omakustannus ja myyntihinnat eri laskutusasteilla. Kustannus skaalataan
+ * syötetystä laskutusasteesta valitulle tasolle (kustannus × käyttöaste / taso).
+ */
+export function calcHelperRows(cost_per_billable_hour: number, v: HelperParams): HelperRow[] {
+  return v.util_levels.map((lvl) => {
+    const kustEh = (cost_per_billable_hour || 0) * (v.utilization || 0) / (lvl || 1);
+    const prices = v.markup_tiers.map((t) => priceFromCost(kustEh, t, v.pricing_basis));
+    return { lvl, kustEh, prices, pricesVat: prices.map((p) => p * (1 + v.vat_rate)) };
+  });
+}
+
+/* --------------------------  TUOTTAVUUS  -------------------------------- */
+export const defaultProductivity = {
+  billRate: 0,
+  hoursPerDay: 8,
+  billableHours: 6,
+  costPerHour: 0,
+  payrollExtrasPct: 0,
+  otherCostsPerHour: 0,
+};
+
+export type ProductivityInputs = typeof defaultProductivity;
+
+export const defaultYearCtl = {
+  workDays: 220,
+  targetProfit: 10000,
+  materialMarginPct: 0.20,
+};
+
+export type YearCtl = typeof defaultYearCtl;
+
+export type DayResult = {
+  revenue: number;
+  payroll: number;
+  payrollExtras: number;
+  otherCosts: number;
+  totalCost: number;
+  lostRevenue: number;
+  profit: number;
+  utilizationDaily: number;
+  marginPerBilledHour: number;
+};
+
+/** Asentajan päivätuottavuus. */
+export function calcDay(pv: ProductivityInputs): DayResult {
+  const revenue = pv.billableHours * pv.billRate;
+  const payroll = pv.hoursPerDay * pv.costPerHour;
+  const payrollExtras = payroll * (pv.payrollExtrasPct / 100);
+  const otherCosts = pv.hoursPerDay * pv.otherCostsPerHour;
+  const totalCost = payroll + payrollExtras + otherCosts;
+  const lostRevenue = (pv.hoursPerDay - pv.billableHours) * pv.billRate;
+  const profit = revenue - totalCost;
+  const utilizationDaily = pv.hoursPerDay > 0 ? pv.billableHours / pv.hoursPerDay : 0;
+  const marginPerBilledHour = pv.billableHours > 0 ? (revenue - totalCost) / pv.billableHours : 0;
+  return { revenue, payroll, payrollExtras, otherCosts, totalCost, lostRevenue, profit, utilizationDaily, marginPerBilledHour };
+}
+
+export type YearResult = {
+  annualRevenue: number;
+  annualCost: number;
+  annualLost: number;
+  annualProfit: number;
+  neededExtraProfit: number;
+  neededMaterialSales: number;
+  neededMaterialPerMonth: number;
+  neededMaterialPerDay: number;
+};
+
+/** Päivätuottavuus vuositasolle ja tavoitekatteeseen tarvittava materiaalimyynti. */
+export function calcYear(day: DayResult, yearCtl: YearCtl): YearResult {
+  const annualRevenue = day.revenue * yearCtl.workDays;
+  const annualCost = day.totalCost * yearCtl.workDays;
+  const annualLost = day.lostRevenue * yearCtl.workDays;
+  const annualProfit = day.profit * yearCtl.workDays;
+
+  const neededExtraProfit = Math.max(0, yearCtl.targetProfit - annualProfit);
+  const neededMaterialSales = yearCtl.materialMarginPct > 0 ? neededExtraProfit / yearCtl.materialMarginPct : 0;
+  const neededMaterialPerMonth = neededMaterialSales / 12;
+  const neededMaterialPerDay = yearCtl.workDays > 0 ? neededMaterialSales / yearCtl.workDays : 0;
+
+  return {
+    annualRevenue,
+    annualCost,
+    annualLost,
+    annualProfit,
+    neededExtraProfit,
+    neededMaterialSales,
+    neededMaterialPerMonth,
+    neededMaterialPerDay,
+  };
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { calcAnnual, defaultInputs } from "./calc";
+import { countWeekdays, easterSunday, weekdayHolidays, workCalendar } from "./calendar";
+import { RATE_PRESETS } from "./presets";
+
+const iso = (d: Date) => d.toISOString().slice(0, 10);
+
+describe("easterSunday", () => {
+  it("tunnetut pääsiäiset", () => {
+    expect(iso(easterSunday(2024))).toBe("2024-03-31");
+    expect(iso(easterSunday(2025))).toBe("2025-04-20");
+    expect(iso(easterSunday(2026))).toBe("2026-04-05");
+    expect(iso(easterSunday(2038))).toBe("2038-04-25");
+  });
+});
+
+describe("arkipyhät ja arkipäivät", () => {
+  it("2025: kahdeksan arkipyhää, itsenäisyyspäivä lauantaina", () => {
+    const names = weekdayHolidays(2025).map((h) => h.name);
+    expect(names).toHaveLength(8);
+    expect(names).toContain("Helatorstai");
+    expect(names).not.toContain("Itsenäisyyspäivä");
+  });
+
+  it("esiasetustaulukon arkipyhät vastaavat kalenteria", () => {
+    for (const [year, p] of Object.entries(RATE_PRESETS)) {
+      expect(weekdayHolidays(Number(year)).length).toBe(p.public_holidays_days);
+    }
+  });
+
+  it("arkipäivien määrä", () => {
+    expect(countWeekdays(2024)).toBe(262);
+    expect(countWeekdays(2025)).toBe(261);
+  });
+});
+
+describe("workCalendar", () => {
+  it("läsnäolotunnit oletussyötteillä 2025", () => {
+    const c = workCalendar(defaultInputs);
+    expect(c.pekkaspv_days).toBeCloseTo(12.5, 10);
+    expect(c.work_days).toBeCloseTo(208.5, 10);
+    expect(c.attendance_hours).toBeCloseTo(1668, 10);
+  });
+
+  it("calcAnnual käyttää kalenteria vain pyydettäessä", () => {
+    expect(calcAnnual(defaultInputs).attendance_hours_year).toBeCloseTo(1660, 10);
+    expect(calcAnnual({ ...defaultInputs, use_calendar: true }).attendance_hours_year).toBeCloseTo(1668, 10);
+  });
+});
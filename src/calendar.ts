@@ -0,0 +1,109 @@
+// --- Työpäiväkalenteri (Suomi) ---
+// Arkipäivät, arkipyhät ja läsnäolotunnit valitun vuoden todellisesta kalenterista.
+
+export type Holiday = { date: Date; name: string };
+
+/** Pääsiäissunnuntai gregoriaanisessa kalenterissa (Meeus/Jones/Butcher). */
+export function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+const utc = (y: number, m: number, d: number) => new Date(Date.UTC(y, m - 1, d));
+const addDays = (dt: Date, n: number) => new Date(dt.getTime() + n * 86400000);
+
+/** Ensimmäinen annettu viikonpäivä (0 = su … 6 = la) aikavälillä alkaen päivästä. */
+function firstWeekdayFrom(dt: Date, weekday: number): Date {
+  return addDays(dt, (weekday - dt.getUTCDay() + 7) % 7);
+}
+
+/** Viralliset pyhäpäivät (ei aattoja). Juhannuspäivä ja pyhäinpäivä osuvat aina lauantaille. */
+export function finnishPublicHolidays(year: number): Holiday[] {
+  const easter = easterSunday(year);
+  return [
+    { date: utc(year, 1, 1), name: "Uudenvuodenpäivä" },
+    { date: utc(year, 1, 6), name: "Loppiainen" },
+    { date: addDays(easter, -2), name: "Pitkäperjantai" },
+    { date: easter, name: "Pääsiäispäivä" },
+    { date: addDays(easter, 1), name: "2. pääsiäispäivä" },
+    { date: utc(year, 5, 1), name: "Vappu" },
+    { date: addDays(easter, 39), name: "Helatorstai" },
+    { date: addDays(easter, 49), name: "Helluntaipäivä" },
+    { date: firstWeekdayFrom(utc(year, 6, 20), 6), name: "Juhannuspäivä" },
+    { date: firstWeekdayFrom(utc(year, 10, 31), 6), name: "Pyhäinpäivä" },
+    { date: utc(year, 12, 6), name: "Itsenäisyyspäivä" },
+    { date: utc(year, 12, 25), name: "Joulupäivä" },
+    { date: utc(year, 12, 26), name: "Tapaninpäivä" },
+  ];
+}
+
+const isWeekday = (dt: Date) => dt.getUTCDay() >= 1 && dt.getUTCDay() <= 5;
+
+/** Arkipyhät: pyhäpäivät, jotka osuvat maanantaista perjantaihin. */
+export function weekdayHolidays(year: number): Holiday[] {
+  return finnishPublicHolidays(year).filter((h) => isWeekday(h.date));
+}
+
+export function countWeekdays(year: number): number {
+  let n = 0;
+  for (let dt = utc(year, 1, 1); dt.getUTCFullYear() === year; dt = addDays(dt, 1)) {
+    if (isWeekday(dt)) n++;
+  }
+  return n;
+}
+
+export type CalendarParams = {
+  year: number;
+  weekly_hours: number;
+  holiday_weeks: number;
+  pekkaspv_hours: number;
+  sick_days: number;
+};
+
+export type WorkCalendar = {
+  weekdays: number;
+  public_holidays: number;
+  holiday_days: number;
+  pekkaspv_days: number;
+  sick_days: number;
+  work_days: number;
+  hours_per_day: number;
+  attendance_hours: number;
+};
+
+/**
+ * Läsnäolo todellisesta kalenterista: arkipäivät − arkipyhät − lomaviikot (5 pv/vk)
+ * − pekkaspäivät (tunnit päivinä) − sairauspäivät. Päivän pituus = työviikko / 5.
+ */
+export function workCalendar(p: CalendarParams): WorkCalendar {
+  const year = Math.trunc(p.year);
+  const hours_per_day = p.weekly_hours / 5;
+  const weekdays = countWeekdays(year);
+  const public_holidays = weekdayHolidays(year).length;
+  const holiday_days = p.holiday_weeks * 5;
+  const pekkaspv_days = hours_per_day > 0 ? p.pekkaspv_hours / hours_per_day : 0;
+  const work_days = weekdays - public_holidays - holiday_days - pekkaspv_days - p.sick_days;
+  return {
+    weekdays,
+    public_holidays,
+    holiday_days,
+    pekkaspv_days,
+    sick_days: p.sick_days,
+    work_days,
+    hours_per_day,
+    attendance_hours: work_days * hours_per_day,
+  };
+}
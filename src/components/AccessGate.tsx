@@ -1,52 +1,114 @@
-
 import React, { useEffect, useState } from 'react';
-import { REQUIRE_ACCESS, PAYMENT_LINK_URL, grantAccess, hasAccess, currentAccessKey } from '../config';
+import { REQUIRE_ACCESS, PAYMENT_LINK_URL, ENTITLEMENT_PUBLIC_KEY, grantAccess, currentAccessKey, deviceId, deviceName } from '../config';
+import { RENEW_AFTER_S, clearEntitlement, loadEntitlement, saveEntitlement, verifyEntitlement } from '../entitlement';
+import { RATE_LIMIT_MESSAGE, isDenied, requestLoginLink, verifyLicense, type Device } from '../licenseApi';
+import DeviceManager from './DeviceManager';
+
+type SeatsFull = { key: string; seats: number; devices: Device[] };
 
-async function verifyRemote(key: string): Promise<boolean> {
-  try {
-    const r = await fetch("/api/verify", { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ key }) });
-    const j = await r.json();
-    return j.ok === true;
-  } catch { return false; }
+/** Tallennettu, allekirjoitukseltaan ja voimassaoloaikansa puolesta kelvollinen tunniste. */
+async function localEntitlement(license: string) {
+  const token = loadEntitlement();
+  return token ? verifyEntitlement(token, ENTITLEMENT_PUBLIC_KEY, { license, deviceId: deviceId() }) : null;
 }
 
 export default function AccessGate({ children }: { children: React.ReactNode }) {
   const [key, setKey] = useState("");
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState("");
+  const [allowed, setAllowed] = useState(false);
+  const [seatsFull, setSeatsFull] = useState<SeatsFull | null>(null);
+  const [email, setEmail] = useState("");
+  const [linkMsg, setLinkMsg] = useState("");
+
+  /** Palvelimen tarkistus; onnistuessa tallentaa uuden käyttöoikeustunnisteen. */
+  const checkRemote = async (k: string): Promise<"ok" | "denied" | "offline" | "limited"> => {
+    const res = await verifyLicense(k);
+    if (res === null) return "offline";
+    // Pyyntöraja ei kerro avaimesta mitään, joten tallennettu tunniste säilyy
+    if (!res.ok && res.reason === "rate-limit") {
+      setError(RATE_LIMIT_MESSAGE);
+      return "limited";
+    }
+    if (res.ok) {
+      saveEntitlement(res.token);
+      return "ok";
+    }
+    // Muu kuin nimenomainen hylkäys (esim. 403 origin) käsitellään kuin verkkovirhe: tunniste säilyy
+    if (!isDenied(res)) return "offline";
+    clearEntitlement();
+    if (res.reason === "seats") {
+      setSeatsFull({ key: k, seats: res.seats ?? 0, devices: res.devices ?? [] });
+      setError("Lisenssin kaikki laitepaikat ovat käytössä. Vapauta jokin laite tai hanki lisää paikkoja.");
+    } else {
+      setSeatsFull(null);
+      setError("Lisenssi ei ole voimassa. Syötä uusi avain.");
+    }
+    return "denied";
+  };
 
   useEffect(() => {
     if (!REQUIRE_ACCESS) { setLoading(false); return; }
 
     const url = new URL(window.location.href);
     const t = url.searchParams.get("token");
+    let timer: number | undefined;
+    let renewing = false;
+    // Hiljainen uusinta taustalla: verkkovirhe ei haittaa, hylkäys (esim. peruttu lisenssi) sulkee sovelluksen
+    const renew = async (saved: string, force = false) => {
+      const claims = await localEntitlement(saved);
+      if (renewing || !navigator.onLine || (!force && claims && Date.now() / 1000 - claims.iat < RENEW_AFTER_S)) return;
+      renewing = true;
+      if ((await checkRemote(saved)) === "denied") setAllowed(false);
+      renewing = false;
+    };
+    const onOnline = () => { const saved = currentAccessKey(); if (saved) renew(saved); };
+
     (async () => {
       if (t) {
-        const r = await fetch(`/api/exchange?token=${encodeURIComponent(t)}`);
-        const j = await r.json();
-        if (j.ok && j.license) {
-          grantAccess(j.license);
-          url.searchParams.delete("token");
-          history.replaceState({}, "", url.toString());
-        } else {
-          setError("Token ei kelpaa tai on jo käytetty.");
+        const q = new URLSearchParams({ token: t, deviceId: deviceId(), deviceName: deviceName() });
+        // Verkkovirhe tai muu kuin JSON-vastaus: virheilmoitus ja avaimen syöttö, ei jumiutunutta latausta
+        try {
+          const r = await fetch(`/api/exchange?${q}`);
+          const j = await r.json();
+          if (r.status === 429) {
+            setError(RATE_LIMIT_MESSAGE);
+          } else if (j.ok && j.license) {
+            grantAccess(j.license);
+            saveEntitlement(j.token);
+            url.searchParams.delete("token");
+            history.replaceState({}, "", url.toString());
+          } else if (r.status >= 500) {
+            setError("Kirjautumislinkin tarkistus epäonnistui palvelinvirheen vuoksi. Yritä hetken kuluttua uudelleen.");
+          } else {
+            setError("Token ei kelpaa tai on jo käytetty.");
+          }
+        } catch {
+          setError("Ei yhteyttä lisenssipalveluun, kirjautumislinkkiä ei voitu tarkistaa. Yritä uudelleen tai syötä avain.");
         }
       }
       const saved = currentAccessKey();
       if (saved) {
-        const ok = await verifyRemote(saved);
-        if (!ok) setError("Lisenssi ei ole voimassa. Syötä uusi avain.");
-        setLoading(false);
-        return;
+        if (await localEntitlement(saved)) {
+          setAllowed(true);
+          renew(saved, true);
+        } else {
+          const r = await checkRemote(saved);
+          if (r === "ok") setAllowed(true);
+          if (r === "offline") setError("Ei yhteyttä lisenssipalveluun. Sovellus toimii ilman verkkoa, kun lisenssi on kerran tarkistettu tällä laitteella.");
+        }
+        window.addEventListener("online", onOnline);
+        timer = window.setInterval(onOnline, 60 * 60 * 1000);
       }
       setLoading(false);
     })();
+    return () => { window.removeEventListener("online", onOnline); window.clearInterval(timer); };
   }, []);
 
   if (!REQUIRE_ACCESS) return <>{children}</>;
   if (loading) return <div className="min-h-screen grid place-items-center">Avataan…</div>;
 
-  if (hasAccess()) return <>{children}</>;
+  if (allowed) return <>{children}</>;
 
   return (
     <div className="min-h-screen flex items-center justify-center p-6">
@@ -58,6 +120,16 @@ export default function AccessGate({ children }: { children: React.ReactNode })
 
         {error && <div className="text-sm text-red-600">{error}</div>}
 
+        {seatsFull && (
+          <DeviceManager
+            licenseKey={seatsFull.key}
+            initial={{ seats: seatsFull.seats, devices: seatsFull.devices }}
+            onReleased={async () => {
+              if ((await checkRemote(seatsFull.key)) === "ok") { grantAccess(seatsFull.key); location.reload(); }
+            }}
+          />
+        )}
+
         <div className="space-y-2">
           <label className="text-sm">Lisenssi-/tilausavain</label>
           <input
@@ -69,9 +141,9 @@ export default function AccessGate({ children }: { children: React.ReactNode })
           <button
             onClick={async () => {
               if (!key) return;
-              const ok = await verifyRemote(key);
-              if (ok) { grantAccess(key); location.reload(); }
-              else alert("Virheellinen tai inaktiivinen avain");
+              const r = await checkRemote(key);
+              if (r === "offline") setError("Ei yhteyttä lisenssipalveluun. Yritä uudelleen.");
+              if (r === "ok") { grantAccess(key); location.reload(); }
             }}
             className="w-full rounded-2xl bg-black text-white py-2"
           >
@@ -79,6 +151,36 @@ export default function AccessGate({ children }: { children: React.ReactNode })
           </button>
         </div>
 
+        <details className="text-sm">
+          <summary className="cursor-pointer text-zinc-700">Avain hukassa? Kirjaudu sähköpostilla</summary>
+          <div className="space-y-2 pt-2">
+            <input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="Tilauksessa käytetty sähköposti"
+              className="w-full border rounded-xl px-3 py-2"
+            />
+            <button
+              onClick={async () => {
+                if (!email) return;
+                try {
+                  const r = await requestLoginLink(email);
+                  setLinkMsg(r.ok
+                    ? "Jos osoitteella on lisenssi, lähetimme siihen kirjautumislinkin. Linkki on voimassa 30 minuuttia."
+                    : r.reason === "rate-limit" ? RATE_LIMIT_MESSAGE : "Tarkista sähköpostiosoite.");
+                } catch {
+                  setLinkMsg("Ei yhteyttä palveluun. Yritä uudelleen.");
+                }
+              }}
+              className="w-full rounded-2xl border py-2 hover:bg-zinc-50"
+            >
+              Lähetä kirjautumislinkki
+            </button>
+            {linkMsg && <div className="text-zinc-600">{linkMsg}</div>}
+          </div>
+        </details>
+
         <div className="pt-2">
           <button
             onClick={() => window.open(PAYMENT_LINK_URL || "#", "_blank")}
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react";
+import { RATE_LIMIT_MESSAGE, getAccount, billingPortalUrl, type Account } from "../licenseApi";
+import DeviceManager from "./DeviceManager";
+
+const STATUS: Record<Account["status"], string> = {
+  active: "Voimassa",
+  past_due: "Maksu myöhässä",
+  canceled: "Päättynyt",
+  revoked: "Peruttu",
+};
+
+const fmtDate = (ms: number) => new Date(ms).toLocaleDateString("fi-FI");
+
+/** Oma tili: tilaus, voimassaolo, laskutus (Stripen asiakasportaali) ja laitteet. */
+export default function AccountPanel({ licenseKey }: { licenseKey: string }) {
+  const [acc, setAcc] = useState<Account | null>(null);
+  const [error, setError] = useState("");
+  const [opening, setOpening] = useState(false);
+
+  useEffect(() => {
+    getAccount(licenseKey)
+      .then((r) => (r.ok ? setAcc(r) : setError(r.reason === "rate-limit" ? RATE_LIMIT_MESSAGE : "Tilin tietoja ei löytynyt.")))
+      .catch(() => setError("Ei yhteyttä palveluun."));
+  }, [licenseKey]);
+
+  const openPortal = async () => {
+    setOpening(true);
+    try {
+      const r = await billingPortalUrl(licenseKey);
+      if (r.ok && r.url) window.location.href = r.url;
+      else setError(r.reason === "rate-limit" ? RATE_LIMIT_MESSAGE : "Laskutuksen hallintaa ei voitu avata.");
+    } catch {
+      setError("Ei yhteyttä palveluun.");
+    }
+    setOpening(false);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <div className="space-y-2 text-sm">
+        <h3 className="font-semibold">Tilaus</h3>
+        {error && <div className="text-red-600">{error}</div>}
+        {acc && (
+          <>
+            <div className="flex justify-between"><span>Sähköposti</span><span>{acc.email}</span></div>
+            <div className="flex justify-between">
+              <span>Tyyppi</span>
+              <span>{acc.plan === "team" ? `Toimisto, ${acc.seats} laitetta` : "Yksi laite"}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Tila</span>
+              <span className={acc.valid ? "text-emerald-700" : "text-red-600"}>{STATUS[acc.status]}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>{acc.status === "canceled" ? "Päättyi" : "Voimassa"}</span>
+              <span>{acc.expiresAt === null ? "toistaiseksi" : fmtDate(acc.expiresAt)}</span>
+            </div>
+            {acc.status === "past_due" && acc.graceUntil !== null && (
+              <div className="rounded-xl bg-amber-50 border border-amber-300 p-2 text-amber-900">
+                Maksu epäonnistui. Päivitä maksutapa {fmtDate(acc.graceUntil)} mennessä, ettei käyttö katkea.
+              </div>
+            )}
+            <div className="pt-1 text-xs text-zinc-600 break-all">Lisenssiavain: {licenseKey}</div>
+            {acc.billing && (
+              <button
+                className="mt-2 px-4 py-2 rounded-2xl border hover:bg-zinc-50 disabled:opacity-50"
+                disabled={opening}
+                onClick={openPortal}
+              >
+                Hallinnoi laskutusta
+              </button>
+            )}
+          </>
+        )}
+      </div>
+      <div className="space-y-2">
+        <h3 className="font-semibold">Laitteet</h3>
+        {acc && <DeviceManager licenseKey={licenseKey} initial={{ seats: acc.seats, devices: acc.devices }} />}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,440 @@
+import React, { useEffect, useState } from "react";
+import {
+  adminKey,
+  changeLicense,
+  downloadCustomersCsv,
+  getLicenseDetails,
+  issueLicense,
+  listAttempts,
+  searchLicenses,
+  setAdminKey,
+  type AdminLicense,
+  type Attempt,
+  type Failure,
+  type LicenseChange,
+  type LicenseDetails,
+} from "../adminApi";
+
+const STATUS: Record<AdminLicense["status"], string> = {
+  active: "Voimassa",
+  past_due: "Maksu myöhässä",
+  canceled: "Päättynyt",
+  revoked: "Peruttu",
+};
+
+const ACTION: Record<string, string> = {
+  issue: "Myönnetty",
+  extend: "Jatkettu",
+  revoke: "Peruttu",
+  "resend-receipt": "Kuitti lähetetty",
+};
+
+const REASON: Record<string, string> = {
+  exists: "Osoitteella on jo voimassa oleva lisenssi; jatka sitä.",
+  "no-expiry": "Lisenssi ei vanhene, joten sitä ei tarvitse jatkaa.",
+  revoked: "Perutulle lisenssille ei lähetetä kuittia.",
+  email: "Sähköpostin lähetys epäonnistui.",
+  "not-found": "Lisenssiä ei löytynyt.",
+};
+
+const ATTEMPT_REASON: Record<string, string> = {
+  license: "tuntematon avain",
+  token: "tuntematon tunnus",
+  session: "tuntematon checkout",
+  "rate-limit": "pyyntöraja",
+  origin: "vieras origin",
+  body: "virheellinen body",
+  field: "tuntematon kenttä",
+};
+
+const fmtDate = (ms: number | null) => (ms === null ? "toistaiseksi" : new Date(ms).toLocaleDateString("fi-FI"));
+const fmtTime = (ms: number) => new Date(ms).toLocaleString("fi-FI");
+const btn = "px-3 py-1 rounded-xl border hover:bg-zinc-50 disabled:opacity-50";
+
+function Section({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-2xl shadow p-5">
+      <h2 className="text-xl font-semibold mb-4">{title}</h2>
+      {children}
+    </div>
+  );
+}
+
+function LoginForm({ error, onLogin }: { error: string; onLogin: (key: string) => void }) {
+  const [key, setKey] = useState("");
+  return (
+    <form
+      className="max-w-md mx-auto mt-24 bg-white rounded-2xl shadow p-6 space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (key.trim()) onLogin(key.trim());
+      }}
+    >
+      <h1 className="text-xl font-semibold">Ylläpito</h1>
+      <p className="text-sm text-zinc-600">Kirjaudu ylläpidon avaimella (ADMIN_API_KEY). Asiakkaan lisenssiavain ei käy.</p>
+      <input
+        type="password"
+        className="w-full border rounded-xl px-3 py-2"
+        placeholder="Ylläpidon avain"
+        value={key}
+        onChange={(e) => setKey(e.target.value)}
+        autoFocus
+      />
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      <button className="px-4 py-2 rounded-2xl bg-black text-white">Kirjaudu</button>
+    </form>
+  );
+}
+
+function IssueForm({ onIssued, onError }: { onIssued: (l: AdminLicense) => void; onError: (msg: string) => void }) {
+  const [email, setEmail] = useState("");
+  const [days, setDays] = useState("365");
+  const [seats, setSeats] = useState("1");
+  const [locale, setLocale] = useState<"fi" | "en">("fi");
+  const [sendReceipt, setSendReceipt] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    const r = await issueLicense({ email, days: days.trim() ? Number(days) : null, seats: Number(seats), locale, sendReceipt });
+    setBusy(false);
+    if (r.ok) {
+      setEmail("");
+      onIssued(r.license);
+    } else onError(REASON[r.reason] ?? `Myöntäminen epäonnistui (${r.reason}).`);
+  };
+
+  return (
+    <form className="grid grid-cols-1 md:grid-cols-6 gap-2 items-end text-sm" onSubmit={(e) => submit(e).catch(() => onError("Ei yhteyttä palveluun."))}>
+      <label className="md:col-span-2">
+        <span className="block text-zinc-600">Sähköposti</span>
+        <input className="w-full border rounded-xl px-3 py-1" type="email" required value={email} onChange={(e) => setEmail(e.target.value)} />
+      </label>
+      <label>
+        <span className="block text-zinc-600">Voimassa (pv, tyhjä = ei vanhene)</span>
+        <input className="w-full border rounded-xl px-3 py-1" inputMode="numeric" value={days} onChange={(e) => setDays(e.target.value)} />
+      </label>
+      <label>
+        <span className="block text-zinc-600">Laitepaikat</span>
+        <input className="w-full border rounded-xl px-3 py-1" inputMode="numeric" value={seats} onChange={(e) => setSeats(e.target.value)} />
+      </label>
+      <label>
+        <span className="block text-zinc-600">Kieli</span>
+        <select className="w-full border rounded-xl px-3 py-1" value={locale} onChange={(e) => setLocale(e.target.value as "fi" | "en")}>
+          <option value="fi">suomi</option>
+          <option value="en">englanti</option>
+        </select>
+      </label>
+      <div className="space-y-1">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={sendReceipt} onChange={(e) => setSendReceipt(e.target.checked)} />
+          Lähetä kuitti
+        </label>
+        <button className="px-4 py-1 rounded-2xl bg-black text-white disabled:opacity-50" disabled={busy}>
+          Myönnä
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function LicenseView({
+  details,
+  onChange,
+}: {
+  details: LicenseDetails;
+  onChange: (change: LicenseChange) => Promise<void>;
+}) {
+  const { license: l, devices, events, audit } = details;
+  const [days, setDays] = useState("30");
+  const [reason, setReason] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const run = async (change: LicenseChange) => {
+    setBusy(true);
+    await onChange(change);
+    setBusy(false);
+  };
+
+  return (
+    <div className="space-y-5 text-sm">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-1">
+        <div className="flex justify-between"><span>Sähköposti</span><span>{l.email}</span></div>
+        <div className="flex justify-between"><span>Avain</span><span className="font-mono">{l.key}</span></div>
+        <div className="flex justify-between">
+          <span>Tila</span>
+          <span className={l.valid ? "text-emerald-700" : "text-red-600"}>
+            {STATUS[l.status]}
+            {l.revokedReason && ` (${l.revokedReason})`}
+          </span>
+        </div>
+        <div className="flex justify-between"><span>Voimassa</span><span>{fmtDate(l.expiresAt)}</span></div>
+        {l.graceUntil !== null && <div className="flex justify-between"><span>Armonaika</span><span>{fmtDate(l.graceUntil)}</span></div>}
+        <div className="flex justify-between"><span>Laitepaikat</span><span>{devices.length} / {l.seats}</span></div>
+        <div className="flex justify-between"><span>Stripe-asiakas</span><span className="font-mono">{l.customerId ?? "–"}</span></div>
+        <div className="flex justify-between"><span>Tilaus</span><span className="font-mono">{l.subscriptionId ?? "–"}</span></div>
+        <div className="flex justify-between"><span>Luotu</span><span>{fmtTime(l.createdAt)}</span></div>
+        <div className="flex justify-between"><span>Kieli</span><span>{l.locale}</span></div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input className="w-20 border rounded-xl px-3 py-1" inputMode="numeric" value={days} onChange={(e) => setDays(e.target.value)} />
+        <button className={btn} disabled={busy} onClick={() => run({ action: "extend", days: Number(days) })}>
+          Jatka päivillä
+        </button>
+        <button className={btn} disabled={busy || l.status === "revoked"} onClick={() => run({ action: "resend-receipt" })}>
+          Lähetä kuitti uudelleen
+        </button>
+        <input
+          className="w-56 border rounded-xl px-3 py-1 ml-auto"
+          placeholder="Peruutuksen syy"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+        />
+        <button
+          className={`${btn} text-red-700`}
+          disabled={busy || l.status === "revoked"}
+          onClick={() => confirm(`Perutaanko lisenssi ${l.email}?`) && run({ action: "revoke", reason })}
+        >
+          Peru lisenssi
+        </button>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-1">Laitteet</h3>
+        <ul className="divide-y rounded-2xl border">
+          {devices.map((d) => (
+            <li key={d.id} className="px-3 py-2 flex justify-between">
+              <span>{d.name}</span>
+              <span className="text-zinc-600">viimeksi {fmtDate(d.lastSeenAt)}</span>
+            </li>
+          ))}
+          {devices.length === 0 && <li className="px-3 py-2 text-zinc-600">Ei aktivoituja laitteita.</li>}
+        </ul>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-1">Stripe-tapahtumat</h3>
+        <table className="w-full">
+          <thead className="text-left text-zinc-600">
+            <tr><th>Vastaanotettu</th><th>Tyyppi</th><th>Tulos</th><th>Viesti</th><th>Tila</th></tr>
+          </thead>
+          <tbody>
+            {events.map((e) => (
+              <tr key={e.id} className="border-t" title={e.id}>
+                <td>{fmtTime(e.receivedAt)}</td>
+                <td className="font-mono">{e.type}</td>
+                <td>{e.action ?? "–"}</td>
+                <td>{e.template ?? "–"}</td>
+                <td className={e.status === "failed" ? "text-red-600" : ""}>
+                  {e.status}
+                  {e.error && ` – ${e.error}`}
+                </td>
+              </tr>
+            ))}
+            {events.length === 0 && (
+              <tr><td colSpan={5} className="text-zinc-600 py-1">Ei tapahtumia (kirjanpito säilyy 90 vrk).</td></tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {audit.length > 0 && (
+        <div>
+          <h3 className="font-semibold mb-1">Ylläpidon toimenpiteet</h3>
+          <ul className="space-y-1">
+            {audit.map((a, i) => (
+              <li key={i}>
+                {fmtTime(a.at)} – {ACTION[a.action] ?? a.action}
+                {a.detail && `: ${a.detail}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AttemptsTable({ attempts }: { attempts: Attempt[] }) {
+  return (
+    <table className="w-full text-sm">
+      <thead className="text-left text-zinc-600">
+        <tr><th>Aika</th><th>Rajapinta</th><th>IP</th><th>Syy</th><th>Tunniste</th></tr>
+      </thead>
+      <tbody>
+        {attempts.map((a, i) => (
+          <tr key={i} className="border-t">
+            <td>{fmtTime(a.at)}</td>
+            <td className="font-mono">/api/{a.route}</td>
+            <td className="font-mono">{a.ip}</td>
+            <td>{ATTEMPT_REASON[a.reason] ?? a.reason}</td>
+            <td className="font-mono">{a.subject ?? "–"}</td>
+          </tr>
+        ))}
+        {attempts.length === 0 && (
+          <tr><td colSpan={5} className="text-zinc-600 py-1">Ei epäonnistuneita yrityksiä.</td></tr>
+        )}
+      </tbody>
+    </table>
+  );
+}
+
+/** Ylläpito: lisenssien haku, tapahtumahistoria, myöntäminen, jatkaminen, peruutus, CSV-vienti ja väärinkäyttöloki. */
+export default function AdminConsole() {
+  const [authed, setAuthed] = useState(() => !!adminKey());
+  const [loginError, setLoginError] = useState("");
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<AdminLicense[]>([]);
+  const [details, setDetails] = useState<LicenseDetails | null>(null);
+  const [attempts, setAttempts] = useState<Attempt[] | null>(null);
+  const [error, setError] = useState("");
+
+  // Väärä avain palauttaa kirjautumiseen; muut virheet näytetään ilmoituksena.
+  const guard = async <T,>(fn: () => Promise<T>): Promise<T | null> => {
+    setError("");
+    try {
+      return await fn();
+    } catch (e) {
+      if (e instanceof Error && e.message === "unauthorized") {
+        setAdminKey(null);
+        setAuthed(false);
+        setLoginError("Avain ei kelpaa.");
+      } else setError("Ei yhteyttä palveluun.");
+      return null;
+    }
+  };
+
+  const failed = (r: Failure) => setError(REASON[r.reason] ?? `Toiminto epäonnistui (${r.reason}).`);
+
+  const search = async (q = query) => {
+    const r = await guard(() => searchLicenses(q));
+    if (r?.ok) setResults(r.licenses);
+    else if (r) failed(r);
+  };
+
+  const open = async (key: string) => {
+    const r = await guard(() => getLicenseDetails(key));
+    if (r?.ok) setDetails(r);
+    else if (r) failed(r);
+  };
+
+  const loadAttempts = async () => {
+    const r = await guard(listAttempts);
+    if (r?.ok) setAttempts(r.attempts);
+    else if (r) failed(r);
+  };
+
+  const change = async (c: LicenseChange) => {
+    if (!details) return;
+    const r = await guard(() => changeLicense(details.license.key, c));
+    if (r?.ok) {
+      setDetails(r);
+      setResults((list) => list.map((l) => (l.key === r.license.key ? r.license : l)));
+    } else if (r) failed(r);
+  };
+
+  useEffect(() => {
+    if (authed) search("");
+  }, [authed]);
+
+  if (!authed) {
+    return (
+      <LoginForm
+        error={loginError}
+        onLogin={(key) => {
+          setAdminKey(key);
+          setLoginError("");
+          setAuthed(true);
+        }}
+      />
+    );
+  }
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-4">
+      <div className="flex items-center gap-2">
+        <h1 className="text-2xl font-semibold mr-auto">Ylläpito</h1>
+        <button className={btn} onClick={() => guard(downloadCustomersCsv)}>
+          Vie asiakkaat (CSV)
+        </button>
+        <button
+          className={btn}
+          onClick={() => {
+            setAdminKey(null);
+            setAuthed(false);
+          }}
+        >
+          Kirjaudu ulos
+        </button>
+      </div>
+
+      {error && <div className="rounded-xl bg-red-50 border border-red-300 p-2 text-sm text-red-800">{error}</div>}
+
+      <Section title="Myönnä lisenssi">
+        <IssueForm
+          onError={setError}
+          onIssued={(l) => {
+            setResults((list) => [l, ...list]);
+            open(l.key);
+          }}
+        />
+      </Section>
+
+      <Section title="Lisenssit">
+        <form
+          className="flex gap-2 mb-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            search();
+          }}
+        >
+          <input
+            className="flex-1 border rounded-xl px-3 py-1"
+            placeholder="Sähköposti tai lisenssiavain (tai osa)"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+          <button className={btn}>Hae</button>
+        </form>
+        <table className="w-full text-sm">
+          <thead className="text-left text-zinc-600">
+            <tr><th>Sähköposti</th><th>Avain</th><th>Tila</th><th>Voimassa</th><th>Paikat</th></tr>
+          </thead>
+          <tbody>
+            {results.map((l) => (
+              <tr
+                key={l.key}
+                className={`border-t cursor-pointer hover:bg-zinc-50 ${details?.license.key === l.key ? "bg-zinc-100" : ""}`}
+                onClick={() => open(l.key)}
+              >
+                <td>{l.email}</td>
+                <td className="font-mono">{l.key.slice(0, 8)}…</td>
+                <td className={l.valid ? "text-emerald-700" : "text-red-600"}>{STATUS[l.status]}</td>
+                <td>{fmtDate(l.expiresAt)}</td>
+                <td>{l.seats}</td>
+              </tr>
+            ))}
+            {results.length === 0 && (
+              <tr><td colSpan={5} className="text-zinc-600 py-1">Ei osumia.</td></tr>
+            )}
+          </tbody>
+        </table>
+      </Section>
+
+      {details && (
+        <Section title={`Lisenssi – ${details.license.email}`}>
+          <LicenseView key={details.license.key} details={details} onChange={change} />
+        </Section>
+      )}
+
+      <Section title="Epäonnistuneet yritykset">
+        <button className={`${btn} mb-3`} onClick={loadAttempts}>
+          {attempts ? "Päivitä" : "Näytä"}
+        </button>
+        {attempts && <AttemptsTable attempts={attempts} />}
+      </Section>
+    </div>
+  );
+}
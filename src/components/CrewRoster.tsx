@@ -0,0 +1,142 @@
+import React from "react";
+import { v4 as uuid } from "uuid";
+import { crewGroupFromInputs, type Crew, type CrewGroup, type CrewPersonField, type CrewResult, type Inputs } from "../calc";
+import { fmtEUR, fmtNum } from "../format";
+import { NumberInput, PercentInput } from "./NumberInput";
+
+const COLUMNS: { k: CrewPersonField; label: string; percent?: boolean }[] = [
+  { k: "hourly_wage", label: "Tuntipalkka €/h" },
+  { k: "weekly_hours", label: "Työviikko, h" },
+  { k: "holiday_weeks", label: "Lomaviikot/v" },
+  { k: "pekkaspv_hours", label: "Pekkaspäivät, h/v" },
+  { k: "sick_days", label: "Sairauspäivät, pv/v" },
+  { k: "utilization", label: "Laskutusaste", percent: true },
+  { k: "workwear_per_head", label: "Työvaatteet €/v" },
+  { k: "occ_health_per_head", label: "Työterveys €/v" },
+  { k: "tools_per_head", label: "Työkalut €/v" },
+  { k: "car_per_head", label: "Auto (hlö) €/v" },
+  { k: "travel_per_head", label: "Matkat (hlö) €/v" },
+  { k: "siteallow_per_head", label: "Työmaalisät (hlö) €/v" },
+  { k: "meal_allowance_per_day", label: "Ateriakorvaus €/pv" },
+];
+
+/** Tiimin kokoonpano: ryhmät (esim. oppilaat, asentajat, työnjohtajat) omilla palkoillaan ja kuluillaan. */
+export default function CrewRoster({
+  crew,
+  inputs,
+  onChange,
+}: {
+  crew: Crew;
+  inputs: Inputs;
+  onChange: (c: Crew) => void;
+}) {
+  const setGroup = (id: string, patch: Partial<CrewGroup>) =>
+    onChange({ ...crew, groups: crew.groups.map((g) => (g.id === id ? { ...g, ...patch } : g)) });
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={crew.enabled} onChange={(e) => onChange({ ...crew, enabled: e.target.checked })} />
+        Käytä tiimimallia (jaettavat kulut jaetaan tiimin henkilömäärälle, hinnoittelu tiimin painotetulla keskiarvolla)
+      </label>
+
+      <div className="overflow-auto">
+        <table className="text-sm border rounded-xl">
+          <thead className="bg-zinc-50">
+            <tr>
+              <th className="text-left p-2 border">Ryhmä</th>
+              <th className="text-right p-2 border">Hlö</th>
+              {COLUMNS.map((c) => (
+                <th key={c.k} className="text-right p-2 border">{c.label}</th>
+              ))}
+              <th className="p-2 border" />
+            </tr>
+          </thead>
+          <tbody>
+            {crew.groups.map((g) => (
+              <tr key={g.id} className="odd:bg-white even:bg-zinc-50">
+                <td className="p-1 border">
+                  <input
+                    className="border rounded-xl px-3 py-2 w-40"
+                    value={g.name}
+                    onChange={(e) => setGroup(g.id, { name: e.target.value })}
+                  />
+                </td>
+                <td className="p-1 border">
+                  <NumberInput className="w-20" value={g.count} onChange={(n) => setGroup(g.id, { count: n })} />
+                </td>
+                {COLUMNS.map((c) => (
+                  <td key={c.k} className="p-1 border">
+                    {c.percent ? (
+                      <PercentInput className="w-24" valueDecimal={g[c.k]} onChangeDecimal={(n) => setGroup(g.id, { [c.k]: n })} />
+                    ) : (
+                      <NumberInput className="w-24" value={g[c.k]} onChange={(n) => setGroup(g.id, { [c.k]: n })} />
+                    )}
+                  </td>
+                ))}
+                <td className="p-1 border">
+                  <button
+                    className="px-3 py-2 rounded-2xl border bg-white hover:bg-zinc-50 disabled:opacity-50"
+                    disabled={crew.groups.length <= 1}
+                    onClick={() => onChange({ ...crew, groups: crew.groups.filter((x) => x.id !== g.id) })}
+                  >
+                    Poista
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <button
+        className="px-3 py-2 rounded-2xl border bg-white hover:bg-zinc-50 text-sm"
+        onClick={() =>
+          onChange({ ...crew, groups: [...crew.groups, crewGroupFromInputs(inputs, uuid(), `Ryhmä ${crew.groups.length + 1}`)] })
+        }
+      >
+        Lisää ryhmä (perusparametreista)
+      </button>
+    </div>
+  );
+}
+
+/** Henkilökohtainen kustannus €/laskutettava tunti ryhmittäin sekä tiimin painotettu keskiarvo. */
+export function CrewResults({ result }: { result: CrewResult }) {
+  return (
+    <div className="overflow-auto">
+      <table className="w-full text-sm border rounded-xl">
+        <thead className="bg-zinc-50">
+          <tr>
+            <th className="text-left p-2 border">Ryhmä</th>
+            <th className="text-right p-2 border">Hlö</th>
+            <th className="text-right p-2 border">Kokonaiskustannus / hlö / v</th>
+            <th className="text-right p-2 border">Laskutettavat h / hlö / v</th>
+            <th className="text-right p-2 border">Kustannus €/h</th>
+            <th className="text-right p-2 border">Myynti €/h (keskitaso)</th>
+          </tr>
+        </thead>
+        <tbody>
+          {result.rows.map(({ group, r }) => (
+            <tr key={group.id} className="odd:bg-white even:bg-zinc-50">
+              <td className="p-2 border">{group.name}</td>
+              <td className="p-2 text-right border">{fmtNum(group.count, 0)}</td>
+              <td className="p-2 text-right border">{fmtEUR(r.total_cost_year)}</td>
+              <td className="p-2 text-right border">{fmtNum(r.billable_hours_year, 0)}</td>
+              <td className="p-2 text-right border">{fmtEUR(r.cost_per_billable_hour)}</td>
+              <td className="p-2 text-right border">{fmtEUR(r.sales_mid)}</td>
+            </tr>
+          ))}
+          <tr className="bg-zinc-50 font-semibold">
+            <td className="p-2 border">Tiimi (painotettu)</td>
+            <td className="p-2 text-right border">{fmtNum(result.headcount, 0)}</td>
+            <td className="p-2 text-right border">{fmtEUR(result.average.total_cost_year)}</td>
+            <td className="p-2 text-right border">{fmtNum(result.average.billable_hours_year, 0)}</td>
+            <td className="p-2 text-right border">{fmtEUR(result.average.cost_per_billable_hour)}</td>
+            <td className="p-2 text-right border">{fmtEUR(result.average.sales_mid)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from "react";
+import { deviceId, deviceName, setDeviceName } from "../config";
+import { RATE_LIMIT_MESSAGE, listDevices, releaseDevice, type Device } from "../licenseApi";
+
+const fmtDate = (ms: number) => new Date(ms).toLocaleDateString("fi-FI");
+
+/** Lisenssin aktiiviset laitteet; paikan voi vapauttaa mistä tahansa laitteesta. */
+export default function DeviceManager({
+  licenseKey,
+  initial,
+  onReleased,
+}: {
+  licenseKey: string;
+  initial?: { seats: number; devices: Device[] };
+  onReleased?: () => void;
+}) {
+  const [data, setData] = useState(initial ?? null);
+  const [error, setError] = useState("");
+  const [name, setName] = useState(deviceName);
+  const me = deviceId();
+
+  useEffect(() => {
+    if (initial) return;
+    listDevices(licenseKey)
+      .then((r) => (r.ok ? setData(r) : setError(r.reason === "rate-limit" ? RATE_LIMIT_MESSAGE : "Laitteita ei voitu hakea.")))
+      .catch(() => setError("Ei yhteyttä palveluun."));
+  }, [licenseKey]);
+
+  const release = async (d: Device) => {
+    if (!confirm(`Vapautetaanko laitteen "${d.name}" paikka?`)) return;
+    try {
+      const r = await releaseDevice(licenseKey, d.id);
+      if (r.reason === "release-limit") {
+        const days = Math.max(1, Math.ceil((r.retryAfter ?? 0) / 86400));
+        setError(`Laitepaikkoja on vapautettu liian usein. Seuraava vapautus on mahdollinen viimeistään ${days} päivän kuluttua.`);
+        return;
+      }
+      if (!r.ok) throw new Error();
+      setData(r);
+      onReleased?.();
+    } catch {
+      setError("Vapautus epäonnistui.");
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      {error && <div className="text-red-600">{error}</div>}
+      {data && (
+        <>
+          <div className="text-zinc-600">
+            Käytössä {data.devices.length} / {data.seats} laitepaikkaa.
+          </div>
+          <ul className="divide-y rounded-2xl border">
+            {data.devices.map((d) => (
+              <li key={d.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                <div>
+                  <div className="font-medium">
+                    {d.name}
+                    {d.id === me && <span className="ml-2 text-xs text-emerald-700">tämä laite</span>}
+                  </div>
+                  <div className="text-xs text-zinc-600">
+                    Aktivoitu {fmtDate(d.activatedAt)}, viimeksi käytetty {fmtDate(d.lastSeenAt)}
+                  </div>
+                </div>
+                <button className="px-3 py-1 rounded-xl border hover:bg-zinc-50" onClick={() => release(d)}>
+                  Vapauta
+                </button>
+              </li>
+            ))}
+            {data.devices.length === 0 && <li className="px-3 py-2 text-zinc-600">Ei aktivoituja laitteita.</li>}
+          </ul>
+        </>
+      )}
+      <label className="flex items-center justify-between gap-4">
+        <span>Tämän laitteen nimi</span>
+        <input
+          className="w-56 border rounded-xl px-3 py-1"
+          value={name}
+          maxLength={60}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={() => setDeviceName(name.trim())}
+        />
+      </label>
+      <div className="text-xs text-zinc-600">Nimi päivittyy listaan, kun sovellus seuraavan kerran avataan.</div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import React, { useRef, useState } from "react";
+import type { Inputs } from "../calc";
+import type { ImportReport } from "../importer";
+
+function downloadText(text: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Syötteiden tuonti Excelistä (Syötteet-välilehti) tai JSONista sekä vienti JSONiksi. */
+export default function InputsImport({ inputs, onApply }: { inputs: Inputs; onApply: (v: Inputs) => void }) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState("");
+  const btn = "px-3 py-2 rounded-2xl border bg-white hover:bg-zinc-50 text-sm";
+
+  const onFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError("");
+    try {
+      const { parseImportFile } = await import("../importer");
+      setReport(await parseImportFile(file));
+    } catch (e: any) {
+      setReport(null);
+      setError(`Tiedostoa ei voitu lukea: ${e?.message || String(e)}`);
+    } finally {
+      if (fileRef.current) fileRef.current.value = "";
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <button className={btn} onClick={() => fileRef.current?.click()}>Tuo Excel / JSON…</button>
+        <button
+          className={btn}
+          onClick={async () => {
+            const { inputsToJson } = await import("../importer");
+            downloadText(inputsToJson(inputs), `tuntihinta_syotteet_${inputs.year}.json`, "application/json");
+          }}
+        >
+          Vie syötteet JSON
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".xlsx,.xls,.json,application/json"
+          className="hidden"
+          onChange={(e) => onFile(e.target.files?.[0])}
+        />
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+
+      {report && (
+        <div className="rounded-2xl border p-4 bg-zinc-50 space-y-3 text-sm">
+          <div className="font-semibold">Tuonti: {report.source}</div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <div className="font-semibold text-green-700">Löytyi ({report.found.length})</div>
+              <ul className="mt-1">
+                {report.found.map((x) => (
+                  <li key={x.k} className="flex justify-between gap-2">
+                    <span>{x.label}</span>
+                    <span>{String(x.value)}</span>
+                  </li>
+                ))}
+                {report.pricing.pricing_basis && (
+                  <li className="flex justify-between gap-2">
+                    <span>Hinnoitteluperuste</span>
+                    <span>{report.pricing.pricing_basis === "margin" ? "kate myyntihinnasta" : "lisä kustannukseen"}</span>
+                  </li>
+                )}
+                {report.pricing.markup_tiers && (
+                  <li className="flex justify-between gap-2">
+                    <span>Katetasot</span>
+                    <span>{report.pricing.markup_tiers.join(" / ")}</span>
+                  </li>
+                )}
+                {report.pricing.util_levels && (
+                  <li className="flex justify-between gap-2">
+                    <span>Laskutusastetaulukko</span>
+                    <span>{report.pricing.util_levels.join(" / ")}</span>
+                  </li>
+                )}
+              </ul>
+            </div>
+            <div>
+              <div className="font-semibold text-red-600">Sallitun välin ulkopuolella ({report.outOfRange.length})</div>
+              <ul className="mt-1">
+                {report.outOfRange.map((x) => (
+                  <li key={x.k}>
+                    {x.label}: {String(x.value)} <span className="text-zinc-600">(sallittu {x.min}–{x.max})</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+            <div>
+              <div className="font-semibold text-amber-700">Puuttuu ({report.missing.length})</div>
+              <ul className="mt-1">
+                {report.missing.map((x) => <li key={x.k}>{x.label}</li>)}
+              </ul>
+              {report.unknown.length > 0 && (
+                <div className="mt-2 text-zinc-600">Tuntemattomat kentät ohitetaan: {report.unknown.join(", ")}</div>
+              )}
+            </div>
+          </div>
+          <div className="text-zinc-600">
+            Vain löytyneet ja sallitulla välillä olevat arvot otetaan käyttöön; muut kentät säilyvät ennallaan.
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="px-3 py-2 rounded-2xl bg-black text-white text-sm disabled:opacity-50"
+              disabled={report.found.length === 0}
+              onClick={async () => {
+                const { applyImport } = await import("../importer");
+                onApply(applyImport(inputs, report));
+                setReport(null);
+              }}
+            >
+              Käytä {report.found.length} arvoa
+            </button>
+            <button className={btn} onClick={() => setReport(null)}>Peruuta</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from "react";
+
+/* -----------------------------  INPUTS  --------------------------------- */
+export function NumberInput({
+  value,
+  onChange,
+  readOnly = false,
+  className = "",
+}: {
+  value: number;
+  onChange: (n: number) => void;
+  readOnly?: boolean;
+  className?: string;
+}) {
+  const [text, setText] = useState<string>(() => String(value ?? ""));
+  const [focused, setFocused] = useState(false);
+
+  useEffect(() => {
+    if (!focused) setText(String(value ?? ""));
+  }, [value, focused]);
+
+  const toNum = (s: string) => {
+    if (s.trim() === "") return NaN;
+    return Number(s.replace(/\s/g, "").replace(/,/g, "."));
+  };
+
+  const commit = () => {
+    const n = toNum(text);
+    onChange(Number.isNaN(n) ? (value ?? 0) : n);
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      autoComplete="off"
+      className={`border rounded-xl px-3 py-2 text-right ${readOnly ? "bg-zinc-50 text-zinc-600 cursor-not-allowed" : ""} ${className || "w-48 md:w-56"}`}
+      value={text}
+      readOnly={readOnly}
+      onFocus={() => setFocused(true)}
+      onChange={(e) => { if (!readOnly) setText(e.target.value); }}
+      onBlur={() => { if (!readOnly) { setFocused(false); commit(); } }}
+      onKeyDown={(e) => { if (e.key === "Enter") (e.currentTarget as HTMLInputElement).blur(); }}
+    />
+  );
+}
+
+export function PercentInput({
+  valueDecimal,
+  onChangeDecimal,
+  readOnly = false,
+  className = "",
+  inputClassName = "",
+}: {
+  valueDecimal: number;
+  onChangeDecimal: (n: number) => void;
+  readOnly?: boolean;
+  className?: string;
+  inputClassName?: string;
+}) {
+  // Pyöristys poistaa liukulukuhännät (0.1738 * 100 = 17.380000000000003)
+  return (
+    <div className={`relative ${className || "w-48 md:w-56"}`}>
+      <NumberInput
+        className={`w-full pr-7 ${inputClassName}`}
+        value={Number((valueDecimal * 100).toFixed(8))}
+        readOnly={readOnly}
+        onChange={(n) => onChangeDecimal(Number((n / 100).toFixed(10)))}
+      />
+      <span className="absolute right-2 top-1/2 -translate-y-1/2 text-sm text-zinc-600">%</span>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import React from "react";
+import type { Inputs, PricingBasis } from "../calc";
+import { PercentInput } from "./NumberInput";
+
+type PriceSettings = Pick<Inputs, "markup_tiers" | "pricing_basis" | "util_levels">;
+
+const BASES: { basis: PricingBasis; label: string }[] = [
+  { basis: "markup", label: "Lisä kustannukseen (kustannus × (1 + %))" },
+  { basis: "margin", label: "Kate myyntihinnasta (kustannus / (1 − %))" },
+];
+
+const MAX_ROWS = 12;
+
+/** Prosenttilista lisäys- ja poistopainikkeineen; uusi rivi jatkaa viimeisestä askeleella `step`. */
+function PercentList({ values, step, onChange }: { values: number[]; step: number; onChange: (xs: number[]) => void }) {
+  const last = values[values.length - 1];
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {values.map((x, i) => (
+        <div key={i} className="flex items-center gap-1">
+          <PercentInput className="w-28" valueDecimal={x} onChangeDecimal={(n) => onChange(values.map((y, j) => (j === i ? n : y)))} />
+          <button
+            className="px-2 py-1 rounded-xl border bg-white hover:bg-zinc-50 text-sm"
+            title="Poista"
+            onClick={() => onChange(values.filter((_, j) => j !== i))}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      {values.length < MAX_ROWS && (
+        <button
+          className="px-3 py-1 rounded-2xl border bg-white hover:bg-zinc-50 text-sm"
+          onClick={() => onChange([...values, Number(((last ?? 0) + step).toFixed(4))])}
+        >
+          + Lisää
+        </button>
+      )}
+    </div>
+  );
+}
+
+/** Myyntihintojen katetasot, hinnoitteluperuste ja laskutusastetaulukon rivit. */
+export default function PriceTableSettings({ inputs, onChange }: { inputs: PriceSettings; onChange: (patch: Partial<PriceSettings>) => void }) {
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="space-y-1">
+        <div>Hinnoitteluperuste</div>
+        {BASES.map((b) => (
+          <label key={b.basis} className="flex items-center gap-2">
+            <input type="radio" name="pricing-basis" checked={inputs.pricing_basis === b.basis} onChange={() => onChange({ pricing_basis: b.basis })} />
+            {b.label}
+          </label>
+        ))}
+      </div>
+      <div className="space-y-1">
+        <div>Katetasot (nousevassa järjestyksessä; keskimmäinen on yhteenvetojen keskitaso)</div>
+        <PercentList values={inputs.markup_tiers} step={0.05} onChange={(markup_tiers) => onChange({ markup_tiers })} />
+      </div>
+      <div className="space-y-1">
+        <div>Laskutusastetaulukon rivit</div>
+        <PercentList values={inputs.util_levels} step={-0.05} onChange={(util_levels) => onChange({ util_levels })} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import React, { useMemo } from "react";
+import type { Crew, Inputs } from "../calc";
+import { fmtEUR, pct, tierLabel } from "../format";
+import { PROJECTION_YEARS, calcProjection, projectionAverage, type Escalation } from "../projection";
+import { PercentInput } from "./NumberInput";
+
+const RATES: { k: Exclude<keyof Escalation, "years">; label: string }[] = [
+  { k: "wage", label: "Palkankorotus %/v" },
+  { k: "social", label: "Sosiaalikulujen muutos %/v" },
+  { k: "perHead", label: "Henkilökohtaiset kulut %/v" },
+  { k: "shared", label: "Jaettavat kulut (vuokra, hallinto…) %/v" },
+];
+
+/** Monivuotinen ennuste: kustannus €/h ja myyntihinnat vuosittain korotuksilla. */
+export default function ProjectionView({
+  inputs,
+  crew,
+  escalation,
+  onChange,
+}: {
+  inputs: Inputs;
+  crew: Crew;
+  escalation: Escalation;
+  onChange: (e: Escalation) => void;
+}) {
+  const rows = useMemo(() => calcProjection(inputs, crew, escalation), [inputs, crew, escalation]);
+  const avg = projectionAverage(rows);
+  const tiers = inputs.markup_tiers.map((t) => tierLabel(t, inputs.pricing_basis));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-1">
+        <label className="flex items-center justify-between gap-4 py-1 text-sm">
+          <span>Ennusteen pituus</span>
+          <select
+            className="border rounded-xl px-3 py-2 bg-white w-48 md:w-56"
+            value={escalation.years}
+            onChange={(e) => onChange({ ...escalation, years: Number(e.target.value) })}
+          >
+            {PROJECTION_YEARS.map((n) => (
+              <option key={n} value={n}>{n} vuotta</option>
+            ))}
+          </select>
+        </label>
+        {RATES.map((x) => (
+          <label key={x.k} className="flex items-center justify-between gap-4 py-1 text-sm">
+            <span>{x.label}</span>
+            <PercentInput className="w-48 md:w-56" valueDecimal={escalation[x.k]} onChangeDecimal={(n) => onChange({ ...escalation, [x.k]: n })} />
+          </label>
+        ))}
+      </div>
+
+      <div className="overflow-auto">
+        <table className="w-full text-sm border rounded-xl">
+          <thead className="bg-zinc-50">
+            <tr>
+              <th className="text-left p-2 border">Vuosi</th>
+              <th className="text-right p-2 border">Tuntipalkka</th>
+              <th className="text-right p-2 border">Kustannus €/h</th>
+              <th className="text-right p-2 border">Muutos</th>
+              {tiers.map((t, i) => (
+                <th key={i} className="text-right p-2 border">{t}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.year} className="odd:bg-white even:bg-zinc-50">
+                <td className="p-2 border">{row.year}</td>
+                <td className="p-2 text-right border">{fmtEUR(row.inputs.hourly_wage)}</td>
+                <td className="p-2 text-right border">{fmtEUR(row.r.cost_per_billable_hour)}</td>
+                <td className="p-2 text-right border">{pct(row.change)}</td>
+                {row.r.sales.map((x, i) => (
+                  <td key={i} className="p-2 text-right border">{fmtEUR(x)}</td>
+                ))}
+              </tr>
+            ))}
+            <tr className="bg-zinc-50 font-semibold">
+              <td className="p-2 border" colSpan={2}>Keskiarvo {rows[0].year}–{rows[rows.length - 1].year}</td>
+              <td className="p-2 text-right border">{fmtEUR(avg.cost)}</td>
+              <td className="p-2 border" />
+              {avg.sales.map((x, i) => (
+                <td key={i} className="p-2 text-right border">{fmtEUR(x)}</td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-zinc-600">
+        Perusvuosi on nykyinen laskelma (alv 0 %). Korotukset lasketaan korkoa korolle; laskutusaste, tunnit ja katetasot pysyvät ennallaan.
+        Keskiarvo on tasahinta koko sopimuskaudelle.{crew.enabled && " Tiimimallissa korotukset koskevat myös ryhmien palkkoja ja kuluja."}
+      </div>
+    </div>
+  );
+}
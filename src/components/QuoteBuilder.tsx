@@ -0,0 +1,212 @@
+import React from "react";
+import { v4 as uuid } from "uuid";
+import type { Inputs } from "../calc";
+import { fmtEUR, fmtNum, pct, tierLabel } from "../format";
+import {
+  calcQuote,
+  type Quote,
+  type QuoteExpense,
+  type QuoteGrade,
+  type QuoteMaterial,
+  type QuoteTask,
+} from "../quote";
+import { NumberInput } from "./NumberInput";
+
+const btn = "px-3 py-2 rounded-2xl border bg-white hover:bg-zinc-50 text-sm";
+const text = "border rounded-xl px-3 py-2 w-full min-w-40";
+
+const EXPENSE_KINDS: { kind: QuoteExpense["kind"]; label: string; unit: string }[] = [
+  { kind: "travel", label: "Matkakulut", unit: "km / kpl" },
+  { kind: "site", label: "Työmaalisät", unit: "pv" },
+];
+
+/** Työkohtainen tarjous: tehtävien tunnit, materiaalit ja kulut sekä kattavuus nykyisellä laskutusasteella. */
+export default function QuoteBuilder({
+  quote,
+  onChange,
+  grades,
+  inputs,
+  utilization,
+  materialMarginPct,
+}: {
+  quote: Quote;
+  onChange: (q: Quote) => void;
+  grades: QuoteGrade[];
+  inputs: Inputs;
+  utilization: number;
+  materialMarginPct: number;
+}) {
+  const res = calcQuote(quote, grades, { ...inputs, utilization, materialMarginPct });
+  const lineOf = (id: string) => res.lines.find((l) => l.id === id);
+
+  const setTask = (id: string, patch: Partial<QuoteTask>) =>
+    onChange({ ...quote, tasks: quote.tasks.map((t) => (t.id === id ? { ...t, ...patch } : t)) });
+  const setMaterial = (id: string, patch: Partial<QuoteMaterial>) =>
+    onChange({ ...quote, materials: quote.materials.map((m) => (m.id === id ? { ...m, ...patch } : m)) });
+  const setExpense = (id: string, patch: Partial<QuoteExpense>) =>
+    onChange({ ...quote, expenses: quote.expenses.map((e) => (e.id === id ? { ...e, ...patch } : e)) });
+
+  const LineCells = ({ id }: { id: string }) => {
+    const l = lineOf(id);
+    if (!l) return null;
+    return (
+      <>
+        <td className="p-2 text-right border">{fmtEUR(l.cost)}</td>
+        <td className="p-2 text-right border">{fmtEUR(l.price)}</td>
+        <td className={"p-2 text-right border " + (l.margin < 0 ? "text-red-600" : "")}>
+          {fmtEUR(l.margin)} <span className="text-zinc-500">({pct(l.marginPct)})</span>
+        </td>
+      </>
+    );
+  };
+  const Remove = ({ onClick }: { onClick: () => void }) => (
+    <td className="p-1 border">
+      <button className={btn} onClick={onClick}>Poista</button>
+    </td>
+  );
+  const Head = ({ cols }: { cols: string[] }) => (
+    <thead className="bg-zinc-50">
+      <tr>
+        {cols.map((c, i) => (
+          <th key={c} className={`p-2 border ${i === 0 ? "text-left" : "text-right"}`}>{c}</th>
+        ))}
+        <th className="text-right p-2 border">Kustannus</th>
+        <th className="text-right p-2 border">Hinta (alv 0 %)</th>
+        <th className="text-right p-2 border">Kate</th>
+        <th className="p-2 border" />
+      </tr>
+    </thead>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <span>Työn hinnoittelutaso:</span>
+        {inputs.markup_tiers.map((t, i) => (
+          <label key={i} className="flex items-center gap-1">
+            <input type="radio" name="quote-tier" checked={quote.tier === i} onChange={() => onChange({ ...quote, tier: i })} />
+            {tierLabel(t, inputs.pricing_basis)}
+          </label>
+        ))}
+        <span className="text-zinc-600">Materiaalikate {pct(materialMarginPct, 0)} myyntihinnasta (Asentajan tuottavuus -välilehti)</span>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">Työ</h3>
+        <div className="overflow-auto">
+          <table className="w-full text-sm border rounded-xl">
+            <Head cols={["Tehtävä", "Tunnit", "Tekijä"]} />
+            <tbody>
+              {quote.tasks.map((t) => (
+                <tr key={t.id} className="odd:bg-white even:bg-zinc-50">
+                  <td className="p-1 border"><input className={text} value={t.name} onChange={(e) => setTask(t.id, { name: e.target.value })} /></td>
+                  <td className="p-1 border"><NumberInput className="w-24" value={t.hours} onChange={(n) => setTask(t.id, { hours: n })} /></td>
+                  <td className="p-1 border">
+                    <select className="border rounded-xl px-3 py-2" value={grades.some((g) => g.id === t.grade) ? t.grade : grades[0]?.id} onChange={(e) => setTask(t.id, { grade: e.target.value })}>
+                      {grades.map((g) => (
+                        <option key={g.id} value={g.id}>{g.name} ({fmtEUR(g.cost)}/h)</option>
+                      ))}
+                    </select>
+                  </td>
+                  <LineCells id={t.id} />
+                  <Remove onClick={() => onChange({ ...quote, tasks: quote.tasks.filter((x) => x.id !== t.id) })} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button
+          className={btn + " mt-2"}
+          onClick={() => onChange({ ...quote, tasks: [...quote.tasks, { id: uuid(), name: "", hours: 0, grade: grades[0]?.id ?? "" }] })}
+        >
+          Lisää tehtävä
+        </button>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">Materiaalit (ostohinta alv 0 %)</h3>
+        <div className="overflow-auto">
+          <table className="w-full text-sm border rounded-xl">
+            <Head cols={["Materiaali", "Määrä", "Ostohinta / kpl"]} />
+            <tbody>
+              {quote.materials.map((m) => (
+                <tr key={m.id} className="odd:bg-white even:bg-zinc-50">
+                  <td className="p-1 border"><input className={text} value={m.name} onChange={(e) => setMaterial(m.id, { name: e.target.value })} /></td>
+                  <td className="p-1 border"><NumberInput className="w-24" value={m.qty} onChange={(n) => setMaterial(m.id, { qty: n })} /></td>
+                  <td className="p-1 border"><NumberInput className="w-28" value={m.unitCost} onChange={(n) => setMaterial(m.id, { unitCost: n })} /></td>
+                  <LineCells id={m.id} />
+                  <Remove onClick={() => onChange({ ...quote, materials: quote.materials.filter((x) => x.id !== m.id) })} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <button className={btn + " mt-2"} onClick={() => onChange({ ...quote, materials: [...quote.materials, { id: uuid(), name: "", qty: 1, unitCost: 0 }] })}>
+          Lisää materiaali
+        </button>
+      </div>
+
+      <div>
+        <h3 className="font-semibold mb-2">Matkakulut ja työmaalisät (veloitetaan omakustannushintaan)</h3>
+        <div className="overflow-auto">
+          <table className="w-full text-sm border rounded-xl">
+            <Head cols={["Kulu", "Laji", "Määrä", "€ / yksikkö"]} />
+            <tbody>
+              {quote.expenses.map((e) => (
+                <tr key={e.id} className="odd:bg-white even:bg-zinc-50">
+                  <td className="p-1 border"><input className={text} value={e.name} onChange={(ev) => setExpense(e.id, { name: ev.target.value })} /></td>
+                  <td className="p-1 border">
+                    <select className="border rounded-xl px-3 py-2" value={e.kind} onChange={(ev) => setExpense(e.id, { kind: ev.target.value as QuoteExpense["kind"] })}>
+                      {EXPENSE_KINDS.map((k) => (
+                        <option key={k.kind} value={k.kind}>{k.label} ({k.unit})</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="p-1 border"><NumberInput className="w-24" value={e.qty} onChange={(n) => setExpense(e.id, { qty: n })} /></td>
+                  <td className="p-1 border"><NumberInput className="w-24" value={e.unitCost} onChange={(n) => setExpense(e.id, { unitCost: n })} /></td>
+                  <LineCells id={e.id} />
+                  <Remove onClick={() => onChange({ ...quote, expenses: quote.expenses.filter((x) => x.id !== e.id) })} />
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex gap-2 mt-2">
+          {EXPENSE_KINDS.map((k) => (
+            <button
+              key={k.kind}
+              className={btn}
+              onClick={() => onChange({ ...quote, expenses: [...quote.expenses, { id: uuid(), kind: k.kind, name: k.label, qty: 1, unitCost: 0 }] })}
+            >
+              Lisää {k.label.toLowerCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-3 rounded-xl border"><div className="text-sm text-zinc-600">Tarjous yhteensä (alv 0 %)</div><div className="font-semibold">{fmtEUR(res.price)}</div></div>
+        <div className="p-3 rounded-xl border"><div className="text-sm text-zinc-600">ALV {pct(inputs.vat_rate)}</div><div className="font-semibold">{fmtEUR(res.vat)}</div></div>
+        <div className="p-3 rounded-xl border"><div className="text-sm text-zinc-600">Tarjous yhteensä (sis. alv)</div><div className="font-semibold">{fmtEUR(res.priceVat)}</div></div>
+        <div className="p-3 rounded-xl border"><div className="text-sm text-zinc-600">Kustannukset yhteensä</div><div className="font-semibold">{fmtEUR(res.cost)}</div></div>
+        <div className="p-3 rounded-xl border"><div className="text-sm text-zinc-600">Kate € ja % hinnasta</div><div className={"font-semibold " + (res.margin < 0 ? "text-red-600" : "")}>{fmtEUR(res.margin)} ({pct(res.marginPct)})</div></div>
+        <div className="p-3 rounded-xl border"><div className="text-sm text-zinc-600">Työtunnit yhteensä</div><div className="font-semibold">{fmtNum(res.labourHours, 1)} h</div></div>
+      </div>
+
+      <div className={`rounded-2xl border p-4 ${res.covers ? "bg-zinc-50" : "bg-red-50 border-red-300"}`}>
+        <div className={"font-semibold " + (res.covers ? "" : "text-red-700")}>
+          {res.covers
+            ? `Tarjous kattaa kustannukset nykyisellä laskutusasteella ${pct(utilization)}.`
+            : `Tarjous ei kata kustannuksia nykyisellä laskutusasteella ${pct(utilization)} — vajaus ${fmtEUR(res.cost - res.price)}.`}
+        </div>
+        {res.labourCost > 0 && (
+          <div className="text-sm text-zinc-600 mt-1">
+            {isFinite(res.breakEvenUtilization)
+              ? `Työn hinta riittää kustannuksiin, kun laskutusaste on vähintään ${pct(res.breakEvenUtilization)}.`
+              : "Tarjous ei kata kustannuksia millään laskutusasteella."}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import React from "react";
+import type { EffectiveResult, HelperRow, Inputs } from "../calc";
+import { RESULT_FIELDS } from "../fields";
+import { fmtEUR, fmtKind, pct, tierLabel } from "../format";
+import { CrewResults } from "./CrewRoster";
+
+/** Tuntihinta-välilehden tulokset: tiimi, tunnusluvut, hinnat laskutusasteittain ja erittely. */
+export default function RateResults({
+  eff,
+  helperRows,
+  pricing,
+}: {
+  eff: EffectiveResult;
+  helperRows: HelperRow[];
+  pricing: Pick<Inputs, "markup_tiers" | "pricing_basis">;
+}) {
+  const r = eff.r;
+  return (
+    <>
+      {eff.crew && (
+        <div className="mb-6">
+          <div className="font-semibold mb-1">Tiimi — kustannus €/laskutettava tunti henkilöittäin</div>
+          <CrewResults result={eff.crew} />
+          <div className="text-xs text-zinc-600 mt-1">
+            Alla olevat luvut ovat tiimin painotettu keskiasentaja (laskutusaste {pct(eff.utilization)}).
+          </div>
+        </div>
+      )}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div>
+          {RESULT_FIELDS.map((f) => (
+            <div key={f.k} className="flex justify-between py-1"><span>{f.label}</span><strong>{fmtKind(f.kind, r[f.k])}</strong></div>
+          ))}
+
+          <div className="mt-6">
+            <div className="font-semibold mb-1">Hinta €/h eri laskutusasteilla — omakustannus & myyntihinnat</div>
+            <div className="overflow-auto">
+              <table className="w-full text-sm border rounded-xl">
+                <thead className="bg-zinc-50">
+                  <tr>
+                    <th className="text-left p-2 border">Laskutusaste</th>
+                    <th className="text-right p-2 border">Kustannus €/h</th>
+                    {pricing.markup_tiers.flatMap((t, i) => [
+                      <th key={`${i}`} className="text-right p-2 border">{tierLabel(t, pricing.pricing_basis)}</th>,
+                      <th key={`${i}v`} className="text-right p-2 border">{tierLabel(t, pricing.pricing_basis)} (ALV)</th>,
+                    ])}
+                  </tr>
+                </thead>
+                <tbody>
+                  {helperRows.map((row, i) => (
+                    <tr key={i} className="odd:bg-white even:bg-zinc-50">
+                      <td className="p-2 border">{pct(row.lvl, 0)}</td>
+                      <td className="p-2 text-right border">{fmtEUR(row.kustEh)}</td>
+                      {row.prices.flatMap((p, j) => [
+                        <td key={`${j}`} className="p-2 text-right border">{fmtEUR(p)}</td>,
+                        <td key={`${j}v`} className="p-2 text-right border">{fmtEUR(row.pricesVat[j])}</td>,
+                      ])}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="text-xs text-zinc-600 mt-1">
+              Päivälaskurin kenttä <em>Asentajan kustannus €/h</em> lukittuu 100 %:n laskutusasteen omakustannukseen (ilman katetta).
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <div className="text-center font-semibold">Hinnoittelun erittely €/h (laskutettaville tunneille)</div>
+          <div className="border rounded-xl mt-2">
+            {r.breakdown.map((x, i) => (
+              <div key={i} className="flex justify-between px-3 py-1 border-b last:border-b-0">
+                <span>{x.name}</span>
+                <span>{fmtEUR(x.value)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between px-3 py-2 bg-zinc-50 font-semibold rounded-b-xl">
+              <span>Yhteensä kustannus €/h ({pct(eff.utilization, 0)})</span>
+              <span>{fmtEUR(r.breakdown_total)}</span>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,76 @@
+import React, { useState } from "react";
+import { midTierIndex, type Inputs } from "../calc";
+import { fmtEUR, pct, tierLabel } from "../format";
+import { netPrice, solveHourlyWage, solveMarkup, solveUtilization } from "../solver";
+import { NumberInput } from "./NumberInput";
+
+/** Käänteislaskenta: tavoitehinnasta tarvittava kate, laskutusaste tai suurin tuntipalkka. */
+export default function ReverseSolver({
+  inputs,
+  cost_per_billable_hour,
+  crewEnabled,
+}: {
+  inputs: Inputs;
+  cost_per_billable_hour: number;
+  crewEnabled: boolean;
+}) {
+  const [price, setPrice] = useState(70);
+  const [withVat, setWithVat] = useState(false);
+  const [chosen, setTier] = useState(() => midTierIndex(inputs.markup_tiers));
+  // Tasoja on voitu poistaa valinnan jälkeen
+  const tier = Math.min(chosen, inputs.markup_tiers.length - 1);
+  const label = tierLabel(inputs.markup_tiers[tier], inputs.pricing_basis);
+
+  const net = netPrice(price, withVat, inputs.vat_rate);
+  const markup = solveMarkup(cost_per_billable_hour, net, inputs.pricing_basis);
+  const util = solveUtilization(inputs, net, tier);
+  const wage = solveHourlyWage(inputs, net, tier);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm">
+          Tavoitehinta €/h
+          <NumberInput className="w-32" value={price} onChange={setPrice} />
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          <input type="checkbox" checked={withVat} onChange={(e) => setWithVat(e.target.checked)} />
+          sisältää ALV {pct(inputs.vat_rate)}
+        </label>
+        <label className="flex items-center gap-2 text-sm">
+          Hinnoittelutaso
+          <select className="border rounded-xl px-3 py-2 bg-white" value={tier} onChange={(e) => setTier(Number(e.target.value))}>
+            {inputs.markup_tiers.map((t, i) => (
+              <option key={i} value={i}>{tierLabel(t, inputs.pricing_basis)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="p-3 rounded-xl border">
+          <div className="text-sm text-zinc-600">
+            {inputs.pricing_basis === "margin" ? "Tarvittava kate myyntihinnasta" : "Tarvittava lisä kustannukseen"} nykyisellä kustannuksella
+          </div>
+          <div className={"font-semibold " + (markup < 0 ? "text-red-600" : "")}>{pct(markup)}</div>
+          <div className="text-xs text-zinc-600">Kustannus {fmtEUR(cost_per_billable_hour)}/h, tavoite alv 0 % {fmtEUR(net)}/h</div>
+        </div>
+        <div className="p-3 rounded-xl border">
+          <div className="text-sm text-zinc-600">Tarvittava laskutusaste ({label})</div>
+          <div className={"font-semibold " + (util > 1 ? "text-red-600" : "")}>{pct(util)}</div>
+          {util > 1 && <div className="text-xs text-red-600">Yli 100 % — tavoitehinta ei riitä tällä tasolla.</div>}
+        </div>
+        <div className="p-3 rounded-xl border">
+          <div className="text-sm text-zinc-600">Suurin tuntipalkka ({label})</div>
+          <div className={"font-semibold " + (wage < 0 ? "text-red-600" : "")}>{fmtEUR(wage)}/h</div>
+          {wage < 0 && <div className="text-xs text-red-600">Muut kulut ylittävät jo tavoitehinnan.</div>}
+        </div>
+      </div>
+      {crewEnabled && (
+        <div className="text-xs text-zinc-600">
+          Kate lasketaan tiimin painotetusta kustannuksesta; laskutusaste ja tuntipalkka perusparametrien asentajalle.
+        </div>
+      )}
+    </div>
+  );
+}
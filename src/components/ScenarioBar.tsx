@@ -0,0 +1,65 @@
+import React from "react";
+import type { ScenarioStore } from "../scenarios";
+
+export default function ScenarioBar({
+  store,
+  onSelect,
+  onNew,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: {
+  store: ScenarioStore;
+  onSelect: (id: string) => void;
+  onNew: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const active = store.scenarios.find((s) => s.id === store.activeId);
+  const btn = "px-3 py-2 rounded-2xl border bg-white hover:bg-zinc-50 text-sm disabled:opacity-50";
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-zinc-600">Skenaario</span>
+      <select
+        className="border rounded-xl px-3 py-2 bg-white"
+        value={store.activeId}
+        onChange={(e) => onSelect(e.target.value)}
+      >
+        {store.scenarios.map((s) => (
+          <option key={s.id} value={s.id}>{s.name}</option>
+        ))}
+      </select>
+      <button
+        className={btn}
+        onClick={() => {
+          const name = prompt("Uuden skenaarion nimi", `Skenaario ${store.scenarios.length + 1}`);
+          if (name && name.trim()) onNew(name.trim());
+        }}
+      >
+        Uusi
+      </button>
+      <button
+        className={btn}
+        onClick={() => {
+          if (!active) return;
+          const name = prompt("Nimeä skenaario uudelleen", active.name);
+          if (name && name.trim()) onRename(active.id, name.trim());
+        }}
+      >
+        Nimeä
+      </button>
+      <button className={btn} onClick={() => active && onDuplicate(active.id)}>Kopioi</button>
+      <button
+        className={btn}
+        disabled={store.scenarios.length <= 1}
+        onClick={() => {
+          if (active && confirm(`Poistetaanko skenaario "${active.name}"?`)) onDelete(active.id);
+        }}
+      >
+        Poista
+      </button>
+    </div>
+  );
+}
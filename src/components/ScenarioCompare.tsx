@@ -0,0 +1,108 @@
+import React, { useMemo, useState } from "react";
+import { calcEffective, type CalcResult } from "../calc";
+import { fmtEUR, fmtNum, pct } from "../format";
+import type { Scenario } from "../scenarios";
+
+const MAX_COMPARE = 3;
+
+type Metric = { label: string; get: (r: CalcResult) => number; fmt: (n: number) => string };
+
+const METRICS: Metric[] = [
+  { label: "Kustannus €/laskutettava tunti", get: (r) => r.cost_per_billable_hour, fmt: fmtEUR },
+  { label: "Kokonaiskustannus / asentaja / vuosi", get: (r) => r.total_cost_year, fmt: fmtEUR },
+  { label: "Myyntihinta €/h (alapää)", get: (r) => r.sales_low, fmt: fmtEUR },
+  { label: "Myyntihinta €/h (keskitaso)", get: (r) => r.sales_mid, fmt: fmtEUR },
+  { label: "Myyntihinta €/h (yläpää)", get: (r) => r.sales_high, fmt: fmtEUR },
+  { label: "Palkka + sivukulut €", get: (r) => r.pay_with_social, fmt: fmtEUR },
+  { label: "Yleiskulut / asentaja yhteensä", get: (r) => r.overheads_total, fmt: fmtEUR },
+  { label: "Läsnäolotunnit / vuosi", get: (r) => r.attendance_hours_year, fmt: (n) => fmtNum(n, 0) },
+  { label: "Laskutettavat tunnit / vuosi", get: (r) => r.billable_hours_year, fmt: (n) => fmtNum(n, 0) },
+];
+
+/** Skenaarioiden rinnakkaisvertailu; erotus lasketaan ensimmäiseen valittuun nähden. */
+export default function ScenarioCompare({ scenarios }: { scenarios: Scenario[] }) {
+  const [ids, setIds] = useState<string[]>(() => scenarios.slice(0, 2).map((s) => s.id));
+
+  const selected = useMemo(
+    () =>
+      ids
+        .map((id) => scenarios.find((s) => s.id === id))
+        .filter((s): s is Scenario => !!s)
+        .map((s) => ({ s, r: calcEffective(s.inputs, s.crew).r })),
+    [ids, scenarios]
+  );
+
+  const setAt = (i: number, id: string) =>
+    setIds((cur) => {
+      const next = [...cur];
+      if (id) next[i] = id;
+      else next.splice(i, 1);
+      return next;
+    });
+
+  const slots = Math.min(MAX_COMPARE, Math.max(ids.length + 1, 2), scenarios.length);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-3">
+        {Array.from({ length: slots }, (_, i) => (
+          <select
+            key={i}
+            className="border rounded-xl px-3 py-2 bg-white"
+            value={ids[i] ?? ""}
+            onChange={(e) => setAt(i, e.target.value)}
+          >
+            <option value="">{i === 0 ? "Valitse perusskenaario" : "– ei valittu –"}</option>
+            {scenarios.map((s) => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        ))}
+      </div>
+
+      {selected.length === 0 ? (
+        <div className="text-sm text-zinc-600">Valitse vertailtavat skenaariot.</div>
+      ) : (
+        <div className="overflow-auto">
+          <table className="w-full text-sm border rounded-xl">
+            <thead className="bg-zinc-50">
+              <tr>
+                <th className="text-left p-2 border">Tunnusluku</th>
+                {selected.map(({ s }, i) => (
+                  <th key={s.id + i} className="text-right p-2 border">
+                    {s.name}
+                    {i > 0 && <span className="block font-normal text-zinc-600">erotus</span>}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {METRICS.map((m) => {
+                const base = m.get(selected[0].r);
+                return (
+                  <tr key={m.label} className="odd:bg-white even:bg-zinc-50">
+                    <td className="p-2 border">{m.label}</td>
+                    {selected.map(({ s, r }, i) => {
+                      const val = m.get(r);
+                      const d = val - base;
+                      return (
+                        <td key={s.id + i} className="p-2 text-right border">
+                          <div>{m.fmt(val)}</div>
+                          {i > 0 && (
+                            <div className="text-xs text-zinc-600">
+                              {d > 0 ? "+" : ""}{m.fmt(d)} ({base !== 0 ? (d > 0 ? "+" : "") + pct(d / base) : "–"})
+                            </div>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import React, { useMemo, useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  Pie,
+  PieChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import type { BreakdownItem, Inputs } from "../calc";
+import { fmtEUR, fmtNum, pct } from "../format";
+import { SENSITIVITY_VARS, sensitivityLine, tornado, type SensitivityVar } from "../sensitivity";
+
+const COLORS = ["#18181b", "#2563eb", "#16a34a", "#d97706", "#dc2626", "#7c3aed", "#0891b2", "#db2777", "#65a30d", "#ea580c", "#4f46e5", "#0d9488", "#a16207"];
+
+const fmtX = (sv: SensitivityVar, x: number) =>
+  sv.kind === "pct" ? pct(x, 0) : sv.kind === "eur" ? fmtEUR(x) : sv.kind === "days" ? `${fmtNum(x, 0)} pv` : pct(x, 0);
+
+type Metric = "profit_year" | "cost_per_billable_hour";
+const METRIC_LABEL: Record<Metric, string> = {
+  profit_year: "Vuosikate / asentaja (hinta kiinteä)",
+  cost_per_billable_hour: "Kustannus €/laskutettava tunti",
+};
+
+/** Tornado: vaikutus perusarvoon, kun muuttuja viedään vaihteluvälinsä ala- ja yläpäähän. */
+export function TornadoChart({ inputs }: { inputs: Inputs }) {
+  const [metric, setMetric] = useState<Metric>("profit_year");
+  const t = useMemo(() => tornado(inputs), [inputs]);
+  const data = t.rows.map((row) => {
+    const sv = SENSITIVITY_VARS.find((x) => x.key === row.key)!;
+    return {
+      label: `${row.label} (${fmtX(sv, row.low.x)} – ${fmtX(sv, row.high.x)})`,
+      low: row.low[metric] - t.base[metric],
+      high: row.high[metric] - t.base[metric],
+    };
+  });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <span>Mittari</span>
+        <select className="border rounded-xl px-3 py-2 bg-white" value={metric} onChange={(e) => setMetric(e.target.value as Metric)}>
+          {(Object.keys(METRIC_LABEL) as Metric[]).map((m) => <option key={m} value={m}>{METRIC_LABEL[m]}</option>)}
+        </select>
+        <span className="text-zinc-600">perusarvo {fmtEUR(t.base[metric])}</span>
+      </div>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} layout="vertical" stackOffset="sign" margin={{ left: 24, right: 24 }}>
+            <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+            <XAxis type="number" tickFormatter={(n) => fmtNum(n, 0)} />
+            <YAxis type="category" dataKey="label" width={230} tick={{ fontSize: 12 }} />
+            <Tooltip formatter={(n: number) => (n > 0 ? "+" : "") + fmtEUR(n)} />
+            <Legend />
+            <ReferenceLine x={0} stroke="#18181b" />
+            <Bar dataKey="low" name="Alapää" stackId="s" fill="#2563eb" />
+            <Bar dataKey="high" name="Yläpää" stackId="s" fill="#d97706" />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+}
+
+/** Viivakaaviot: kustannus €/h ja vuosikate jokaisen muuttujan vaihteluvälillä. */
+export function SensitivityLines({ inputs }: { inputs: Inputs }) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      {SENSITIVITY_VARS.map((sv) => {
+        const data = sensitivityLine(inputs, sv).map((p) => ({ ...p, xLabel: fmtX(sv, p.x) }));
+        return (
+          <div key={sv.key}>
+            <div className="font-semibold text-sm mb-1">{sv.label} (nyt {fmtX(sv, sv.base(inputs))})</div>
+            <div className="h-56">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={data} margin={{ left: 8, right: 8 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="xLabel" tick={{ fontSize: 11 }} />
+                  <YAxis yAxisId="cost" tickFormatter={(n) => fmtNum(n, 0)} width={40} />
+                  <YAxis yAxisId="profit" orientation="right" tickFormatter={(n) => fmtNum(n / 1000, 0) + "k"} width={44} />
+                  <Tooltip formatter={(n: number) => fmtEUR(n)} />
+                  <Legend />
+                  <Line yAxisId="cost" dataKey="cost_per_billable_hour" name="Kustannus €/h" stroke="#18181b" dot={false} />
+                  <Line yAxisId="profit" dataKey="profit_year" name="Vuosikate €" stroke="#16a34a" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/** Hinnoittelun erittely €/h piirakkana (nollarivit jätetään pois). */
+export function BreakdownPie({ breakdown }: { breakdown: BreakdownItem[] }) {
+  const data = breakdown.filter((x) => isFinite(x.value) && x.value > 0);
+  return (
+    <div className="h-80">
+      <ResponsiveContainer width="100%" height="100%">
+        <PieChart>
+          <Pie data={data} dataKey="value" nameKey="name" innerRadius="45%" outerRadius="80%" paddingAngle={1}>
+            {data.map((x, i) => <Cell key={x.name} fill={COLORS[i % COLORS.length]} />)}
+          </Pie>
+          <Tooltip formatter={(n: number) => fmtEUR(n)} />
+          <Legend layout="vertical" align="right" verticalAlign="middle" />
+        </PieChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import React, { useState } from "react";
+import { encodeShare, shareUrl, type ShareSnapshot } from "../share";
+
+/** Luo lukulinkin nykyisestä laskelmasta ja kopioi sen leikepöydälle. */
+export default function ShareLink({ snapshot }: { snapshot: () => ShareSnapshot }) {
+  const [url, setUrl] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  const create = async () => {
+    const link = shareUrl(await encodeShare(snapshot()));
+    setUrl(link);
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <>
+      <button className="px-3 py-2 rounded-2xl border bg-white hover:bg-zinc-50 text-sm" onClick={create}>
+        Jaa lukulinkki
+      </button>
+      {url && (
+        <div className="basis-full flex flex-wrap items-center justify-end gap-2 text-sm">
+          <input className="border rounded-xl px-3 py-2 w-full md:w-[32rem]" readOnly value={url} onFocus={(e) => e.currentTarget.select()} />
+          <span className="text-zinc-600">
+            {copied ? "Kopioitu leikepöydälle." : "Kopioi linkki."} Linkki sisältää syötteet sellaisinaan; se ei vanhene eikä päivity.
+          </span>
+        </div>
+      )}
+    </>
+  );
+}
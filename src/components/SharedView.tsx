@@ -0,0 +1,99 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { calcEffective, calcHelperRows } from "../calc";
+import { PAYMENT_LINK_URL, hasAccess } from "../config";
+import { INPUT_FIELDS } from "../fields";
+import { fmtEUR, fmtNum, pct } from "../format";
+import { addScenario, loadScenarios, newScenario, saveScenarios } from "../scenarios";
+import { decodeShare, type ShareSnapshot } from "../share";
+import Footer from "./Footer";
+import RateResults from "./RateResults";
+
+const PV_FIELDS: { k: keyof ShareSnapshot["pv"]; label: string; eur?: boolean }[] = [
+  { k: "billRate", label: "Laskutustunti (alv 0 %)", eur: true },
+  { k: "hoursPerDay", label: "Työpäivän tunnit (h)" },
+  { k: "billableHours", label: "Laskutettavat tunnit (h)" },
+  { k: "otherCostsPerHour", label: "Muut kulut €/h", eur: true },
+];
+
+/** Jakolinkin lukunäkymä: tulokset ilman lisenssiä, lisenssillä kopio omiin skenaarioihin. */
+export default function SharedView({ encoded }: { encoded: string }) {
+  const [snap, setSnap] = useState<ShareSnapshot | null | undefined>(undefined);
+
+  useEffect(() => {
+    decodeShare(encoded).then(setSnap);
+  }, [encoded]);
+
+  const eff = useMemo(() => (snap ? calcEffective(snap.inputs, snap.crew) : null), [snap]);
+  const helperRows = useMemo(
+    () => (snap && eff ? calcHelperRows(eff.r.cost_per_billable_hour, { ...snap.inputs, utilization: eff.utilization }) : []),
+    [snap, eff]
+  );
+
+  const openApp = () => window.location.replace(window.location.pathname + window.location.search);
+
+  const copyToScenarios = () => {
+    if (!snap) return;
+    const { name, createdAt: _createdAt, ...data } = snap;
+    saveScenarios(addScenario(loadScenarios(), newScenario(`${name} (jaettu)`, data)));
+    openApp();
+  };
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-4">
+      {snap === undefined && <div className="text-sm text-zinc-600">Avataan jaettua laskelmaa…</div>}
+      {snap === null && (
+        <div className="bg-white rounded-2xl shadow p-5 space-y-2">
+          <h2 className="text-xl font-semibold">Linkki ei kelpaa</h2>
+          <div className="text-sm text-zinc-600">Jakolinkki on vajaa tai vanhentuneesta versiosta. Pyydä lähettäjältä uusi linkki.</div>
+        </div>
+      )}
+      {snap && eff && (
+        <>
+          <div className="bg-white rounded-2xl shadow p-5 flex flex-wrap items-center gap-3">
+            <div className="mr-auto">
+              <h2 className="text-xl font-semibold">{snap.name}</h2>
+              <div className="text-sm text-zinc-600">
+                Jaettu laskelma (vain luku){snap.createdAt ? `, luotu ${new Date(snap.createdAt).toLocaleString("fi-FI")}` : ""}
+              </div>
+            </div>
+            {hasAccess() ? (
+              <button className="px-4 py-2 rounded-2xl border bg-black text-white" onClick={copyToScenarios}>
+                Kopioi omiin skenaarioihin
+              </button>
+            ) : (
+              <div className="text-sm text-zinc-600">
+                Muokattava kopio vaatii lisenssin.{" "}
+                {PAYMENT_LINK_URL && <a className="underline" href={PAYMENT_LINK_URL}>Hanki lisenssi</a>}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-2xl shadow p-5">
+            <h2 className="text-xl font-semibold mb-4">Laskelman tulokset (alv 0 %, ellei toisin mainita)</h2>
+            <RateResults eff={eff} helperRows={helperRows} pricing={snap.inputs} />
+          </div>
+
+          <details className="bg-white rounded-2xl shadow p-5">
+            <summary className="text-xl font-semibold cursor-pointer">Syötteet</summary>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 mt-4 text-sm">
+              {INPUT_FIELDS.map((f) => (
+                <div key={f.k} className="flex justify-between py-1 border-b">
+                  <span>{f.label}</span>
+                  <span>{f.percent ? pct(snap.inputs[f.k], 2) : f.k === "year" ? snap.inputs.year : fmtNum(snap.inputs[f.k], 2)}</span>
+                </div>
+              ))}
+              {PV_FIELDS.map((f) => (
+                <div key={f.k} className="flex justify-between py-1 border-b">
+                  <span>Tuottavuus: {f.label}</span>
+                  <span>{f.eur ? fmtEUR(snap.pv[f.k]) : fmtNum(snap.pv[f.k], 1)}</span>
+                </div>
+              ))}
+            </div>
+          </details>
+        </>
+      )}
+      <button className="text-sm underline text-zinc-600" onClick={openApp}>Avaa oma laskuri</button>
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { RATE_LIMIT_MESSAGE, getSyncRecord, putSyncRecord } from "../licenseApi";
+import { parseScenarioStore, type ScenarioStore } from "../scenarios";
+import { loadSyncMeta, mergeRemote, saveSyncMeta, syncAction, syncPayload, type SyncMeta, type SyncRecord } from "../sync";
+
+const fmtTime = (ms: number) => new Date(ms).toLocaleString("fi-FI", { dateStyle: "short", timeStyle: "short" });
+
+/** Muutosten vienti odottaa hetken, ettei jokainen näppäily lähde palvelimelle. */
+const PUSH_DELAY_MS = 2000;
+
+/** Skenaarioiden synkronointi lisenssillä: valinnainen, viimeisin muutos voittaa. */
+export default function SyncPanel({
+  licenseKey,
+  store,
+  onRemote,
+}: {
+  licenseKey: string;
+  store: ScenarioStore;
+  onRemote: (st: ScenarioStore) => void;
+}) {
+  const [meta, setMeta] = useState<SyncMeta>(loadSyncMeta);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [busy, setBusy] = useState(false);
+  const storeRef = useRef(store);
+  storeRef.current = store;
+  const metaRef = useRef(meta);
+  const running = useRef(false);
+
+  const commit = (m: SyncMeta) => {
+    metaRef.current = m;
+    saveSyncMeta(m);
+    setMeta(m);
+  };
+
+  const applyRemote = (rec: SyncRecord, m: SyncMeta): SyncMeta => {
+    const remote = parseScenarioStore({ ...(rec.data as object), updatedAt: rec.updatedAt });
+    if (remote) {
+      onRemote(mergeRemote(storeRef.current, remote));
+      setNotice(`Päivitetty palvelimelta: ${rec.deviceName}, muutettu ${fmtTime(rec.updatedAt)}.`);
+    }
+    return { ...m, pushedAt: rec.updatedAt, remoteAt: rec.updatedAt, remoteDevice: rec.deviceName };
+  };
+
+  const run = useCallback(async () => {
+    if (!metaRef.current.enabled || running.current) return;
+    running.current = true;
+    setBusy(true);
+    try {
+      const local = storeRef.current;
+      const got = await getSyncRecord(licenseKey);
+      if (!got.ok) throw new Error(got.reason);
+      let m = metaRef.current;
+      const remote = got.record;
+      const action = syncAction(local.updatedAt, m, remote);
+      if (action === "pull" && remote) {
+        m = applyRemote(remote, m);
+      } else if (action === "push") {
+        const put = await putSyncRecord(licenseKey, syncPayload(local), local.updatedAt);
+        if (put.ok) m = { ...m, pushedAt: local.updatedAt, remoteAt: put.record.updatedAt, remoteDevice: put.record.deviceName };
+        else if (put.reason === "stale" && put.record) m = applyRemote(put.record, m);
+        else throw new Error(put.reason);
+      } else if (remote) {
+        m = { ...m, remoteAt: remote.updatedAt, remoteDevice: remote.deviceName };
+      }
+      commit({ ...m, lastSyncAt: Date.now() });
+      setError("");
+    } catch (e) {
+      const reason = e instanceof Error ? e.message : "";
+      setError(
+        reason === "rate-limit" ? RATE_LIMIT_MESSAGE : reason === "license" ? "Synkronointi vaatii voimassa olevan lisenssin." : "Ei yhteyttä palveluun."
+      );
+    } finally {
+      running.current = false;
+      setBusy(false);
+    }
+  }, [licenseKey]);
+
+  // Paikallinen muutos → vienti viiveellä
+  useEffect(() => {
+    if (!meta.enabled) return;
+    const t = setTimeout(run, PUSH_DELAY_MS);
+    return () => clearTimeout(t);
+  }, [meta.enabled, store.updatedAt, run]);
+
+  // Toisella laitteella tehdyt muutokset haetaan, kun sovellus tulee näkyviin
+  useEffect(() => {
+    if (!meta.enabled) return;
+    const onVisible = () => document.visibilityState === "visible" && run();
+    document.addEventListener("visibilitychange", onVisible);
+    window.addEventListener("focus", onVisible);
+    return () => {
+      document.removeEventListener("visibilitychange", onVisible);
+      window.removeEventListener("focus", onVisible);
+    };
+  }, [meta.enabled, run]);
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={meta.enabled} onChange={(e) => commit({ ...meta, enabled: e.target.checked })} />
+        Synkronoi skenaariot laitteiden välillä
+      </label>
+      {meta.enabled && (
+        <>
+          <span className="text-zinc-600">
+            Tällä laitteella muutettu {store.updatedAt ? fmtTime(store.updatedAt) : "–"}
+            {" · "}palvelimella {meta.remoteAt ? `${fmtTime(meta.remoteAt)}${meta.remoteDevice ? ` (${meta.remoteDevice})` : ""}` : "–"}
+          </span>
+          <button className="px-3 py-1 rounded-2xl border bg-white hover:bg-zinc-50 disabled:opacity-50" disabled={busy} onClick={run}>
+            {busy ? "Synkronoidaan…" : "Synkronoi nyt"}
+          </button>
+          <span className="text-xs text-zinc-500">Ristiriidassa viimeisin muutos voittaa.</span>
+        </>
+      )}
+      {notice && <span className="text-emerald-700">{notice}</span>}
+      {error && <span className="text-red-600">{error}</span>}
+    </div>
+  );
+}
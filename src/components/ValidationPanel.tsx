@@ -0,0 +1,28 @@
+import React from "react";
+import { FIELD_BY_KEY, type NumericInputKey } from "../fields";
+import type { Validation } from "../validation";
+
+/** Yhteenveto virheellisistä kentistä ja epäuskottavista yhdistelmistä. */
+export default function ValidationPanel({ validation, onShowInputs }: { validation: Validation; onShowInputs?: () => void }) {
+  const errorKeys = Object.keys(validation.errors) as NumericInputKey[];
+  if (errorKeys.length === 0 && validation.warnings.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl border border-amber-300 bg-amber-50 p-4 text-sm space-y-2">
+      <div className="font-semibold text-amber-800">Tarkista syötteet</div>
+      {errorKeys.length > 0 && (
+        <div className="text-red-700">
+          Virheelliset kentät: {errorKeys.map((k) => `${FIELD_BY_KEY[k].label} (${validation.errors[k]})`).join(", ")}
+        </div>
+      )}
+      {validation.warnings.length > 0 && (
+        <ul className="list-disc pl-5 text-amber-900">
+          {validation.warnings.map((w) => <li key={w}>{w}</li>)}
+        </ul>
+      )}
+      {onShowInputs && (
+        <button className="underline text-amber-900" onClick={onShowInputs}>Siirry syötteisiin</button>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,8 @@ export const COPYRIGHT_YEAR = 2025;
 
 export const REQUIRE_ACCESS = String(import.meta.env.VITE_REQUIRE_ACCESS || "true").toLowerCase() === "true";
 export const PAYMENT_LINK_URL = String(import.meta.env.VITE_PAYMENT_LINK_URL || "");
+/** Käyttöoikeustunnisteiden Ed25519-julkinen avain (JWK:n x, base64url). */
+export const ENTITLEMENT_PUBLIC_KEY = String(import.meta.env.VITE_ENTITLEMENT_PUBLIC_KEY || "");
 
 const LS_KEY = "tuntihinta_access_key";
 
@@ -21,3 +23,30 @@ export function currentAccessKey(): string | null {
 export function revokeAccess() {
   localStorage.removeItem(LS_KEY);
 }
+
+const DEVICE_ID_KEY = "tuntihinta_device_id";
+const DEVICE_NAME_KEY = "tuntihinta_device_name";
+
+/** Pysyvä laitetunniste lisenssin laitepaikkoja varten. */
+export function deviceId(): string {
+  let id = localStorage.getItem(DEVICE_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID ? crypto.randomUUID() : Math.random().toString(36).slice(2) + Date.now().toString(36);
+    localStorage.setItem(DEVICE_ID_KEY, id);
+  }
+  return id;
+}
+
+function guessDeviceName(): string {
+  const ua = navigator.userAgent;
+  const os = /Windows/.test(ua) ? "Windows" : /iPhone|iPad/.test(ua) ? "iOS" : /Android/.test(ua) ? "Android" : /Mac/.test(ua) ? "Mac" : /Linux/.test(ua) ? "Linux" : "Laite";
+  const browser = /Edg\//.test(ua) ? "Edge" : /Firefox\//.test(ua) ? "Firefox" : /Chrome\//.test(ua) ? "Chrome" : /Safari\//.test(ua) ? "Safari" : "";
+  return browser ? `${os} – ${browser}` : os;
+}
+
+export function deviceName(): string {
+  return localStorage.getItem(DEVICE_NAME_KEY) || guessDeviceName();
+}
+export function setDeviceName(name: string) {
+  localStorage.setItem(DEVICE_NAME_KEY, name);
+}
@@ -0,0 +1,45 @@
+import { generateKeyPairSync, sign } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { decodeEntitlement, verifyEntitlement, type EntitlementClaims } from "./entitlement";
+
+const { privateKey, publicKey } = generateKeyPairSync("ed25519");
+const PUBLIC = publicKey.export({ format: "jwk" }).x!;
+const b64url = (x: string | Buffer) => Buffer.from(x).toString("base64url");
+
+function token(claims: Partial<EntitlementClaims>, key = privateKey, alg = "EdDSA") {
+  const full: EntitlementClaims = { sub: "ABC-123", dev: "dev-1", plan: "single", seats: 1, status: "active", lexp: null, iat: 1000, exp: 2000, ...claims };
+  const head = `${b64url(JSON.stringify({ alg, typ: "JWT" }))}.${b64url(JSON.stringify(full))}`;
+  return `${head}.${b64url(sign(null, Buffer.from(head), key))}`;
+}
+
+const expect1500 = { license: "abc-123", deviceId: "dev-1", now: 1500_000 };
+
+describe("käyttöoikeustunniste", () => {
+  it("kelpaa voimassaoloaikana oikealle lisenssille ja laitteelle", async () => {
+    const claims = await verifyEntitlement(token({}), PUBLIC, expect1500);
+    expect(claims).toMatchObject({ sub: "ABC-123", plan: "single", exp: 2000 });
+  });
+
+  it("hylkää vanhentuneen, toisen laitteen ja toisen lisenssin tunnisteen", async () => {
+    expect(await verifyEntitlement(token({}), PUBLIC, { ...expect1500, now: 2000_000 })).toBeNull();
+    expect(await verifyEntitlement(token({ dev: "dev-2" }), PUBLIC, expect1500)).toBeNull();
+    expect(await verifyEntitlement(token({ sub: "XYZ" }), PUBLIC, expect1500)).toBeNull();
+  });
+
+  it("hylkää muokatun tai väärällä avaimella allekirjoitetun", async () => {
+    const t = token({});
+    const [h, , s] = t.split(".");
+    const forged = `${h}.${b64url(JSON.stringify({ ...decodeEntitlement(t), exp: 9999 }))}.${s}`;
+    expect(await verifyEntitlement(forged, PUBLIC, expect1500)).toBeNull();
+
+    const other = generateKeyPairSync("ed25519").privateKey;
+    expect(await verifyEntitlement(token({}, other), PUBLIC, expect1500)).toBeNull();
+    expect(await verifyEntitlement(token({}, privateKey, "none"), PUBLIC, expect1500)).toBeNull();
+  });
+
+  it("ilman julkista avainta tai rikkinäisenä ei kelpaa", async () => {
+    expect(await verifyEntitlement(token({}), "", expect1500)).toBeNull();
+    expect(await verifyEntitlement("roskaa", PUBLIC, expect1500)).toBeNull();
+    expect(decodeEntitlement("a.b")).toBeNull();
+  });
+});
@@ -0,0 +1,72 @@
+// --- Allekirjoitettu käyttöoikeustunniste: paikallinen tarkistus ja tallennus ---
+// Palvelin (/api/verify, /api/exchange) antaa Ed25519-allekirjoitetun JWT:n. Kun se on voimassa,
+// sovellus avautuu ilman verkkoa; uusi tunniste haetaan taustalla, kun yhteys on.
+
+export type EntitlementClaims = {
+  sub: string;
+  dev: string;
+  plan: "single" | "team";
+  seats: number;
+  status: string;
+  lexp: number | null;
+  iat: number;
+  exp: number;
+};
+
+const LS_KEY = "tuntihinta_entitlement";
+
+/** Tunniste uusitaan taustalla, kun se on tätä vanhempi. */
+export const RENEW_AFTER_S = 60 * 60 * 12;
+
+function b64urlBytes(s: string): Uint8Array<ArrayBuffer> {
+  const b64 = s.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(s.length / 4) * 4, "=");
+  return Uint8Array.from(atob(b64), (c) => c.charCodeAt(0));
+}
+
+export function decodeEntitlement(token: string): EntitlementClaims | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+  try {
+    return JSON.parse(new TextDecoder().decode(b64urlBytes(parts[1])));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Allekirjoituksen, voimassaolon, lisenssin ja laitteen tarkistus.
+ * Palauttaa väitteet tai null, jos tunniste ei kelpaa.
+ */
+export async function verifyEntitlement(
+  token: string,
+  publicKey: string,
+  expect: { license: string; deviceId: string; now?: number }
+): Promise<EntitlementClaims | null> {
+  if (!publicKey) return null;
+  const [head, body, sig] = token.split(".");
+  const claims = decodeEntitlement(token);
+  if (!claims || !sig) return null;
+  try {
+    const header = JSON.parse(new TextDecoder().decode(b64urlBytes(head)));
+    if (header.alg !== "EdDSA") return null;
+    const key = await crypto.subtle.importKey("raw", b64urlBytes(publicKey), { name: "Ed25519" }, false, ["verify"]);
+    const ok = await crypto.subtle.verify({ name: "Ed25519" }, key, b64urlBytes(sig), new TextEncoder().encode(`${head}.${body}`));
+    if (!ok) return null;
+  } catch {
+    return null;
+  }
+  const now = (expect.now ?? Date.now()) / 1000;
+  if (claims.exp <= now) return null;
+  if (claims.sub !== expect.license.trim().toUpperCase() || claims.dev !== expect.deviceId) return null;
+  return claims;
+}
+
+export function loadEntitlement(): string | null {
+  return localStorage.getItem(LS_KEY);
+}
+export function saveEntitlement(token: string | null | undefined) {
+  if (token) localStorage.setItem(LS_KEY, token);
+}
+export function clearEntitlement() {
+  localStorage.removeItem(LS_KEY);
+}
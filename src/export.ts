@@ -0,0 +1,198 @@
+// --- Laskelman vienti: XLSX-työkirja ja PDF-yhteenveto (selaimessa, ei ulkoisia palveluita) ---
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import * as XLSX from "xlsx";
+import type { CalcResult, HelperRow, Inputs } from "./calc";
+import { COMPANY, COPYRIGHT_YEAR } from "./config";
+import { INPUT_FIELDS, RESULT_FIELDS } from "./fields";
+import { fmtEUR, fmtKind, pct, tierLabel } from "./format";
+
+export type ExportData = {
+  scenarioName: string;
+  inputs: Inputs;
+  r: CalcResult;
+  helperRows: HelperRow[];
+  /** Laskutusaste, jolla erittely on laskettu (tiimimallissa tiimin painotettu). */
+  utilization: number;
+};
+
+const PCT_FMT = "0.00%";
+const EUR_FMT = '#,##0.00 "€"';
+
+const tierLabels = (d: ExportData) => d.inputs.markup_tiers.map((t) => tierLabel(t, d.inputs.pricing_basis));
+
+function fileBase(d: ExportData) {
+  const safe = d.scenarioName.replace(/[^\p{L}\p{N}_-]+/gu, "_").replace(/^_+|_+$/g, "");
+  return `tuntihinta_${safe || "laskelma"}_${new Date().toISOString().slice(0, 10)}`;
+}
+
+/* -------------------------------  XLSX  --------------------------------- */
+function sheet(rows: (string | number)[][], widths: number[], formats: Record<number, string> = {}) {
+  const ws = XLSX.utils.aoa_to_sheet(rows);
+  ws["!cols"] = widths.map((wch) => ({ wch }));
+  // Sarakekohtaiset numeromuodot (otsikkorivi ohitetaan)
+  for (let r = 1; r < rows.length; r++) {
+    for (const [c, z] of Object.entries(formats)) {
+      const cell = ws[XLSX.utils.encode_cell({ r, c: Number(c) })];
+      if (cell && cell.t === "n") cell.z = z;
+    }
+  }
+  return ws;
+}
+
+export function buildWorkbook(d: ExportData): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new();
+
+  const inputs = sheet(
+    [
+      ["Ryhmä", "Syöte", "Kenttä", "Arvo"],
+      ...INPUT_FIELDS.map((f) => [f.group, f.label, f.k, d.inputs[f.k]]),
+      ["Perusparametrit", "Läsnäolo kalenterista", "use_calendar", d.inputs.use_calendar ? 1 : 0],
+      ["Myyntihinnat", "Hinnoitteluperuste", "pricing_basis", d.inputs.pricing_basis],
+      ["Myyntihinnat", "Katetasot", "markup_tiers", ...d.inputs.markup_tiers],
+      ["Myyntihinnat", "Laskutusastetaulukko", "util_levels", ...d.inputs.util_levels],
+    ],
+    [36, 32, 24, 14]
+  );
+  INPUT_FIELDS.forEach((f, i) => {
+    if (f.percent) inputs[XLSX.utils.encode_cell({ r: i + 1, c: 3 })].z = PCT_FMT;
+  });
+  // Listarivit: arvot vierekkäisiin sarakkeisiin kentän tunnisteen jälkeen
+  [d.inputs.markup_tiers, d.inputs.util_levels].forEach((xs, j) => {
+    xs.forEach((_, c) => (inputs[XLSX.utils.encode_cell({ r: INPUT_FIELDS.length + 3 + j, c: 3 + c })].z = PCT_FMT));
+  });
+  XLSX.utils.book_append_sheet(wb, inputs, "Syötteet");
+
+  const results = sheet(
+    [
+      ["Tulos", "Arvo"],
+      ...RESULT_FIELDS.map((f) => [f.label, d.r[f.k]]),
+      ...tierLabels(d).map((t, i) => [`Myyntihinta €/h (${t})`, d.r.sales[i]]),
+    ],
+    [40, 16]
+  );
+  RESULT_FIELDS.forEach((f, i) => {
+    const cell = results[XLSX.utils.encode_cell({ r: i + 1, c: 1 })];
+    if (f.kind !== "hours") cell.z = f.kind === "pct" ? PCT_FMT : EUR_FMT;
+  });
+  for (let r = RESULT_FIELDS.length + 1; r <= RESULT_FIELDS.length + d.r.sales.length; r++) {
+    results[XLSX.utils.encode_cell({ r, c: 1 })].z = EUR_FMT;
+  }
+  XLSX.utils.book_append_sheet(wb, results, "Tulokset");
+
+  const tiers = tierLabels(d);
+  const priceCols = tiers.flatMap((_, i) => [2 + 2 * i, 3 + 2 * i]);
+  XLSX.utils.book_append_sheet(
+    wb,
+    sheet(
+      [
+        ["Laskutusaste", "Kustannus €/h", ...tiers.flatMap((t) => [t, `${t} (ALV)`])],
+        ...d.helperRows.map((x) => [x.lvl, x.kustEh, ...x.prices.flatMap((p, i) => [p, x.pricesVat[i]])]),
+      ],
+      [14, 14, ...tiers.flatMap(() => [12, 14])],
+      { 0: PCT_FMT, 1: EUR_FMT, ...Object.fromEntries(priceCols.map((c) => [c, EUR_FMT])) }
+    ),
+    "Laskutusasteet"
+  );
+
+  XLSX.utils.book_append_sheet(
+    wb,
+    sheet(
+      [
+        ["Erittely", "€/h"],
+        ...d.r.breakdown.map((x) => [x.name, isFinite(x.value) ? x.value : 0]),
+        [`Yhteensä (${pct(d.utilization, 0)})`, d.r.breakdown_total],
+      ],
+      [36, 14],
+      { 1: EUR_FMT }
+    ),
+    "Erittely €-h"
+  );
+
+  return wb;
+}
+
+export function downloadXlsx(d: ExportData) {
+  XLSX.writeFile(buildWorkbook(d), `${fileBase(d)}.xlsx`);
+}
+
+/* --------------------------------  PDF  --------------------------------- */
+// jsPDF:n perusfontit (WinAnsi) eivät tunne fi-FI-muotoilun miinusmerkkiä tai kapeaa välilyöntiä.
+const pdfText = (s: string) => s.replace(/\u2212/g, "-").replace(/[\u00a0\u202f]/g, " ");
+
+export function buildPdf(d: ExportData): jsPDF {
+  const doc = new jsPDF({ unit: "mm", format: "a4" });
+  const left = 14;
+  const lastY = () => (doc as unknown as { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
+  const tiers = tierLabels(d);
+  const head = { fillColor: [24, 24, 27] as [number, number, number], textColor: 255 };
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(pdfText(COMPANY), left, 18);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(11);
+  doc.text(pdfText(`Tuntihintalaskelma – ${d.scenarioName}`), left, 25);
+  doc.setFontSize(9);
+  doc.setTextColor(100);
+  doc.text(pdfText(`Laadittu ${new Date().toLocaleDateString("fi-FI")} · vuosi ${d.inputs.year} · hinnat alv 0 %, ellei toisin mainita`), left, 30);
+  doc.setTextColor(0);
+
+  autoTable(doc, {
+    startY: 36,
+    head: [["Myyntihinta €/h", "alv 0 %", `alv ${pct(d.inputs.vat_rate)}`]],
+    body: (
+      [
+        [`Omakustannus (laskutusaste ${pct(d.utilization, 0)})`, d.r.cost_per_billable_hour],
+        ...tiers.map((t, i) => [`Hinnoittelutaso ${t}`, d.r.sales[i]]),
+      ] as [string, number][]
+    ).map(([label, n]) => [pdfText(label), pdfText(fmtEUR(n)), pdfText(fmtEUR(n * (1 + d.inputs.vat_rate)))]),
+    headStyles: head,
+    columnStyles: { 1: { halign: "right" }, 2: { halign: "right" } },
+    styles: { fontSize: 10 },
+  });
+
+  autoTable(doc, {
+    startY: lastY() + 6,
+    head: [["Vuosikustannus / asentaja", ""]],
+    body: RESULT_FIELDS.map((f) => [pdfText(f.label), pdfText(fmtKind(f.kind, d.r[f.k]))]),
+    headStyles: head,
+    columnStyles: { 1: { halign: "right" } },
+    styles: { fontSize: 9 },
+  });
+
+  autoTable(doc, {
+    startY: lastY() + 6,
+    head: [["Laskutusaste", "Kustannus €/h", ...tiers].map(pdfText)],
+    body: d.helperRows.map((x) => [pct(x.lvl, 0), fmtEUR(x.kustEh), ...x.prices.map(fmtEUR)].map(pdfText)),
+    headStyles: head,
+    columnStyles: Object.fromEntries(["", ...tiers].map((_, i) => [i + 1, { halign: "right" as const }])),
+    styles: { fontSize: 9 },
+  });
+
+  autoTable(doc, {
+    startY: lastY() + 6,
+    head: [["Hinnoittelun erittely €/h", ""]],
+    body: [
+      ...d.r.breakdown.filter((x) => isFinite(x.value) && x.value !== 0).map((x) => [pdfText(x.name), pdfText(fmtEUR(x.value))]),
+      [{ content: "Yhteensä", styles: { fontStyle: "bold" } }, { content: pdfText(fmtEUR(d.r.breakdown_total)), styles: { fontStyle: "bold" } }],
+    ],
+    headStyles: head,
+    columnStyles: { 1: { halign: "right" } },
+    styles: { fontSize: 9 },
+  });
+
+  const pages = doc.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    doc.setPage(i);
+    doc.setFontSize(8);
+    doc.setTextColor(120);
+    doc.text(pdfText(`© ${COPYRIGHT_YEAR} ${COMPANY}`), left, 287);
+    doc.text(`${i} / ${pages}`, 196, 287, { align: "right" });
+  }
+  return doc;
+}
+
+export function downloadPdf(d: ExportData) {
+  buildPdf(d).save(`${fileBase(d)}.pdf`);
+}
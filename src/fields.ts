@@ -0,0 +1,75 @@
+// --- Syötekenttien ja tulosrivien kuvaukset (lomake, vienti ja tuonti käyttävät samoja) ---
+import type { CalcResult, Inputs } from "./calc";
+
+export type NumericInputKey = { [K in keyof Inputs]: Inputs[K] extends number ? K : never }[keyof Inputs];
+
+export type InputField = {
+  k: NumericInputKey;
+  label: string;
+  group: string;
+  /** Desimaaliprosentti (0.25 = 25 %). */
+  percent?: boolean;
+  /** Sallittu vaihteluväli (sisältäen rajat). */
+  min: number;
+  max: number;
+};
+
+export const INPUT_FIELDS: InputField[] = [
+  { k: "year", label: "Vuosi", group: "Perusparametrit", min: 2000, max: 2100 },
+  { k: "hourly_wage", label: "Tuntipalkka €/h", group: "Perusparametrit", min: 0, max: 500 },
+  { k: "weekly_hours", label: "Työviikko, h", group: "Perusparametrit", min: 1, max: 80 },
+  { k: "weeks_per_year", label: "Viikkoja vuodessa", group: "Perusparametrit", min: 1, max: 53 },
+  { k: "holiday_weeks", label: "Lomaviikot/v", group: "Perusparametrit", min: 0, max: 12 },
+  { k: "pekkaspv_hours", label: "Pekkaspäivät, h/v", group: "Perusparametrit", min: 0, max: 500 },
+  { k: "sick_days", label: "Sairauspäivät, pv/v", group: "Perusparametrit", min: 0, max: 200 },
+  { k: "public_holidays_days", label: "Arkipyhät, pv/v", group: "Perusparametrit", min: 0, max: 20 },
+
+  { k: "tyel_employer", label: "TyEL työnantajan osuus", group: "Sosiaalikulut", percent: true, min: 0, max: 1 },
+  { k: "sotu_rate", label: "Sairausvakuutusmaksu", group: "Sosiaalikulut", percent: true, min: 0, max: 1 },
+  { k: "unemployment_rate", label: "Työttömyysvakuutusmaksu", group: "Sosiaalikulut", percent: true, min: 0, max: 1 },
+  { k: "accident_rate", label: "Tapaturmavakuutus", group: "Sosiaalikulut", percent: true, min: 0, max: 1 },
+  { k: "group_life_rate", label: "Ryhmähenkivakuutus", group: "Sosiaalikulut", percent: true, min: 0, max: 1 },
+
+  { k: "workwear_per_head", label: "Työvaatteet", group: "Yleiskulut / asentaja (suorat, €/hlö/v)", min: 0, max: 100_000 },
+  { k: "occ_health_per_head", label: "Työterveys", group: "Yleiskulut / asentaja (suorat, €/hlö/v)", min: 0, max: 100_000 },
+  { k: "tools_per_head", label: "Työkalut", group: "Yleiskulut / asentaja (suorat, €/hlö/v)", min: 0, max: 100_000 },
+  { k: "car_per_head", label: "Autokalusto/autokulut (hlö)", group: "Yleiskulut / asentaja (suorat, €/hlö/v)", min: 0, max: 100_000 },
+  { k: "travel_per_head", label: "Matkakorvaukset (hlö)", group: "Yleiskulut / asentaja (suorat, €/hlö/v)", min: 0, max: 100_000 },
+  { k: "siteallow_per_head", label: "Työmaalisät (hlö)", group: "Yleiskulut / asentaja (suorat, €/hlö/v)", min: 0, max: 100_000 },
+
+  { k: "rent_per_month", label: "Vuokra €/kk", group: "Jaettavat kulut", min: 0, max: 10_000_000 },
+  { k: "admin_per_year", label: "Hallinto/työnjohto €/v", group: "Jaettavat kulut", min: 0, max: 100_000_000 },
+  { k: "num_productive", label: "Tuottavaa työtä tekevät, kpl", group: "Jaettavat kulut", min: 1, max: 100_000 },
+  { k: "car_pool_total", label: "Autokalusto (pooli) €/v", group: "Jaettavat kulut", min: 0, max: 100_000_000 },
+  { k: "travel_pool_total", label: "Matkakorvaukset (pooli) €/v", group: "Jaettavat kulut", min: 0, max: 100_000_000 },
+  { k: "siteallow_pool_total", label: "Työmaalisät (pooli) €/v", group: "Jaettavat kulut", min: 0, max: 100_000_000 },
+
+  { k: "meal_allowance_per_day", label: "Ateriakorvaus €/pv", group: "Muut", min: 0, max: 1000 },
+  { k: "vat_rate", label: "ALV (yleinen)", group: "Muut", percent: true, min: 0, max: 1 },
+  { k: "utilization", label: "Laskutusaste", group: "Muut", percent: true, min: 0.01, max: 1 },
+];
+
+export const FIELD_BY_KEY = Object.fromEntries(INPUT_FIELDS.map((f) => [f.k, f])) as Record<NumericInputKey, InputField>;
+
+export type ResultField = {
+  k: Exclude<keyof CalcResult, "breakdown" | "sales">;
+  label: string;
+  kind: "eur" | "pct" | "hours";
+};
+
+export const RESULT_FIELDS: ResultField[] = [
+  { k: "annual_base_salary", label: "Vuosipalkka (perustunnit)", kind: "eur" },
+  { k: "holiday_pay", label: "Lomarahat (50 % lomapalkasta)", kind: "eur" },
+  { k: "payroll_total", label: "Palkkasumma (sis. lomarahat)", kind: "eur" },
+  { k: "social_total_rate", label: "Sosiaalikuluprosentti yhteensä", kind: "pct" },
+  { k: "social_costs_eur", label: "Sosiaalikulut €", kind: "eur" },
+  { k: "pay_with_social", label: "Palkka + sivukulut €", kind: "eur" },
+  { k: "overheads_direct", label: "Yleiskulut / asentaja (suorat)", kind: "eur" },
+  { k: "overheads_shared", label: "Yleiskulut / asentaja (jaetut)", kind: "eur" },
+  { k: "overheads_total", label: "Yleiskulut / asentaja yhteensä", kind: "eur" },
+  { k: "meal_allowance_year", label: "Ateriakorvaus vuodessa / asentaja", kind: "eur" },
+  { k: "total_cost_year", label: "Kokonaiskustannus / asentaja / vuosi", kind: "eur" },
+  { k: "attendance_hours_year", label: "Läsnäolotunnit / vuosi", kind: "hours" },
+  { k: "billable_hours_year", label: "Laskutettavat tunnit / vuosi", kind: "hours" },
+  { k: "cost_per_billable_hour", label: "Kustannus €/laskutettava tunti", kind: "eur" },
+];
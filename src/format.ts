@@ -0,0 +1,16 @@
+// --- Helper formatting ---
+import type { PricingBasis } from "./calc";
+
+export const fmtEUR = (n: number) =>
+  isFinite(n) ? n.toLocaleString("fi-FI", { style: "currency", currency: "EUR" }) : "–";
+export const fmtNum = (n: number, d = 2) =>
+  isFinite(n) ? n.toLocaleString("fi-FI", { minimumFractionDigits: d, maximumFractionDigits: d }) : "–";
+export const pct = (n: number, d = 1) =>
+  isFinite(n) ? (n * 100).toLocaleString("fi-FI", { minimumFractionDigits: d, maximumFractionDigits: d }) + " %" : "–";
+
+export const fmtKind = (kind: "eur" | "pct" | "hours", n: number) =>
+  kind === "eur" ? fmtEUR(n) : kind === "pct" ? pct(n) : fmtNum(n, 0);
+
+/** Hinnoittelutason otsikko todellisesta arvosta: lisä kustannukseen "+20 %", kate myyntihinnasta "kate 20 %". */
+export const tierLabel = (tier: number, basis: PricingBasis) =>
+  basis === "margin" ? `kate ${pct(tier, 0)}` : `${tier < 0 ? "" : "+"}${pct(tier, 0)}`;
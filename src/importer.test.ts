@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { calcAnnual, calcHelperRows, defaultInputs } from "./calc";
+import { buildWorkbook } from "./export";
+import { applyImport, inputsToJson, parseInputsJson, parseSyotteetWorkbook } from "./importer";
+
+const toBuffer = (wb: XLSX.WorkBook) => XLSX.write(wb, { type: "array", bookType: "xlsx" }) as ArrayBuffer;
+
+describe("JSON", () => {
+  it("vienti ja tuonti säilyttävät arvot", () => {
+    const v = { ...defaultInputs, hourly_wage: 23.5, use_calendar: true };
+    const rep = parseInputsJson(inputsToJson(v));
+    expect(rep.missing).toEqual([]);
+    expect(rep.outOfRange).toEqual([]);
+    expect(applyImport(defaultInputs, rep)).toEqual(v);
+  });
+
+  it("raportoi puuttuvat, rajojen ulkopuoliset ja tuntemattomat kentät", () => {
+    const rep = parseInputsJson(JSON.stringify({ hourly_wage: 22, utilization: 85, tyel_employer: "0,18", foo: 1 }));
+    expect(rep.found.map((x) => x.k)).toEqual(["hourly_wage", "tyel_employer"]);
+    expect(rep.found[1].value).toBeCloseTo(0.18, 10);
+    expect(rep.outOfRange.map((x) => x.k)).toEqual(["utilization"]);
+    expect(rep.unknown).toEqual(["foo"]);
+    expect(rep.missing.length).toBeGreaterThan(20);
+
+    const v = applyImport(defaultInputs, rep);
+    expect(v.hourly_wage).toBe(22);
+    expect(v.utilization).toBe(defaultInputs.utilization);
+  });
+
+  it("vanhat katekentät ja hinnoitteluasetukset", () => {
+    const rep = parseInputsJson(JSON.stringify({ markup_low: 0.1, markup_mid: 0.2, markup_high: 0.35, pricing_basis: "margin", util_levels: [1, "0,8"] }));
+    expect(rep.unknown).toEqual([]);
+    expect(rep.pricing).toEqual({ markup_tiers: [0.1, 0.2, 0.35], pricing_basis: "margin", util_levels: [1, 0.8] });
+    const v = applyImport(defaultInputs, rep);
+    expect(v.markup_tiers).toEqual([0.1, 0.2, 0.35]);
+    expect(v).not.toHaveProperty("markup_low");
+  });
+
+  it("hylkää muun kuin olion", () => {
+    expect(() => parseInputsJson("[1,2]")).toThrow();
+  });
+});
+
+describe("Excel", () => {
+  it("alkuperäinen asettelu: selite A-sarakkeessa, arvo B-sarakkeessa", () => {
+    const ws = XLSX.utils.aoa_to_sheet([
+      ["Syötteet"],
+      ["Tuntipalkka €/h", 21.5],
+      ["TyEL työnantajan osuus", 0.1738],
+      ["Laskutusaste (desimaalina)", 0.8],
+      ["Tuottavaa työtä tekevät, kpl", 0],
+    ]);
+    const wb = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(wb, ws, "Syötteet");
+    const rep = parseSyotteetWorkbook(toBuffer(wb));
+    expect(Object.fromEntries(rep.found.map((x) => [x.k, x.value]))).toEqual({
+      hourly_wage: 21.5,
+      tyel_employer: 0.1738,
+      utilization: 0.8,
+    });
+    expect(rep.outOfRange.map((x) => x.k)).toEqual(["num_productive"]);
+  });
+
+  it("sovelluksen oma XLSX-vienti tuodaan takaisin", () => {
+    const v = { ...defaultInputs, rent_per_month: 7500, markup_tiers: [0.15, 0.3], pricing_basis: "margin" as const, util_levels: [1, 0.6] };
+    const r = calcAnnual(v);
+    const wb = buildWorkbook({ scenarioName: "x", inputs: v, r, helperRows: calcHelperRows(r.cost_per_billable_hour, v), utilization: v.utilization });
+    const rep = parseSyotteetWorkbook(toBuffer(wb));
+    expect(rep.missing).toEqual([]);
+    expect(applyImport(defaultInputs, rep)).toEqual(v);
+  });
+});
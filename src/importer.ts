@@ -0,0 +1,176 @@
+// --- Syötteiden tuonti (Excel Syötteet-välilehti, JSON) ja JSON-vienti ---
+import * as XLSX from "xlsx";
+import { defaultInputs, type Inputs, type PricingBasis } from "./calc";
+import { INPUT_FIELDS, type NumericInputKey } from "./fields";
+
+export const INPUTS_JSON_FORMAT = "tuntihinta-inputs";
+export const INPUTS_JSON_VERSION = 1;
+
+export type ImportValue = { k: NumericInputKey; label: string; value: number };
+export type ImportRangeError = ImportValue & { min: number; max: number };
+
+/** Hinnoitteluasetukset; puuttuvat säilyvät ennallaan. */
+export type ImportPricing = Partial<Pick<Inputs, "markup_tiers" | "pricing_basis" | "util_levels">>;
+
+export type ImportReport = {
+  source: string;
+  found: ImportValue[];
+  outOfRange: ImportRangeError[];
+  missing: { k: NumericInputKey; label: string }[];
+  /** Kentät, joita ei tunnistettu (vain JSON). */
+  unknown: string[];
+  use_calendar?: boolean;
+  pricing: ImportPricing;
+};
+
+// Vertailu ilman kirjainkokoa, välimerkkejä ja lomakkeen "desimaalina"-ohjetta.
+const norm = (s: string) =>
+  s.toLowerCase().replace(/desimaalina/g, "").replace(/[^\p{L}\p{N}]+/gu, "");
+
+const byName = new Map<string, (typeof INPUT_FIELDS)[number]>();
+for (const f of INPUT_FIELDS) {
+  byName.set(norm(f.label), f);
+  byName.set(norm(f.k), f);
+}
+
+function toNumber(x: unknown): number {
+  if (typeof x === "number") return x;
+  if (typeof x === "string" && x.trim() !== "") return Number(x.replace(/\s/g, "").replace(/,/g, "."));
+  return NaN;
+}
+
+const MAX_LIST = 12;
+const LIST_KEYS = new Map<string, "markup_tiers" | "util_levels">([
+  [norm("markup_tiers"), "markup_tiers"],
+  [norm("util_levels"), "util_levels"],
+]);
+// Vanhat kiinteät katekentät (alapää, keskitaso, yläpää) luetaan katetasoiksi.
+const LEGACY_TIERS = new Map<string, number>([
+  ...["markup_low", "markup_mid", "markup_high"].map((k, i) => [norm(k), i] as [string, number]),
+  ...["Kate % (alapää)", "Kate % (keskitaso)", "Kate % (yläpää)"].map((k, i) => [norm(k), i] as [string, number]),
+]);
+
+const numList = (xs: unknown[]) => xs.map(toNumber).filter((x) => isFinite(x)).slice(0, MAX_LIST);
+const isBasis = (x: unknown): x is PricingBasis => x === "markup" || x === "margin";
+
+/** Kerää hinnoitteluasetukset; vanhat katekentät käytetään vain, jos uutta listaa ei ole. */
+function buildPricing(lists: Partial<Record<"markup_tiers" | "util_levels", number[]>>, legacy: number[], basis?: PricingBasis): ImportPricing {
+  const pricing: ImportPricing = {};
+  const tiers = lists.markup_tiers ?? legacy.filter((x) => isFinite(x));
+  if (tiers.length) pricing.markup_tiers = tiers;
+  if (lists.util_levels?.length) pricing.util_levels = lists.util_levels;
+  if (basis) pricing.pricing_basis = basis;
+  return pricing;
+}
+
+function buildReport(
+  source: string,
+  values: Map<NumericInputKey, number>,
+  unknown: string[],
+  use_calendar: boolean | undefined,
+  pricing: ImportPricing
+): ImportReport {
+  const found: ImportValue[] = [];
+  const outOfRange: ImportRangeError[] = [];
+  const missing: ImportReport["missing"] = [];
+  for (const f of INPUT_FIELDS) {
+    const value = values.get(f.k);
+    if (value === undefined || !isFinite(value)) missing.push({ k: f.k, label: f.label });
+    else if (value < f.min || value > f.max) outOfRange.push({ k: f.k, label: f.label, value, min: f.min, max: f.max });
+    else found.push({ k: f.k, label: f.label, value });
+  }
+  return { source, found, outOfRange, missing, unknown, use_calendar, pricing };
+}
+
+/**
+ * Excel: etsitään Syötteet-välilehdeltä (tai ensimmäiseltä) rivit, joiden jokin solu on tunnettu
+ * kentän nimi tai tunniste; arvo on saman rivin seuraava numerosolu. Toimii sekä alkuperäiselle
+ * työkirjalle (selite A, arvo B) että sovelluksen omalle viennille.
+ */
+export function parseSyotteetWorkbook(data: ArrayBuffer, source = "Excel"): ImportReport {
+  const wb = XLSX.read(data, { type: "array" });
+  const name = wb.SheetNames.find((n) => norm(n) === norm("Syötteet")) ?? wb.SheetNames[0];
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(wb.Sheets[name], { header: 1, raw: true, defval: null });
+
+  const values = new Map<NumericInputKey, number>();
+  const lists: Partial<Record<"markup_tiers" | "util_levels", number[]>> = {};
+  const legacy: number[] = [];
+  let use_calendar: boolean | undefined;
+  let basis: PricingBasis | undefined;
+  for (const row of rows) {
+    for (let c = 0; c < row.length; c++) {
+      const cell = row[c];
+      if (typeof cell !== "string") continue;
+      const n = norm(cell);
+      const list = LIST_KEYS.get(n);
+      if (list) {
+        lists[list] ??= numList(row.slice(c + 1));
+        break;
+      }
+      if (n === "pricingbasis") {
+        basis ??= row.slice(c + 1).find(isBasis);
+        break;
+      }
+      const f = byName.get(n);
+      const tier = LEGACY_TIERS.get(n);
+      if (!f && tier === undefined && n !== "usecalendar") continue;
+      const value = row.slice(c + 1).map(toNumber).find((x) => isFinite(x));
+      if (value === undefined) continue;
+      if (f) {
+        if (!values.has(f.k)) values.set(f.k, value);
+      } else if (tier !== undefined) {
+        legacy[tier] = value;
+      } else {
+        use_calendar = value !== 0;
+      }
+      break;
+    }
+  }
+  return buildReport(`${source} / ${name}`, values, [], use_calendar, buildPricing(lists, legacy, basis));
+}
+
+/** JSON: joko sovelluksen vientimuoto ({ format, version, inputs }) tai pelkkä Inputs-olio. */
+export function parseInputsJson(text: string, source = "JSON"): ImportReport {
+  const json = JSON.parse(text);
+  const obj = json && typeof json === "object" && json.format === INPUTS_JSON_FORMAT ? json.inputs : json;
+  if (!obj || typeof obj !== "object" || Array.isArray(obj)) throw new Error("JSON ei sisällä syöteoliota");
+
+  const values = new Map<NumericInputKey, number>();
+  const lists: Partial<Record<"markup_tiers" | "util_levels", number[]>> = {};
+  const legacy: number[] = [];
+  const unknown: string[] = [];
+  let use_calendar: boolean | undefined;
+  let basis: PricingBasis | undefined;
+  for (const [key, raw] of Object.entries(obj as Record<string, unknown>)) {
+    const f = INPUT_FIELDS.find((x) => x.k === key);
+    const list = LIST_KEYS.get(norm(key));
+    const tier = LEGACY_TIERS.get(norm(key));
+    if (f) values.set(f.k, toNumber(raw));
+    else if (key === "use_calendar") use_calendar = raw === true || raw === 1;
+    else if (list && Array.isArray(raw)) lists[list] = numList(raw);
+    else if (key === "pricing_basis" && isBasis(raw)) basis = raw;
+    else if (tier !== undefined) legacy[tier] = toNumber(raw);
+    else unknown.push(key);
+  }
+  return buildReport(source, values, unknown, use_calendar, buildPricing(lists, legacy, basis));
+}
+
+/** Tiedoston tyyppi päätellään päätteestä. */
+export async function parseImportFile(file: File): Promise<ImportReport> {
+  if (/\.json$/i.test(file.name)) return parseInputsJson(await file.text(), file.name);
+  return parseSyotteetWorkbook(await file.arrayBuffer(), file.name);
+}
+
+/** Käyttää löydetyt, sallitulla välillä olevat arvot; muut kentät säilyvät ennallaan. */
+export function applyImport(v: Inputs, report: ImportReport): Inputs {
+  const next = { ...v };
+  for (const x of report.found) next[x.k] = x.value;
+  if (report.use_calendar !== undefined) next.use_calendar = report.use_calendar;
+  return { ...next, ...report.pricing };
+}
+
+export function inputsToJson(v: Inputs): string {
+  const inputs: Partial<Inputs> = {};
+  for (const k of Object.keys(defaultInputs) as (keyof Inputs)[]) (inputs as Record<string, unknown>)[k] = v[k];
+  return JSON.stringify({ format: INPUTS_JSON_FORMAT, version: INPUTS_JSON_VERSION, inputs }, null, 2);
+}
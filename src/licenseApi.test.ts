@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { isDenied, verifyLicense } from "./licenseApi";
+
+const reply = (status: number, body: unknown) => vi.fn(async () => new Response(JSON.stringify(body), { status }));
+
+beforeEach(() => {
+  const items = new Map<string, string>();
+  vi.stubGlobal("localStorage", { getItem: (k: string) => items.get(k) ?? null, setItem: (k: string, v: string) => items.set(k, v) });
+  vi.stubGlobal("navigator", { userAgent: "Mozilla/5.0 (Windows NT 10.0) Chrome/120.0" });
+});
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("verifyLicense", () => {
+  it("palvelinvirhe (500) on sama kuin verkkovirhe, ei hylkäys", async () => {
+    const internal = reply(500, { ok: false, reason: "internal" });
+    vi.stubGlobal("fetch", internal);
+    expect(await verifyLicense("ABCD-1234")).toBeNull();
+    expect(internal).toHaveBeenCalledOnce();
+    vi.stubGlobal("fetch", vi.fn(async () => new Response("Bad Gateway", { status: 502 })));
+    expect(await verifyLicense("ABCD-1234")).toBeNull();
+    vi.stubGlobal("fetch", vi.fn(async () => { throw new TypeError("Failed to fetch"); }));
+    expect(await verifyLicense("ABCD-1234")).toBeNull();
+  });
+
+  it("vain nimenomainen hylkäys poistaa käyttöoikeuden", async () => {
+    vi.stubGlobal("fetch", reply(200, { ok: false, reason: "revoked" }));
+    const res = await verifyLicense("ABCD-1234");
+    expect(res && isDenied(res)).toBe(true);
+    expect(isDenied({ ok: false, reason: "license" })).toBe(true);
+    expect(isDenied({ ok: false, reason: "seats", seats: 1, devices: [] })).toBe(true);
+    expect(isDenied({ ok: false, reason: "origin" })).toBe(false);
+    expect(isDenied({ ok: false, reason: "rate-limit" })).toBe(false);
+    expect(isDenied({ ok: false })).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+// --- Lisenssirajapinnan kutsut (verify, laitteet, synkronointi) ---
+import { deviceId, deviceName } from "./config";
+import type { SyncRecord } from "./sync";
+
+export type Device = { id: string; name: string; activatedAt: number; lastSeenAt: number };
+
+export type VerifyResult =
+  | { ok: true; status: string; expiresAt: number | null; seats: number; devices: number; token: string | null }
+  | { ok: false; reason?: string; seats?: number; devices?: Device[] };
+
+/** Palvelimen pyyntöraja (429: { ok: false, reason: "rate-limit" }). */
+export const RATE_LIMIT_MESSAGE = "Liian monta yritystä. Yritä uudelleen hetken kuluttua.";
+
+async function post<T>(url: string, body: unknown): Promise<T> {
+  const r = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+  return r.json();
+}
+
+/** Palvelimen hylkäyssyyt: tuntematon tai virheellinen avain, lisenssin tila tai täydet laitepaikat. */
+const DENIED_REASONS = new Set(["license", "key", "seats", "active", "past_due", "canceled", "revoked"]);
+
+/** Vain nimenomainen hylkäys poistaa tallennetun tunnisteen; muut virheet eivät kerro avaimesta mitään. */
+export function isDenied(res: VerifyResult): boolean {
+  return !res.ok && res.reason !== undefined && DENIED_REASONS.has(res.reason);
+}
+
+/** null = verkko- tai palvelinvirhe (ei tiedetä, onko avain voimassa). */
+export async function verifyLicense(key: string): Promise<VerifyResult | null> {
+  try {
+    const r = await fetch("/api/verify", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ key, deviceId: deviceId(), deviceName: deviceName() }),
+    });
+    const res: VerifyResult = await r.json();
+    return r.status >= 500 || (!res.ok && res.reason === "internal") ? null : res;
+  } catch {
+    return null;
+  }
+}
+
+export type DeviceList = { ok: boolean; reason?: string; seats: number; devices: Device[]; retryAfter?: number };
+
+export function listDevices(key: string): Promise<DeviceList> {
+  return post("/api/devices", { key, action: "list" });
+}
+
+export function releaseDevice(key: string, id: string): Promise<DeviceList> {
+  return post("/api/devices", { key, action: "release", deviceId: id });
+}
+
+export type Account = {
+  ok: true;
+  email: string;
+  status: "active" | "past_due" | "canceled" | "revoked";
+  valid: boolean;
+  plan: "single" | "team";
+  seats: number;
+  expiresAt: number | null;
+  graceUntil: number | null;
+  billing: boolean;
+  devices: Device[];
+};
+
+export function getAccount(key: string): Promise<Account | { ok: false; reason: string }> {
+  return post("/api/account", { key });
+}
+
+/** Kirjautumislinkki sähköpostiin; vastaus ei kerro, löytyikö osoitteelle lisenssiä. */
+export function requestLoginLink(email: string): Promise<{ ok: boolean; reason?: string }> {
+  return post("/api/login", { email });
+}
+
+export function billingPortalUrl(key: string): Promise<{ ok: boolean; url?: string; reason?: string }> {
+  return post("/api/portal", { key });
+}
+
+export type SyncGet = { ok: true; record: SyncRecord | null } | { ok: false; reason: string };
+export type SyncPut = { ok: true; record: SyncRecord } | { ok: false; reason: string; record?: SyncRecord };
+
+export function getSyncRecord(key: string): Promise<SyncGet> {
+  return post("/api/sync", { key, action: "get" });
+}
+
+/** 409 stale: palvelimella on uudempi muutos, joka palautetaan vastauksessa. */
+export function putSyncRecord(key: string, data: unknown, updatedAt: number): Promise<SyncPut> {
+  return post("/api/sync", { key, action: "put", data, updatedAt, deviceName: deviceName() });
+}
@@ -1,10 +1,15 @@
 import React from 'react'
 import { createRoot } from 'react-dom/client'
 import App from './App'
+import SharedView from './components/SharedView'
+import { shareFromHash } from './share'
 import './styles.css'
 
+// Jakolinkki (#jaa=…) avautuu lukunäkymään ilman lisenssiä
+const shared = shareFromHash(window.location.hash)
+
 createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <App />
+    {shared ? <SharedView encoded={shared} /> : <App />}
   </React.StrictMode>
 )
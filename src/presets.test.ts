@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { defaultInputs } from "./calc";
+import { applyRatePreset, presetOverrides, ratePresetFor, RATE_PRESETS } from "./presets";
+
+describe("ratePresetFor", () => {
+  it("palauttaa vuoden oman esiasetuksen", () => {
+    const p = ratePresetFor(2024);
+    expect(p.exact).toBe(true);
+    expect(p.preset.vat_rate).toBe(0.24);
+  });
+
+  it("vuoden 2024 maksut", () => {
+    expect(ratePresetFor(2024).preset).toMatchObject({ tyel_employer: 0.1734, sotu_rate: 0.0187, unemployment_rate: 0.0052 });
+  });
+
+  it("puuttuva vuosi käyttää lähintä aiempaa, liian vanha ensimmäistä", () => {
+    expect(ratePresetFor(2031)).toMatchObject({ year: 2026, exact: false });
+    expect(ratePresetFor(2010)).toMatchObject({ year: 2023, exact: false });
+  });
+});
+
+describe("applyRatePreset / presetOverrides", () => {
+  it("oletussyötteet vastaavat vuoden 2025 esiasetusta", () => {
+    expect(presetOverrides(defaultInputs)).toEqual([]);
+  });
+
+  it("vuoden vaihto täyttää kentät ja muokkaus näkyy poikkeamana", () => {
+    const v = applyRatePreset({ ...defaultInputs, year: 2023 });
+    expect(v.sotu_rate).toBe(RATE_PRESETS[2023].sotu_rate);
+    expect(v.vat_rate).toBe(0.24);
+    expect(v.hourly_wage).toBe(defaultInputs.hourly_wage);
+    expect(presetOverrides({ ...v, tyel_employer: 0.2 })).toEqual(["tyel_employer"]);
+  });
+});
@@ -0,0 +1,89 @@
+// --- Vuosikohtaiset lakisääteiset oletukset (Suomi) ---
+// Työnantajamaksut ja arkipyhät vuosittain. Päivitä taulukko vuodenvaihteessa,
+// kun Eläketurvakeskus, Kela, TVR ja Verohallinto ovat julkaisseet uudet luvut.
+import type { Inputs } from "./calc";
+
+export const PRESET_FIELDS = [
+  "tyel_employer",
+  "sotu_rate",
+  "unemployment_rate",
+  "public_holidays_days",
+  "vat_rate",
+] as const;
+
+export type PresetField = (typeof PRESET_FIELDS)[number];
+
+export type RatePreset = Pick<Inputs, PresetField> & {
+  /** Lähde tai huomautus, näytetään käyttöliittymässä. */
+  note: string;
+};
+
+/**
+ * TyEL = keskimääräinen työnantajan osuus, työttömyysvakuutus = alempi maksu
+ * (palkkasumman alaraja), arkipyhät = virallisia pyhäpäiviä ma–pe (ei aattoja).
+ *
+ * Lähteet: TyEL — Eläketurvakeskus, "TyEL-maksu" (etk.fi); sairausvakuutusmaksu —
+ * Verohallinto, "Työnantajan sairausvakuutusmaksu" (vero.fi); työttömyysvakuutus —
+ * Työllisyysrahasto, "Työttömyysvakuutusmaksut" (tyollisyysrahasto.fi).
+ */
+export const RATE_PRESETS: Record<number, RatePreset> = {
+  2023: {
+    tyel_employer: 0.1734,
+    sotu_rate: 0.0153,
+    unemployment_rate: 0.0052,
+    public_holidays_days: 8,
+    vat_rate: 0.24,
+    note: "2023",
+  },
+  // Työttömyysvakuutusmaksu laski 0,20 %:iin vasta 2025 (Työllisyysrahasto)
+  2024: {
+    tyel_employer: 0.1734,
+    sotu_rate: 0.0187,
+    unemployment_rate: 0.0052,
+    public_holidays_days: 8,
+    vat_rate: 0.24,
+    note: "2024 (ALV 25,5 % alkaen 1.9.2024)",
+  },
+  // TyEL 24,85 % − työntekijän osuus (ETK 17,38 %); sairausvakuutusmaksu laski 1,16 %:iin (Verohallinto)
+  2025: {
+    tyel_employer: 0.1738,
+    sotu_rate: 0.0116,
+    unemployment_rate: 0.0020,
+    public_holidays_days: 8,
+    vat_rate: 0.255,
+    note: "2025",
+  },
+  // Vuoden 2025 maksut, kunnes vuoden 2026 luvut on vahvistettu
+  2026: {
+    tyel_employer: 0.1738,
+    sotu_rate: 0.0116,
+    unemployment_rate: 0.0020,
+    public_holidays_days: 7,
+    vat_rate: 0.255,
+    note: "2026 (maksut ennakkotietoa, tarkista)",
+  },
+};
+
+export const PRESET_YEARS = Object.keys(RATE_PRESETS).map(Number).sort((a, b) => a - b);
+
+/** Vuoden esiasetus; jos vuotta ei ole taulukossa, käytetään lähintä aiempaa (tai ensimmäistä) vuotta. */
+export function ratePresetFor(year: number): { year: number; preset: RatePreset; exact: boolean } {
+  const y = Math.trunc(year);
+  const earlier = PRESET_YEARS.filter((x) => x <= y);
+  const used = earlier.length > 0 ? earlier[earlier.length - 1] : PRESET_YEARS[0];
+  return { year: used, preset: RATE_PRESETS[used], exact: used === y };
+}
+
+/** Täyttää esiasetetut kentät syötteiden vuoden mukaan. */
+export function applyRatePreset(v: Inputs): Inputs {
+  const { preset } = ratePresetFor(v.year);
+  const next = { ...v };
+  for (const k of PRESET_FIELDS) next[k] = preset[k];
+  return next;
+}
+
+/** Kentät, joiden arvo poikkeaa valitun vuoden esiasetuksesta. */
+export function presetOverrides(v: Inputs): PresetField[] {
+  const { preset } = ratePresetFor(v.year);
+  return PRESET_FIELDS.filter((k) => Math.abs(v[k] - preset[k]) > 1e-9);
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { calcAnnual, calcEffective, defaultCrew, defaultInputs } from "./calc";
+import { calcProjection, escalate, projectionAverage, type Escalation } from "./projection";
+
+const none: Escalation = { years: 3, wage: 0, social: 0, perHead: 0, shared: 0 };
+
+describe("monivuotinen ennuste", () => {
+  it("perusvuosi on nykyinen laskelma", () => {
+    const rows = calcProjection(defaultInputs, defaultCrew, { ...none, wage: 0.05 });
+    expect(rows.map((x) => x.year)).toEqual([2025, 2026, 2027]);
+    expect(rows[0].r.cost_per_billable_hour).toBeCloseTo(calcAnnual(defaultInputs).cost_per_billable_hour, 10);
+    expect(rows[0].change).toBe(0);
+  });
+
+  it("korotukset korkoa korolle", () => {
+    const e = { ...none, wage: 0.1, social: 0.5, perHead: 0.2, shared: 1 };
+    const { inputs } = escalate(defaultInputs, defaultCrew, e, 2);
+    expect(inputs.hourly_wage).toBeCloseTo(20 * 1.21, 10);
+    expect(inputs.tyel_employer).toBeCloseTo(0.1738 * 2.25, 10);
+    expect(inputs.tools_per_head).toBeCloseTo(300 * 1.44, 10);
+    expect(inputs.rent_per_month).toBeCloseTo(6000 * 4, 10);
+    expect(inputs.utilization).toBe(defaultInputs.utilization);
+  });
+
+  it("ilman korotuksia kustannus pysyy samana; myyntihinnat seuraavat kustannusta", () => {
+    const flat = calcProjection(defaultInputs, defaultCrew, none);
+    expect(flat.every((x) => Math.abs(x.change) < 1e-12)).toBe(true);
+
+    const rows = calcProjection(defaultInputs, defaultCrew, { ...none, years: 5, wage: 0.03, shared: 0.02 });
+    expect(rows).toHaveLength(5);
+    expect(rows.every((x, i) => i === 0 || x.r.cost_per_billable_hour > rows[i - 1].r.cost_per_billable_hour)).toBe(true);
+    expect(rows[4].r.sales[1]).toBeCloseTo(rows[4].r.cost_per_billable_hour * 1.25, 8);
+
+    const avg = projectionAverage(rows);
+    expect(avg.cost).toBeCloseTo(rows.reduce((s, x) => s + x.r.cost_per_billable_hour, 0) / 5, 10);
+    expect(avg.sales).toHaveLength(defaultInputs.markup_tiers.length);
+  });
+
+  it("tiimimallissa korotetaan myös ryhmien palkat", () => {
+    const crew = { enabled: true, groups: [{ ...defaultCrew.groups[0], count: 2 }] };
+    const rows = calcProjection(defaultInputs, crew, { ...none, years: 2, wage: 0.1 });
+    const next = escalate(defaultInputs, crew, { ...none, wage: 0.1 }, 1);
+    expect(next.crew.groups[0].hourly_wage).toBeCloseTo(crew.groups[0].hourly_wage * 1.1, 10);
+    expect(rows[1].r.cost_per_billable_hour).toBeCloseTo(calcEffective(next.inputs, next.crew).r.cost_per_billable_hour, 10);
+  });
+});
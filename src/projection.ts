@@ -0,0 +1,71 @@
+// --- Monivuotinen ennuste: perusvuoden syötteet korotettuina vuosittaisilla prosenteilla ---
+import { calcEffective, type CalcResult, type Crew, type CrewGroup, type Inputs } from "./calc";
+
+/** Vuosittaiset korotukset (desimaaleina, korkoa korolle) ja ennusteen pituus perusvuosi mukaan lukien. */
+export type Escalation = {
+  years: number;
+  wage: number;
+  /** Sosiaalikulujen prosenttien suhteellinen muutos (ei prosenttiyksikköä). */
+  social: number;
+  perHead: number;
+  shared: number;
+};
+
+export const defaultEscalation: Escalation = { years: 3, wage: 0.03, social: 0, perHead: 0.02, shared: 0.03 };
+
+export const PROJECTION_YEARS = [3, 4, 5] as const;
+
+const SOCIAL_KEYS = ["tyel_employer", "sotu_rate", "unemployment_rate", "accident_rate", "group_life_rate"] as const;
+const PER_HEAD_KEYS = [
+  "workwear_per_head",
+  "occ_health_per_head",
+  "tools_per_head",
+  "car_per_head",
+  "travel_per_head",
+  "siteallow_per_head",
+  "meal_allowance_per_day",
+] as const;
+const SHARED_KEYS = ["rent_per_month", "admin_per_year", "car_pool_total", "travel_pool_total", "siteallow_pool_total"] as const;
+
+function scale<T extends object>(o: T, keys: readonly (keyof T)[], factor: number): T {
+  const out = { ...o };
+  for (const k of keys) out[k] = ((o[k] as number) * factor) as T[keyof T];
+  return out;
+}
+
+/** Syötteet ja tiimi vuoden `n` kohdalla (0 = perusvuosi). */
+export function escalate(v: Inputs, crew: Crew, e: Escalation, n: number): { inputs: Inputs; crew: Crew } {
+  const f = (rate: number) => Math.pow(1 + rate, n);
+  let inputs = { ...v, year: v.year + n, hourly_wage: v.hourly_wage * f(e.wage) };
+  inputs = scale(inputs, SOCIAL_KEYS, f(e.social));
+  inputs = scale(inputs, PER_HEAD_KEYS, f(e.perHead));
+  inputs = scale(inputs, SHARED_KEYS, f(e.shared));
+  const groups = crew.groups.map((g) => scale<CrewGroup>({ ...g, hourly_wage: g.hourly_wage * f(e.wage) }, PER_HEAD_KEYS, f(e.perHead)));
+  return { inputs, crew: { ...crew, groups } };
+}
+
+export type ProjectionYear = {
+  year: number;
+  inputs: Inputs;
+  r: CalcResult;
+  /** Muutos perusvuoden kustannuksesta €/laskutettava tunti. */
+  change: number;
+};
+
+export function calcProjection(v: Inputs, crew: Crew, e: Escalation): ProjectionYear[] {
+  const rows = Array.from({ length: Math.max(1, e.years) }, (_, n) => {
+    const x = escalate(v, crew, e, n);
+    return { year: x.inputs.year, inputs: x.inputs, r: calcEffective(x.inputs, x.crew).r };
+  });
+  const base = rows[0].r.cost_per_billable_hour;
+  return rows.map((row) => ({ ...row, change: base > 0 ? row.r.cost_per_billable_hour / base - 1 : 0 }));
+}
+
+/** Sopimuskauden tasainen hinta: vuosien keskiarvo (kustannus ja myyntihinnat tasoittain). */
+export function projectionAverage(rows: ProjectionYear[]): { cost: number; sales: number[] } {
+  const avg = (f: (r: CalcResult) => number) => rows.reduce((s, row) => s + f(row.r), 0) / (rows.length || 1);
+  return {
+    cost: avg((r) => r.cost_per_billable_hour),
+    sales: (rows[0]?.r.sales ?? []).map((_, i) => avg((r) => r.sales[i])),
+  };
+}
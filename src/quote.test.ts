@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { calcEffective, crewGroupFromInputs, defaultInputs } from "./calc";
+import { BASE_GRADE, calcQuote, quoteGrades, type Quote } from "./quote";
+
+const params = { ...defaultInputs, materialMarginPct: 0.2 };
+const grades = [
+  { id: "a", name: "Asentaja", cost: 50 },
+  { id: "o", name: "Oppilas", cost: 30 },
+];
+
+const quote: Quote = {
+  tier: 1,
+  tasks: [
+    { id: "t1", name: "Asennus", hours: 10, grade: "a" },
+    { id: "t2", name: "Apu", hours: 4, grade: "o" },
+  ],
+  materials: [{ id: "m1", name: "Kaapeli", qty: 100, unitCost: 2 }],
+  expenses: [
+    { id: "e1", kind: "travel", name: "Ajo", qty: 50, unitCost: 0.5 },
+    { id: "e2", kind: "site", name: "Työmaalisä", qty: 2, unitCost: 10 },
+  ],
+};
+
+describe("calcQuote", () => {
+  const q = calcQuote(quote, grades, params);
+
+  it("hinnoittelee rivit ryhmän kustannuksella, valitulla katteella ja materiaalikatteella", () => {
+    expect(q.lines.map((l) => [l.id, l.cost, l.price])).toEqual([
+      ["t1", 500, 625],
+      ["t2", 120, 150],
+      ["m1", 200, 250],
+      ["e1", 25, 25],
+      ["e2", 20, 20],
+    ]);
+    expect(q.lines[2].marginPct).toBeCloseTo(0.2, 10);
+    expect(q.labourHours).toBe(14);
+  });
+
+  it("summat alv 0 % ja alv:n kanssa", () => {
+    expect(q.cost).toBeCloseTo(865, 10);
+    expect(q.price).toBeCloseTo(1070, 10);
+    expect(q.priceVat).toBeCloseTo(1070 * 1.255, 10);
+    expect(q.margin).toBeCloseTo(205, 10);
+  });
+
+  it("kattavuus ja kriittinen laskutusaste", () => {
+    expect(q.covers).toBe(true);
+    // työn kustannus 620 × 0,85 / (1070 − 245)
+    expect(q.breakEvenUtilization).toBeCloseTo((620 * 0.85) / 825, 10);
+    const loss = calcQuote({ ...quote, tier: 0 }, grades, { ...params, markup_tiers: [-0.5, 0.25] });
+    expect(loss.covers).toBe(false);
+    expect(loss.breakEvenUtilization).toBeGreaterThan(0.85);
+  });
+
+  it("kate myyntihinnasta ja poistetun tason tilalla keskimmäinen", () => {
+    const margin = calcQuote(quote, grades, { ...params, pricing_basis: "margin", markup_tiers: [0.2, 0.5] });
+    expect(margin.lines[0].price).toBeCloseTo(1000, 10);
+    const removed = calcQuote({ ...quote, tier: 5 }, grades, params);
+    expect(removed.lines[0].price).toBeCloseTo(625, 10);
+  });
+
+  it("tuntematon ryhmä käyttää ensimmäistä ryhmää", () => {
+    const r = calcQuote({ ...quote, tasks: [{ id: "x", name: "", hours: 1, grade: "poistettu" }] }, grades, params);
+    expect(r.lines[0].cost).toBe(50);
+  });
+});
+
+describe("quoteGrades", () => {
+  it("perusasentaja tai tiimin ryhmät", () => {
+    const single = calcEffective(defaultInputs, { enabled: false, groups: [] });
+    expect(quoteGrades(single)).toEqual([{ id: BASE_GRADE, name: "Asentaja", cost: single.r.cost_per_billable_hour }]);
+
+    const crew = calcEffective(defaultInputs, {
+      enabled: true,
+      groups: [crewGroupFromInputs(defaultInputs, "a", "Asentaja", 3), { ...crewGroupFromInputs(defaultInputs, "o", "Oppilas", 1), hourly_wage: 12 }],
+    });
+    const g = quoteGrades(crew);
+    expect(g.map((x) => x.id)).toEqual(["a", "o"]);
+    expect(g[1].cost).toBeLessThan(g[0].cost);
+  });
+});
@@ -0,0 +1,124 @@
+// --- Työn tarjouslaskenta: tehtävät, materiaalit sekä matka- ja työmaakulut (puhtaat funktiot) ---
+import { defaultInputs, midTierIndex, priceFromCost, type EffectiveResult, type Inputs, type YearCtl } from "./calc";
+
+/** Työvaihe: arvioidut tunnit ja tekijän ryhmä (tiimimallin ryhmä tai perusparametrien asentaja). */
+export type QuoteTask = { id: string; name: string; hours: number; grade: string };
+
+/** Materiaali ostohintaan (alv 0 %); myyntihinta lasketaan materiaalikatteella. */
+export type QuoteMaterial = { id: string; name: string; qty: number; unitCost: number };
+
+/** Matkakulut (esim. km × €/km) ja työmaalisät (pv × €/pv) veloitetaan omakustannushintaan. */
+export type QuoteExpense = { id: string; kind: "travel" | "site"; name: string; qty: number; unitCost: number };
+
+export type Quote = {
+  /** Työn hinnoittelutaso (markup_tiers-indeksi). */
+  tier: number;
+  tasks: QuoteTask[];
+  materials: QuoteMaterial[];
+  expenses: QuoteExpense[];
+};
+
+export const defaultQuote: Quote = { tier: midTierIndex(defaultInputs.markup_tiers), tasks: [], materials: [], expenses: [] };
+
+export type QuoteGrade = { id: string; name: string; cost: number };
+
+/** Perusparametrien asentaja, kun tiimimalli ei ole käytössä (tai rivin ryhmä on poistettu). */
+export const BASE_GRADE = "perus";
+
+/** Valittavat tekijäryhmät kustannuksineen €/laskutettava tunti nykyisellä laskutusasteella. */
+export function quoteGrades(eff: EffectiveResult): QuoteGrade[] {
+  if (!eff.crew) return [{ id: BASE_GRADE, name: "Asentaja", cost: eff.r.cost_per_billable_hour }];
+  return eff.crew.rows.map(({ group, r }) => ({ id: group.id, name: group.name, cost: r.cost_per_billable_hour }));
+}
+
+export type QuoteLine = {
+  id: string;
+  kind: "task" | "material" | QuoteExpense["kind"];
+  name: string;
+  cost: number;
+  price: number;
+  margin: number;
+  /** Kate hinnasta (0, jos hinta on 0). */
+  marginPct: number;
+};
+
+export type QuoteResult = {
+  lines: QuoteLine[];
+  labourHours: number;
+  labourCost: number;
+  cost: number;
+  price: number;
+  vat: number;
+  priceVat: number;
+  margin: number;
+  marginPct: number;
+  /** Kattaako tarjous kustannukset nykyisellä laskutusasteella. */
+  covers: boolean;
+  /** Pienin laskutusaste, jolla tarjous vielä kattaa kustannukset (Infinity, jos ei millään). */
+  breakEvenUtilization: number;
+};
+
+type QuoteParams = Pick<Inputs, "vat_rate" | "markup_tiers" | "pricing_basis"> & {
+  utilization: number;
+  materialMarginPct: YearCtl["materialMarginPct"];
+};
+
+const line = (id: string, kind: QuoteLine["kind"], name: string, cost: number, price: number): QuoteLine => ({
+  id,
+  kind,
+  name,
+  cost,
+  price,
+  margin: price - cost,
+  marginPct: price > 0 ? (price - cost) / price : 0,
+});
+
+/**
+ * Tarjouksen hinnoittelu. Työ: ryhmän kustannus €/h valitulla hinnoittelutasolla.
+ * Materiaali: ostohinta / (1 − materiaalikate), jolloin kate on myyntihinnasta kuten vuosilaskelmassa.
+ */
+export function calcQuote(q: Quote, grades: QuoteGrade[], p: QuoteParams): QuoteResult {
+  // Poistetun tason tilalla käytetään keskimmäistä
+  const tier = p.markup_tiers[q.tier] ?? p.markup_tiers[midTierIndex(p.markup_tiers)] ?? 0;
+  const gradeCost = (id: string) => (grades.find((g) => g.id === id) ?? grades[0])?.cost ?? 0;
+  const materialFactor = p.materialMarginPct < 1 ? 1 / (1 - p.materialMarginPct) : 1;
+
+  const tasks = q.tasks.map((t) => {
+    const cost = t.hours * gradeCost(t.grade);
+    return line(t.id, "task", t.name, cost, priceFromCost(cost, tier, p.pricing_basis));
+  });
+  const materials = q.materials.map((m) => {
+    const cost = m.qty * m.unitCost;
+    return line(m.id, "material", m.name, cost, cost * materialFactor);
+  });
+  const expenses = q.expenses.map((e) => {
+    const cost = e.qty * e.unitCost;
+    return line(e.id, e.kind, e.name, cost, cost);
+  });
+
+  const lines = [...tasks, ...materials, ...expenses];
+  const sum = (xs: QuoteLine[], f: (l: QuoteLine) => number) => xs.reduce((s, l) => s + (isFinite(f(l)) ? f(l) : 0), 0);
+  const labourHours = q.tasks.reduce((s, t) => s + t.hours, 0);
+  const labourCost = sum(tasks, (l) => l.cost);
+  const cost = sum(lines, (l) => l.cost);
+  const price = sum(lines, (l) => l.price);
+  const vat = price * p.vat_rate;
+
+  // Työn kustannus skaalautuu kuten laskutusastetaulukossa: kustannus × nykyinen aste / aste.
+  const room = price - (cost - labourCost);
+  const breakEvenUtilization = labourCost <= 0 ? 0 : room > 0 ? (labourCost * p.utilization) / room : Infinity;
+
+  return {
+    lines,
+    labourHours,
+    labourCost,
+    cost,
+    price,
+    vat,
+    priceVat: price + vat,
+    margin: price - cost,
+    marginPct: price > 0 ? (price - cost) / price : 0,
+    covers: price >= cost,
+    breakEvenUtilization,
+  };
+}
@@ -0,0 +1,137 @@
+// --- Nimetyt laskentaskenaariot (tallennetaan laitteelle, localStorage) ---
+import { v4 as uuid } from "uuid";
+import {
+  defaultCrew,
+  defaultInputs,
+  defaultProductivity,
+  defaultYearCtl,
+  type Crew,
+  type Inputs,
+  type ProductivityInputs,
+  type YearCtl,
+} from "./calc";
+
+const LS_KEY = "tuntihinta_scenarios";
+
+export type ScenarioData = {
+  inputs: Inputs;
+  pv: ProductivityInputs;
+  yearCtl: YearCtl;
+  crew: Crew;
+};
+
+export type Scenario = ScenarioData & {
+  id: string;
+  name: string;
+  updatedAt: number;
+};
+
+export type ScenarioStore = {
+  activeId: string;
+  scenarios: Scenario[];
+  /** Skenaarioiden sisällön viimeisin muutos (ms); aktiivisen vaihto ei muuta. Synkronoinnin vertailuarvo. */
+  updatedAt: number;
+};
+
+export function defaultScenarioData(): ScenarioData {
+  return {
+    inputs: { ...defaultInputs },
+    pv: { ...defaultProductivity },
+    yearCtl: { ...defaultYearCtl },
+    crew: { ...defaultCrew, groups: defaultCrew.groups.map((g) => ({ ...g })) },
+  };
+}
+
+export function newScenario(name: string, data: ScenarioData = defaultScenarioData()): Scenario {
+  return { id: uuid(), name, updatedAt: Date.now(), ...data };
+}
+
+const LEGACY_TIERS = ["markup_low", "markup_mid", "markup_high"] as const;
+
+/** Vanhat kiinteät katekentät (alapää, keskitaso, yläpää) → katetasolista; muut kentät ennallaan. */
+export function upgradeInputs<T extends object>(raw: T): T {
+  const { markup_low, markup_mid, markup_high, ...rest } = raw as T & Partial<Record<(typeof LEGACY_TIERS)[number], unknown>>;
+  const legacy = [markup_low, markup_mid, markup_high];
+  if (!legacy.some((x) => typeof x === "number") || "markup_tiers" in rest) return rest as T;
+  return { ...rest, markup_tiers: legacy.map((x, i) => (typeof x === "number" ? x : defaultInputs.markup_tiers[i])) } as T;
+}
+
+// Vanhemmissa tallennuksissa voi puuttua myöhemmin lisättyjä kenttiä → täydennetään oletuksilla.
+function normalize(s: Scenario): Scenario {
+  return {
+    ...s,
+    inputs: { ...defaultInputs, ...upgradeInputs(s.inputs ?? {}) },
+    pv: { ...defaultProductivity, ...s.pv },
+    yearCtl: { ...defaultYearCtl, ...s.yearCtl },
+    crew: s.crew ?? defaultScenarioData().crew,
+  };
+}
+
+/** Tallennettu tai palvelimelta synkronoitu varasto; null, jos muoto ei kelpaa. */
+export function parseScenarioStore(raw: unknown): ScenarioStore | null {
+  const st = raw as Partial<ScenarioStore> | null;
+  if (!st || !Array.isArray(st.scenarios) || st.scenarios.length === 0) return null;
+  const scenarios = st.scenarios.filter((s) => s && typeof s.id === "string").map(normalize);
+  if (scenarios.length === 0) return null;
+  const activeId = scenarios.some((s) => s.id === st.activeId) ? (st.activeId as string) : scenarios[0].id;
+  const updatedAt = typeof st.updatedAt === "number" ? st.updatedAt : Math.max(...scenarios.map((s) => s.updatedAt || 0));
+  return { activeId, scenarios, updatedAt };
+}
+
+export function loadScenarios(): ScenarioStore {
+  try {
+    const raw = localStorage.getItem(LS_KEY);
+    const st = raw ? parseScenarioStore(JSON.parse(raw)) : null;
+    if (st) return st;
+  } catch {}
+  const first = newScenario("Oletus");
+  return { activeId: first.id, scenarios: [first], updatedAt: 0 };
+}
+
+export function saveScenarios(st: ScenarioStore) {
+  try {
+    localStorage.setItem(LS_KEY, JSON.stringify(st));
+  } catch {}
+}
+
+export function activeScenario(st: ScenarioStore): Scenario {
+  return st.scenarios.find((s) => s.id === st.activeId) ?? st.scenarios[0];
+}
+
+/* ---------------------------  MUUTOKSET  -------------------------------- */
+export function updateScenario(st: ScenarioStore, id: string, patch: Partial<Omit<Scenario, "id">>): ScenarioStore {
+  const now = Date.now();
+  return {
+    ...st,
+    scenarios: st.scenarios.map((s) => (s.id === id ? { ...s, ...patch, updatedAt: now } : s)),
+    updatedAt: now,
+  };
+}
+
+export function renameScenario(st: ScenarioStore, id: string, name: string): ScenarioStore {
+  return updateScenario(st, id, { name });
+}
+
+export function duplicateScenario(st: ScenarioStore, id: string): ScenarioStore {
+  const src = st.scenarios.find((s) => s.id === id);
+  if (!src) return st;
+  const copy = newScenario(`${src.name} (kopio)`, {
+    inputs: { ...src.inputs },
+    pv: { ...src.pv },
+    yearCtl: { ...src.yearCtl },
+    crew: { ...src.crew, groups: src.crew.groups.map((g) => ({ ...g })) },
+  });
+  return { activeId: copy.id, scenarios: [...st.scenarios, copy], updatedAt: Date.now() };
+}
+
+/** Viimeistä skenaariota ei poisteta; aktiivinen siirtyy ensimmäiseen jäljelle jäävään. */
+export function deleteScenario(st: ScenarioStore, id: string): ScenarioStore {
+  if (st.scenarios.length <= 1) return st;
+  const scenarios = st.scenarios.filter((s) => s.id !== id);
+  const activeId = st.activeId === id ? scenarios[0].id : st.activeId;
+  return { activeId, scenarios, updatedAt: Date.now() };
+}
+
+export function addScenario(st: ScenarioStore, s: Scenario): ScenarioStore {
+  return { activeId: s.id, scenarios: [...st.scenarios, s], updatedAt: Date.now() };
+}
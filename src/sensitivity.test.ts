@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { calcAnnual, defaultInputs } from "./calc";
+import { SENSITIVITY_VARS, sensitivityLine, tornado } from "./sensitivity";
+
+describe("herkkyysanalyysi", () => {
+  it("perusarvossa vuosikate = tunnit × kustannus × keskitason kate", () => {
+    const r = calcAnnual(defaultInputs);
+    const { base } = tornado(defaultInputs);
+    expect(base.cost_per_billable_hour).toBeCloseTo(r.cost_per_billable_hour, 10);
+    expect(base.profit_year).toBeCloseTo(r.billable_hours_year * r.cost_per_billable_hour * defaultInputs.markup_tiers[1], 6);
+  });
+
+  it("kustannus €/h nousee palkan ja jaettujen kulujen mukana ja laskee laskutusasteen noustessa", () => {
+    const line = (key: string) => sensitivityLine(defaultInputs, SENSITIVITY_VARS.find((x) => x.key === key)!, 5);
+    const rising = (pts: { cost_per_billable_hour: number }[]) => pts.every((p, i) => i === 0 || p.cost_per_billable_hour > pts[i - 1].cost_per_billable_hour);
+    expect(rising(line("hourly_wage"))).toBe(true);
+    expect(rising(line("shared_costs"))).toBe(true);
+    expect(rising(line("sick_days"))).toBe(true);
+    expect(rising([...line("utilization")].reverse())).toBe(true);
+  });
+
+  it("tornado järjestetään vaikutuksen mukaan", () => {
+    const { rows } = tornado(defaultInputs);
+    expect(rows).toHaveLength(SENSITIVITY_VARS.length);
+    expect(rows.every((r, i) => i === 0 || r.swing <= rows[i - 1].swing)).toBe(true);
+  });
+});
@@ -0,0 +1,96 @@
+// --- Herkkyysanalyysi: miten kustannus €/h ja vuosikate liikkuvat, kun yksi syöte muuttuu ---
+import { calcAnnual, type Inputs } from "./calc";
+
+export type SensitivityVar = {
+  key: "utilization" | "hourly_wage" | "sick_days" | "shared_costs";
+  label: string;
+  /** Syötteen nykyarvo (jaetuilla kuluilla kerroin 1). */
+  base: (v: Inputs) => number;
+  range: (v: Inputs) => [number, number];
+  apply: (v: Inputs, x: number) => Inputs;
+  kind: "pct" | "eur" | "days" | "factor";
+};
+
+export const SENSITIVITY_VARS: SensitivityVar[] = [
+  {
+    key: "utilization",
+    label: "Laskutusaste",
+    base: (v) => v.utilization,
+    range: (v) => [Math.max(0.05, v.utilization - 0.15), Math.min(1, v.utilization + 0.1)],
+    apply: (v, x) => ({ ...v, utilization: x }),
+    kind: "pct",
+  },
+  {
+    key: "hourly_wage",
+    label: "Tuntipalkka",
+    base: (v) => v.hourly_wage,
+    range: (v) => [v.hourly_wage * 0.8, v.hourly_wage * 1.2],
+    apply: (v, x) => ({ ...v, hourly_wage: x }),
+    kind: "eur",
+  },
+  {
+    key: "sick_days",
+    label: "Sairauspäivät",
+    base: (v) => v.sick_days,
+    range: (v) => [Math.max(0, v.sick_days - 5), v.sick_days + 10],
+    apply: (v, x) => ({ ...v, sick_days: x }),
+    kind: "days",
+  },
+  {
+    key: "shared_costs",
+    label: "Jaettavat kulut",
+    base: () => 1,
+    range: () => [0.8, 1.2],
+    apply: (v, x) => ({
+      ...v,
+      rent_per_month: v.rent_per_month * x,
+      admin_per_year: v.admin_per_year * x,
+      car_pool_total: v.car_pool_total * x,
+      travel_pool_total: v.travel_pool_total * x,
+      siteallow_pool_total: v.siteallow_pool_total * x,
+    }),
+    kind: "factor",
+  },
+];
+
+export type SensitivityPoint = { x: number; cost_per_billable_hour: number; profit_year: number };
+
+/**
+ * Vuosikate asentajaa kohden, kun myyntihinta pidetään nykyisessä keskitason hinnassa:
+ * laskutettavat tunnit × hinta − kokonaiskustannus.
+ */
+function evaluate(v: Inputs, price: number, x: number): SensitivityPoint {
+  const r = calcAnnual(v);
+  return { x, cost_per_billable_hour: r.cost_per_billable_hour, profit_year: r.billable_hours_year * price - r.total_cost_year };
+}
+
+export function sensitivityLine(v: Inputs, sv: SensitivityVar, steps = 11): SensitivityPoint[] {
+  const price = calcAnnual(v).sales_mid;
+  const [lo, hi] = sv.range(v);
+  return Array.from({ length: steps }, (_, i) => {
+    const x = lo + ((hi - lo) * i) / (steps - 1);
+    return evaluate(sv.apply(v, x), price, x);
+  });
+}
+
+export type TornadoRow = {
+  key: SensitivityVar["key"];
+  label: string;
+  low: SensitivityPoint;
+  high: SensitivityPoint;
+  /** Vuosikatteen vaihteluväli, järjestysavain. */
+  swing: number;
+};
+
+/** Tornado: jokainen muuttuja ääripäihinsä, muut ennallaan; suurin vaikutus ensin. */
+export function tornado(v: Inputs): { base: SensitivityPoint; rows: TornadoRow[] } {
+  const price = calcAnnual(v).sales_mid;
+  const base = evaluate(v, price, NaN);
+  const rows = SENSITIVITY_VARS.map((sv) => {
+    const [lo, hi] = sv.range(v);
+    const low = evaluate(sv.apply(v, lo), price, lo);
+    const high = evaluate(sv.apply(v, hi), price, hi);
+    return { key: sv.key, label: sv.label, low, high, swing: Math.abs(high.profit_year - low.profit_year) };
+  });
+  return { base, rows: rows.sort((a, b) => b.swing - a.swing) };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { defaultCrew, defaultInputs, defaultProductivity, defaultYearCtl } from "./calc";
+import { decodeShare, encodeShare, shareFromHash, shareUrl, type ShareSnapshot } from "./share";
+
+const snapshot: ShareSnapshot = {
+  name: "Tarjous 2025",
+  createdAt: 1_700_000_000_000,
+  inputs: { ...defaultInputs, hourly_wage: 23.5, use_calendar: true },
+  pv: { ...defaultProductivity, billRate: 65 },
+  yearCtl: { ...defaultYearCtl, targetProfit: 20000 },
+  crew: { enabled: true, groups: [{ ...defaultCrew.groups[0], name: "Oppilas", count: 3 }] },
+};
+
+const encodeRaw = async (obj: unknown) => {
+  const bytes = new TextEncoder().encode(JSON.stringify(obj));
+  const out = new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(new CompressionStream("deflate-raw"))).arrayBuffer());
+  return btoa(String.fromCharCode(...out)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+describe("jakolinkki", () => {
+  it("koodaus ja purku säilyttävät tilannekuvan", async () => {
+    const text = await encodeShare(snapshot);
+    expect(text).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(await decodeShare(text)).toEqual(snapshot);
+  });
+
+  it("fragmentti", () => {
+    expect(shareUrl("abc", "https://tuntihintasi.fi/")).toBe("https://tuntihintasi.fi/#jaa=abc");
+    expect(shareFromHash("#jaa=abc")).toBe("abc");
+    expect(shareFromHash("#jaa=")).toBeNull();
+    expect(shareFromHash("#muu")).toBeNull();
+  });
+
+  it("vieraat ja väärän tyyppiset kentät korvataan oletuksilla", async () => {
+    const text = await encodeRaw({
+      v: 1,
+      name: "<b>x</b>",
+      inputs: { hourly_wage: "999", vat_rate: 0.24, evil: 1 },
+      pv: null,
+      crew: { enabled: true, groups: [] },
+    });
+    const s = await decodeShare(text);
+    expect(s?.inputs.hourly_wage).toBe(defaultInputs.hourly_wage);
+    expect(s?.inputs.vat_rate).toBe(0.24);
+    expect(s?.inputs).not.toHaveProperty("evil");
+    expect(s?.pv).toEqual(defaultProductivity);
+    expect(s?.crew.enabled).toBe(false);
+  });
+
+  it("listat tarkistetaan ja vanhat katekentät muunnetaan tasoiksi", async () => {
+    const s = await decodeShare(
+      await encodeRaw({ v: 1, inputs: { markup_low: 0.1, markup_mid: 0.2, markup_high: 0.3, util_levels: ["x"], pricing_basis: "evil" } })
+    );
+    expect(s?.inputs.markup_tiers).toEqual([0.1, 0.2, 0.3]);
+    expect(s?.inputs).not.toHaveProperty("markup_low");
+    expect(s?.inputs.util_levels).toEqual(defaultInputs.util_levels);
+    expect(s?.inputs.pricing_basis).toBe("markup");
+  });
+
+  it("rikkinäinen tai tuntematon versio → null", async () => {
+    expect(await decodeShare("!!!")).toBeNull();
+    expect(await decodeShare(await encodeRaw({ v: 2 }))).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+// --- Jaettavat lukulinkit: skenaarion tilannekuva pakattuna URL:n fragmenttiin ---
+// Fragmentti (#jaa=…) ei lähde palvelimelle, joten linkki ei vaadi tallennusta eikä lisenssiä.
+import { defaultCrew, defaultInputs, defaultProductivity, defaultYearCtl, type CrewGroup } from "./calc";
+import { upgradeInputs, type ScenarioData } from "./scenarios";
+
+export const SHARE_PREFIX = "#jaa=";
+const VERSION = 1;
+const MAX_GROUPS = 50;
+const MAX_LIST = 12;
+
+export type ShareSnapshot = ScenarioData & { name: string; createdAt: number };
+
+/* -----------------------------  KOODAUS  -------------------------------- */
+async function pipe(bytes: BlobPart, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const out = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(out).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let bin = "";
+  for (const b of bytes) bin += String.fromCharCode(b);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+export async function encodeShare(s: ShareSnapshot): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify({ v: VERSION, ...s }));
+  return toBase64Url(await pipe(json, new CompressionStream("deflate-raw")));
+}
+
+/* -------------------------  PURKU JA TARKISTUS  ------------------------- */
+const isNumberList = (v: unknown): v is number[] =>
+  Array.isArray(v) && v.length <= MAX_LIST && v.every((x) => typeof x === "number" && Number.isFinite(x));
+
+/** Oletusarvon tyyppi; luvut äärellisiä, listat lyhyitä lukulistoja. */
+function sameType(base: unknown, v: unknown): boolean {
+  if (Array.isArray(base)) return isNumberList(v);
+  if (typeof v === "number") return typeof base === "number" && Number.isFinite(v);
+  return typeof v === typeof base;
+}
+
+/** Linkin sisältö on vierasta dataa: vain oletusarvon tyyppiset kentät kelpaavat, muut oletuksista. */
+function pickTyped<T extends object>(base: T, raw: unknown): T {
+  const out = { ...base };
+  if (!raw || typeof raw !== "object") return out;
+  for (const k of Object.keys(base) as (keyof T)[]) {
+    const v = (raw as Record<string, unknown>)[k as string];
+    if (sameType(base[k], v)) out[k] = v as T[keyof T];
+  }
+  return out;
+}
+
+function decodeInputs(raw: unknown) {
+  const inputs = pickTyped(defaultInputs, raw && typeof raw === "object" ? upgradeInputs(raw) : raw);
+  return inputs.pricing_basis === "markup" || inputs.pricing_basis === "margin" ? inputs : { ...inputs, pricing_basis: defaultInputs.pricing_basis };
+}
+
+export async function decodeShare(text: string): Promise<ShareSnapshot | null> {
+  try {
+    const raw = JSON.parse(new TextDecoder().decode(await pipe(fromBase64Url(text), new DecompressionStream("deflate-raw"))));
+    if (!raw || raw.v !== VERSION) return null;
+    const groupBase: CrewGroup = { ...defaultCrew.groups[0], id: "", name: "" };
+    const groups = Array.isArray(raw.crew?.groups) ? raw.crew.groups.slice(0, MAX_GROUPS).map((g: unknown) => pickTyped(groupBase, g)) : [];
+    return {
+      name: typeof raw.name === "string" ? raw.name.slice(0, 100) : "Jaettu laskelma",
+      createdAt: typeof raw.createdAt === "number" ? raw.createdAt : 0,
+      inputs: decodeInputs(raw.inputs),
+      pv: pickTyped(defaultProductivity, raw.pv),
+      yearCtl: pickTyped(defaultYearCtl, raw.yearCtl),
+      crew: groups.length ? { enabled: raw.crew.enabled === true, groups } : { ...defaultCrew, groups: defaultCrew.groups.map((g) => ({ ...g })) },
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function shareUrl(encoded: string, base = window.location.origin + window.location.pathname): string {
+  return base + SHARE_PREFIX + encoded;
+}
+
+/** Fragmentin koodattu osa tai null, jos kyse ei ole jakolinkistä. */
+export function shareFromHash(hash: string): string | null {
+  return hash.startsWith(SHARE_PREFIX) && hash.length > SHARE_PREFIX.length ? hash.slice(SHARE_PREFIX.length) : null;
+}
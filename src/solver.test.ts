@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { calcAnnual, calcDay, calcYear, defaultInputs, defaultProductivity, defaultYearCtl } from "./calc";
+import { netPrice, solveBillableHoursPerDay, solveHourlyWage, solveMarkup, solveUtilization } from "./solver";
+
+describe("käänteislaskenta", () => {
+  const r = calcAnnual(defaultInputs);
+
+  it("netPrice poistaa ALV:n", () => {
+    expect(netPrice(125.5, true, 0.255)).toBeCloseTo(100, 10);
+    expect(netPrice(100, false, 0.255)).toBe(100);
+  });
+
+  it("kate: nykyinen keskitason hinta palauttaa keskitason katteen", () => {
+    expect(solveMarkup(r.cost_per_billable_hour, r.sales_mid)).toBeCloseTo(defaultInputs.markup_tiers[1], 10);
+  });
+
+  it("laskutusaste tuottaa tavoitehinnan", () => {
+    const u = solveUtilization(defaultInputs, 70, 1);
+    expect(calcAnnual({ ...defaultInputs, utilization: u }).sales_mid).toBeCloseTo(70, 8);
+    expect(solveUtilization(defaultInputs, r.sales_low, 0)).toBeCloseTo(0.85, 10);
+  });
+
+  it("suurin tuntipalkka tuottaa tavoitehinnan", () => {
+    const w = solveHourlyWage(defaultInputs, 70, 2);
+    expect(calcAnnual({ ...defaultInputs, hourly_wage: w }).sales_high).toBeCloseTo(70, 8);
+    expect(solveHourlyWage(defaultInputs, r.sales_mid, 1)).toBeCloseTo(20, 8);
+  });
+
+  it("kate myyntihinnasta", () => {
+    const price = r.cost_per_billable_hour / (1 - 0.2);
+    expect(solveMarkup(r.cost_per_billable_hour, price, "margin")).toBeCloseTo(0.2, 10);
+  });
+
+  it("laskutettavat tunnit päivässä tavoitekatteeseen", () => {
+    const pv = { ...defaultProductivity, billRate: 60, costPerHour: 40 };
+    const h = solveBillableHoursPerDay(pv, calcDay(pv), defaultYearCtl);
+    const day = calcDay({ ...pv, billableHours: h });
+    expect(calcYear(day, defaultYearCtl).annualProfit).toBeCloseTo(defaultYearCtl.targetProfit, 6);
+    expect(solveBillableHoursPerDay({ ...pv, billRate: 0 }, calcDay(pv), defaultYearCtl)).toBeNaN();
+  });
+});
@@ -0,0 +1,41 @@
+// --- Käänteislaskenta: mitä syötteen pitää olla, jotta tavoitehinta tai -kate toteutuu ---
+import { calcAnnual, priceFromCost, type DayResult, type Inputs, type PricingBasis, type ProductivityInputs, type YearCtl } from "./calc";
+
+/** Tavoitehinta alv 0 %:ksi. */
+export function netPrice(price: number, includesVat: boolean, vat_rate: number): number {
+  return includesVat ? price / (1 + vat_rate) : price;
+}
+
+/** Hinnoittelutaso (valitulla perusteella), jolla kustannus €/h nousee tavoitehintaan. */
+export function solveMarkup(cost_per_billable_hour: number, price: number, basis: PricingBasis = "markup"): number {
+  return basis === "margin" ? 1 - cost_per_billable_hour / price : price / cost_per_billable_hour - 1;
+}
+
+/**
+ * Laskutusaste, jolla hinnoittelutason `tier` (markup_tiers-indeksi) myyntihinta on tavoitehinta.
+ * Vuosikustannus ei riipu laskutusasteesta, joten hinta ∝ 1 / laskutusaste.
+ */
+export function solveUtilization(v: Inputs, price: number, tier: number): number {
+  const r = calcAnnual({ ...v, utilization: 1 });
+  return priceFromCost(r.total_cost_year / r.attendance_hours_year, v.markup_tiers[tier], v.pricing_basis) / price;
+}
+
+/**
+ * Suurin tuntipalkka, jolla hinnoittelutason `tier` myyntihinta pysyy tavoitehinnassa.
+ * Myyntihinta on palkan suhteen lineaarinen, joten kaksi pistettä riittää.
+ */
+export function solveHourlyWage(v: Inputs, price: number, tier: number): number {
+  const at = (w: number) => calcAnnual({ ...v, hourly_wage: w }).sales[tier];
+  const p0 = at(0);
+  const slope = at(1) - p0;
+  return (price - p0) / slope;
+}
+
+/**
+ * Laskutettavat tunnit päivässä, joilla vuosikate saavuttaa tavoitteen ilman materiaalimyyntiä.
+ * Päivän kustannus ei riipu laskutettavista tunneista.
+ */
+export function solveBillableHoursPerDay(pv: ProductivityInputs, day: DayResult, yearCtl: YearCtl): number {
+  if (pv.billRate <= 0 || yearCtl.workDays <= 0) return NaN;
+  return (yearCtl.targetProfit / yearCtl.workDays + day.totalCost) / pv.billRate;
+}
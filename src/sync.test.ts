@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { newScenario, parseScenarioStore } from "./scenarios";
+import { defaultSyncMeta, mergeRemote, syncAction, type SyncRecord } from "./sync";
+
+const remote = (updatedAt: number): SyncRecord => ({ data: {}, updatedAt, deviceName: "Tabletti", savedAt: updatedAt });
+const meta = { ...defaultSyncMeta, enabled: true, pushedAt: 100, remoteAt: 100 };
+
+describe("syncAction — viimeisin muutos voittaa", () => {
+  it("tyhjä palvelin saa paikalliset muutokset", () => {
+    expect(syncAction(50, defaultSyncMeta, null)).toBe("push");
+    expect(syncAction(0, defaultSyncMeta, null)).toBe("none");
+  });
+
+  it("vain toinen puoli muuttunut", () => {
+    expect(syncAction(100, meta, remote(100))).toBe("none");
+    expect(syncAction(200, meta, remote(100))).toBe("push");
+    expect(syncAction(100, meta, remote(200))).toBe("pull");
+  });
+
+  it("molemmat muuttuneet: myöhempi muutoshetki voittaa", () => {
+    expect(syncAction(300, meta, remote(200))).toBe("push");
+    expect(syncAction(200, meta, remote(300))).toBe("pull");
+  });
+});
+
+describe("mergeRemote", () => {
+  it("säilyttää laitteen aktiivisen skenaarion, jos se on haetussa varastossa", () => {
+    const a = newScenario("A");
+    const b = newScenario("B");
+    const local = { activeId: b.id, scenarios: [a, b], updatedAt: 1 };
+    const fetched = parseScenarioStore({ scenarios: [a, { ...b, inputs: { hourly_wage: 30 } }], updatedAt: 5 })!;
+    const merged = mergeRemote(local, fetched);
+    expect(merged.activeId).toBe(b.id);
+    expect(merged.updatedAt).toBe(5);
+    // puuttuvat kentät täydennetään oletuksilla
+    expect(merged.scenarios[1].inputs.hourly_wage).toBe(30);
+    expect(merged.scenarios[1].inputs.vat_rate).toBe(a.inputs.vat_rate);
+
+    expect(mergeRemote({ ...local, activeId: "poistettu" }, fetched).activeId).toBe(a.id);
+  });
+});
@@ -0,0 +1,60 @@
+// --- Skenaarioiden synkronointi laitteiden välillä lisenssillä (/api/sync) ---
+// Viimeisin muutos voittaa: vertailuarvona varaston updatedAt (muutoshetki laitteella).
+import type { ScenarioStore } from "./scenarios";
+
+const LS_KEY = "tuntihinta_sync";
+
+export type SyncRecord = { data: unknown; updatedAt: number; deviceName: string; savedAt: number };
+
+export type SyncMeta = {
+  enabled: boolean;
+  /** Viimeksi palvelimelle viety tai sieltä haettu paikallinen muutoshetki. */
+  pushedAt: number;
+  /** Palvelimen versio viimeisimmässä synkronoinnissa. */
+  remoteAt: number;
+  remoteDevice: string | null;
+  lastSyncAt: number | null;
+};
+
+export const defaultSyncMeta: SyncMeta = { enabled: false, pushedAt: 0, remoteAt: 0, remoteDevice: null, lastSyncAt: null };
+
+export function loadSyncMeta(): SyncMeta {
+  try {
+    return { ...defaultSyncMeta, ...JSON.parse(localStorage.getItem(LS_KEY) || "{}") };
+  } catch {
+    return defaultSyncMeta;
+  }
+}
+
+export function saveSyncMeta(m: SyncMeta) {
+  try {
+    localStorage.setItem(LS_KEY, JSON.stringify(m));
+  } catch {}
+}
+
+export type SyncAction = "none" | "push" | "pull";
+
+/**
+ * Mitä tehdään: paikallinen muutos viedään, palvelimen uudempi versio haetaan. Jos molemmat ovat
+ * muuttuneet edellisen synkronoinnin jälkeen, myöhempi muutoshetki voittaa.
+ */
+export function syncAction(localAt: number, meta: SyncMeta, remote: SyncRecord | null): SyncAction {
+  if (!remote) return localAt > 0 ? "push" : "none";
+  const localChanged = localAt > meta.pushedAt;
+  const remoteChanged = remote.updatedAt > meta.remoteAt;
+  if (localChanged && remoteChanged) return localAt >= remote.updatedAt ? "push" : "pull";
+  if (remoteChanged) return "pull";
+  if (localChanged) return "push";
+  return "none";
+}
+
+/** Palvelimelle viedään skenaariot; aktiivinen valinta säilyy laitekohtaisena. */
+export function syncPayload(st: ScenarioStore) {
+  return { scenarios: st.scenarios };
+}
+
+/** Haettu varasto: pidetään laitteen aktiivinen skenaario, jos se on yhä olemassa. */
+export function mergeRemote(local: ScenarioStore, remote: ScenarioStore): ScenarioStore {
+  const activeId = remote.scenarios.some((s) => s.id === local.activeId) ? local.activeId : remote.activeId;
+  return { ...remote, activeId };
+}
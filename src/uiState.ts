@@ -0,0 +1,39 @@
+// --- Näkymän tila laitteella (välilehti, tarjous, ennusteen korotukset); syötteet tallentuvat skenaarioihin ---
+import { PROJECTION_YEARS, defaultEscalation, type Escalation } from "./projection";
+import { defaultQuote, type Quote } from "./quote";
+
+const LS_KEY = "tuntihinta_ui";
+
+export const TABS = ["Syötteet", "Tuntihinta", "Asentajan tuottavuus", "Tarjous", "Ennuste", "Herkkyys", "Vertailu"] as const;
+
+export type Tab = (typeof TABS)[number];
+
+export type UiState = { tab: Tab; quote: Quote; escalation: Escalation };
+
+function parseEscalation(raw: unknown): Escalation {
+  const e = { ...defaultEscalation };
+  if (!raw || typeof raw !== "object") return e;
+  for (const k of Object.keys(e) as (keyof Escalation)[]) {
+    const x = (raw as Record<string, unknown>)[k];
+    if (typeof x === "number" && isFinite(x)) e[k] = x;
+  }
+  return PROJECTION_YEARS.some((n) => n === e.years) ? e : { ...e, years: defaultEscalation.years };
+}
+
+export function loadUiState(): UiState {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LS_KEY) || "{}") as Partial<UiState>;
+    const tab = TABS.find((t) => t === raw.tab) ?? "Tuntihinta";
+    const q = raw.quote;
+    const quote = q && Array.isArray(q.tasks) && Array.isArray(q.materials) && Array.isArray(q.expenses) ? { ...defaultQuote, ...q, tier: typeof q.tier === "number" ? q.tier : defaultQuote.tier } : defaultQuote;
+    return { tab, quote, escalation: parseEscalation(raw.escalation) };
+  } catch {
+    return { tab: "Tuntihinta", quote: defaultQuote, escalation: defaultEscalation };
+  }
+}
+
+export function saveUiState(s: UiState) {
+  try {
+    localStorage.setItem(LS_KEY, JSON.stringify(s));
+  } catch {}
+}
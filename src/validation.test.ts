@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { defaultInputs } from "./calc";
+import { FIELD_BY_KEY, INPUT_FIELDS } from "./fields";
+import { fieldError, validateInputs } from "./validation";
+
+describe("fieldError", () => {
+  it("rajat ja prosenttimuotoilu", () => {
+    expect(fieldError(FIELD_BY_KEY.hourly_wage, 20)).toBeNull();
+    expect(fieldError(FIELD_BY_KEY.num_productive, 0)).toBe("Vähintään 1");
+    expect(fieldError(FIELD_BY_KEY.tyel_employer, 17.38)).toBe("Enintään 100 %");
+    expect(fieldError(FIELD_BY_KEY.utilization, NaN)).toBe("Anna numero");
+  });
+});
+
+describe("INPUT_FIELDS", () => {
+  it("prosenttikentät ovat desimaaleja 0–1, joten kokonaislukuna syötetty prosentti on aina virhe", () => {
+    for (const f of INPUT_FIELDS.filter((x) => x.percent)) {
+      expect(f.min, f.k).toBeGreaterThanOrEqual(0);
+      expect(f.max, f.k).toBeLessThanOrEqual(1);
+      expect(fieldError(f, 17), f.k).not.toBeNull();
+    }
+  });
+});
+
+describe("validateInputs", () => {
+  it("oletussyötteissä ei huomautettavaa", () => {
+    expect(validateInputs(defaultInputs)).toEqual({ errors: {}, warnings: [] });
+  });
+
+  it("kokonaislukuna syötetyt prosentit ja nollat", () => {
+    const res = validateInputs({ ...defaultInputs, tyel_employer: 17.38, utilization: 0, num_productive: 0 });
+    expect(Object.keys(res.errors).sort()).toEqual(["num_productive", "tyel_employer", "utilization"]);
+    expect(res.warnings.some((w) => w.includes("yli 100 % palkasta"))).toBe(true);
+    expect(res.warnings.some((w) => w.includes("Laskutusaste on nolla"))).toBe(true);
+    expect(res.warnings.some((w) => w.includes("Tuottavaa työtä tekeviä on 0"))).toBe(true);
+  });
+
+  it("negatiiviset läsnäolotunnit ja sekaisin olevat katetasot", () => {
+    const res = validateInputs({ ...defaultInputs, sick_days: 200, holiday_weeks: 12, markup_tiers: [0.4, 0.25, 0.3] });
+    expect(res.warnings.some((w) => w.startsWith("Läsnäolotunnit"))).toBe(true);
+    expect(res.warnings.some((w) => w.startsWith("Katetasot"))).toBe(true);
+  });
+
+  it("katetasot ja laskutusastetaulukko", () => {
+    const margin = validateInputs({ ...defaultInputs, pricing_basis: "margin", markup_tiers: [0.2, 1] });
+    expect(margin.warnings.some((w) => w.startsWith("Kate myyntihinnasta"))).toBe(true);
+    const typo = validateInputs({ ...defaultInputs, markup_tiers: [0.2, 25] });
+    expect(typo.warnings.some((w) => w.includes("kahteen kertaan"))).toBe(true);
+    const levels = validateInputs({ ...defaultInputs, markup_tiers: [], util_levels: [1, 0] });
+    expect(levels.warnings.some((w) => w.startsWith("Katetasoja ei ole"))).toBe(true);
+    expect(levels.warnings.some((w) => w.startsWith("Laskutusastetaulukon"))).toBe(true);
+  });
+});
@@ -0,0 +1,56 @@
+// --- Syötteiden tarkistus: kenttäkohtaiset rajat ja epäuskottavien yhdistelmien varoitukset ---
+import { calcAnnual, type Inputs } from "./calc";
+import { INPUT_FIELDS, type InputField, type NumericInputKey } from "./fields";
+import { fmtNum } from "./format";
+
+const bound = (f: InputField, n: number) => (f.percent ? `${fmtNum(n * 100, 0)} %` : fmtNum(n, n % 1 === 0 ? 0 : 2));
+
+/** Kentän virheilmoitus tai null, jos arvo on sallittu. */
+export function fieldError(f: InputField, value: number): string | null {
+  if (!isFinite(value)) return "Anna numero";
+  if (value < f.min) return `Vähintään ${bound(f, f.min)}`;
+  if (value > f.max) return `Enintään ${bound(f, f.max)}`;
+  return null;
+}
+
+export type Validation = {
+  errors: Partial<Record<NumericInputKey, string>>;
+  warnings: string[];
+};
+
+export function validateInputs(v: Inputs): Validation {
+  const errors: Validation["errors"] = {};
+  for (const f of INPUT_FIELDS) {
+    const e = fieldError(f, v[f.k]);
+    if (e) errors[f.k] = e;
+  }
+
+  const warnings: string[] = [];
+  const r = calcAnnual(v);
+  const social = r.social_total_rate;
+
+  if (!(r.attendance_hours_year > 0)) {
+    warnings.push("Läsnäolotunnit ovat nolla tai negatiiviset — tarkista loma-, pekkas-, sairaus- ja arkipyhäpäivät.");
+  }
+  if (v.utilization > 1) warnings.push("Laskutusaste on yli 100 %.");
+  if (v.utilization <= 0) warnings.push("Laskutusaste on nolla — kustannusta laskutettavaa tuntia kohden ei voi laskea.");
+  if (social > 1) warnings.push("Sosiaalikulut ovat yhteensä yli 100 % palkasta — onko prosentti syötetty kokonaislukuna?");
+  else if (social > 0.4) warnings.push(`Sosiaalikulut yhteensä ${fmtNum(social * 100, 1)} % ovat poikkeuksellisen suuret.`);
+  if (v.num_productive <= 0) warnings.push("Tuottavaa työtä tekeviä on 0 — jaettavia kuluja ei voi jakaa.");
+  if (v.holiday_weeks >= v.weeks_per_year) warnings.push("Lomaviikkoja on vähintään yhtä paljon kuin viikkoja vuodessa.");
+  if (v.vat_rate > 0.5) warnings.push("ALV on yli 50 % — onko prosentti syötetty kokonaislukuna?");
+  if (v.markup_tiers.length === 0) warnings.push("Katetasoja ei ole — myyntihintoja ei lasketa.");
+  if (v.markup_tiers.some((t, i) => i > 0 && t < v.markup_tiers[i - 1])) {
+    warnings.push("Katetasot eivät ole nousevassa järjestyksessä.");
+  }
+  if (v.pricing_basis === "margin" && v.markup_tiers.some((t) => t >= 1)) {
+    warnings.push("Kate myyntihinnasta ei voi olla 100 % tai enemmän — tason myyntihintaa ei voi laskea.");
+  } else if (v.markup_tiers.some((t) => t >= 1)) {
+    warnings.push("Katetaso on vähintään 100 % — tarkista, ettei prosenttia ole syötetty kahteen kertaan.");
+  }
+  if (v.util_levels.length === 0) warnings.push("Laskutusastetaulukossa ei ole rivejä.");
+  if (v.util_levels.some((l) => !(l > 0 && l <= 1))) warnings.push("Laskutusastetaulukon asteiden tulee olla välillä 1–100 %.");
+  if (v.hourly_wage > 0 && v.hourly_wage < 10) warnings.push("Tuntipalkka on alle 10 €/h.");
+
+  return { errors, warnings };
+}
@@ -1,7 +1,14 @@
+/// <reference types="vitest" />
 // vite.config.ts
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
 export default defineConfig({
   plugins: [react()],
+  build: {
+    // Ylläpito on oma sivunsa (/admin.html), jottei se kulje asiakkaan AccessGaten kautta.
+    rollupOptions: { input: { main: 'index.html', admin: 'admin.html' } },
+  },
+  // Rajapintojen JSON-loki pois testiajosta; lokitestit asettavat tason itse.
+  test: { env: { LOG_LEVEL: 'silent' } },
 });